@@ -0,0 +1,611 @@
+'use client';
+
+import {
+  DeleteOutlined,
+  DownloadOutlined,
+  EditOutlined,
+  EyeOutlined,
+  ExclamationCircleOutlined,
+  SearchOutlined,
+} from '@ant-design/icons';
+import { Alert, App, Button, Card, Drawer, Form, Input, Select, Space, Table, Tag, Tooltip, Typography } from 'antd';
+import type { TableColumnsType, TableProps } from 'antd';
+import dayjs from 'dayjs';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+import SessionTriagePanel, { type SessionTriageFields } from '@/components/SessionTriagePanel';
+import { TRIAGE_STATUS_OPTIONS } from '@/constants';
+import type { SessionMetadata, SessionSortField, SessionTriageStatus, SortOrder } from '@/types/session';
+import { formatReplayOffset } from '@/utils/replayAnnotations';
+import { exportSessions } from '@/utils/sessionExport';
+
+const { Title, Text, Link } = Typography;
+
+const DEFAULT_PAGE_SIZE = 10;
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+// Text filters synced with the URL and passed through to /api/sessions
+const FILTER_KEYS = ['q', 'jira_id', 'platform', 'device_id', 'triage_status', 'tag', 'assignee'] as const;
+
+type SessionFilters = Partial<Record<(typeof FILTER_KEYS)[number], string>>;
+
+/**
+ * Format a byte count for display
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+export default function SessionsContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { modal, message } = App.useApp();
+  const [form] = Form.useForm<SessionFilters>();
+  const [sessions, setSessions] = useState<SessionMetadata[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkDeleting, setBulkDeleting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [triageSession, setTriageSession] = useState<SessionMetadata | null>(null);
+
+  // Jira configuration from environment variables
+  const jiraDomain = process.env.NEXT_PUBLIC_JIRA_DOMAIN || 'web-reel.atlassian.net';
+
+  // Query state lives in the URL so filtered views can be shared
+  const queryString = searchParams.toString();
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const pageSizeParam = parseInt(searchParams.get('page_size') || '', 10);
+  const pageSize = PAGE_SIZE_OPTIONS.includes(pageSizeParam) ? pageSizeParam : DEFAULT_PAGE_SIZE;
+  const sortBy: SessionSortField = searchParams.get('sort_by') === 'file_size' ? 'file_size' : 'created_at';
+  const sortOrder: SortOrder = searchParams.get('sort_order') === 'asc' ? 'asc' : 'desc';
+
+  /**
+   * Merge updates into the URL query, default values are dropped to keep links short
+   */
+  const updateQuery = (updates: Record<string, string | number | undefined>) => {
+    const params = new URLSearchParams(queryString);
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === undefined || value === '') {
+        params.delete(key);
+      } else {
+        params.set(key, String(value));
+      }
+    });
+
+    if (params.get('page') === '1') params.delete('page');
+    if (params.get('page_size') === String(DEFAULT_PAGE_SIZE)) params.delete('page_size');
+    if (params.get('sort_by') === 'created_at') params.delete('sort_by');
+    if (params.get('sort_order') === 'desc') params.delete('sort_order');
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  // Keep the filter form in sync with the URL (e.g. back/forward navigation)
+  useEffect(() => {
+    const params = new URLSearchParams(queryString);
+    form.setFieldsValue(Object.fromEntries(FILTER_KEYS.map((key) => [key, params.get(key) || undefined])));
+  }, [form, queryString]);
+
+  // Load the current page from the server whenever the query changes
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams(queryString);
+    const apiParams = new URLSearchParams({
+      limit: String(pageSize),
+      offset: String((page - 1) * pageSize),
+      sort_by: sortBy,
+      sort_order: sortOrder,
+    });
+
+    FILTER_KEYS.forEach((key) => {
+      const value = params.get(key);
+      if (value) apiParams.set(key, value);
+    });
+
+    const loadSessions = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/sessions?${apiParams}`);
+        const data = await response.json();
+
+        if (!data.success || !data.sessions) {
+          throw new Error(data.error || 'Failed to load sessions');
+        }
+        if (cancelled) return;
+
+        setSessions(data.sessions);
+        setTotal(data.total || 0);
+
+        // The page emptied (e.g. after deleting its sessions), go to the last page
+        if (data.sessions.length === 0 && page > 1 && data.total > 0) {
+          updateQuery({ page: Math.ceil(data.total / pageSize) });
+        }
+      } catch (error) {
+        console.error('Failed to load sessions:', error);
+        if (!cancelled) message.error('Failed to load sessions');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSessions();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryString, reloadKey]);
+
+  const handleView = (id: number) => {
+    router.push(`/replayer/${id}`);
+  };
+
+  const handleDelete = (id: number) => {
+    modal.confirm({
+      title: 'Delete Session',
+      icon: <ExclamationCircleOutlined />,
+      content: `Are you sure you want to delete session #${id}? This action cannot be undone.`,
+      okText: 'Delete',
+      okType: 'danger',
+      cancelText: 'Cancel',
+      okButtonProps: {
+        style: { outline: 'none' },
+      },
+      cancelButtonProps: {
+        style: { outline: 'none' },
+      },
+      onOk: async () => {
+        setDeleting(id);
+        try {
+          const response = await fetch(`/api/sessions/${id}`, {
+            method: 'DELETE',
+          });
+          const data = await response.json();
+
+          if (data.success) {
+            message.success('Session deleted successfully');
+            setSelectedIds((prev) => prev.filter((selectedId) => selectedId !== id));
+            setReloadKey((key) => key + 1);
+          } else {
+            throw new Error(data.error || 'Failed to delete session');
+          }
+        } catch (error) {
+          console.error('Failed to delete session:', error);
+          message.error('Failed to delete session');
+        } finally {
+          setDeleting(null);
+        }
+      },
+    });
+  };
+
+  const handleBulkDelete = () => {
+    const ids = [...selectedIds];
+
+    modal.confirm({
+      title: 'Delete Sessions',
+      icon: <ExclamationCircleOutlined />,
+      content: `Are you sure you want to delete ${ids.length} session${ids.length !== 1 ? 's' : ''}? This action cannot be undone.`,
+      okText: 'Delete',
+      okType: 'danger',
+      cancelText: 'Cancel',
+      onOk: async () => {
+        setBulkDeleting(true);
+        const failed: number[] = [];
+
+        // Delete one at a time to avoid hammering the blob store
+        for (const id of ids) {
+          try {
+            const response = await fetch(`/api/sessions/${id}`, { method: 'DELETE' });
+            const data = await response.json();
+            if (!data.success) {
+              throw new Error(data.error || 'Failed to delete session');
+            }
+          } catch (error) {
+            console.error(`Failed to delete session #${id}:`, error);
+            failed.push(id);
+          }
+        }
+
+        if (failed.length > 0) {
+          message.error(
+            `Failed to delete session${failed.length !== 1 ? 's' : ''} ${failed.map((id) => `#${id}`).join(', ')}`,
+          );
+        } else {
+          message.success(`Deleted ${ids.length} session${ids.length !== 1 ? 's' : ''}`);
+        }
+
+        setSelectedIds(failed);
+        setBulkDeleting(false);
+        setReloadKey((key) => key + 1);
+      },
+    });
+  };
+
+  const handleBulkExport = async () => {
+    setExportProgress(`0/${selectedIds.length}`);
+    try {
+      const failed = await exportSessions(selectedIds, (completed, count) => {
+        setExportProgress(`${completed}/${count}`);
+      });
+
+      if (failed.length > 0) {
+        message.warning(
+          `Exported without session${failed.length !== 1 ? 's' : ''} ${failed.map((id) => `#${id}`).join(', ')}`,
+        );
+      } else {
+        message.success(`Exported ${selectedIds.length} session${selectedIds.length !== 1 ? 's' : ''}`);
+      }
+    } catch (error) {
+      console.error('Failed to export sessions:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to export sessions');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  /**
+   * Apply saved triage fields to the loaded row
+   */
+  const updateSessionRow = (id: number, fields: Partial<SessionTriageFields>) => {
+    setSessions((prev) => prev.map((session) => (session.id === id ? { ...session, ...fields } : session)));
+  };
+
+  const handleStatusChange = async (id: number, triage_status: SessionTriageStatus) => {
+    try {
+      const response = await fetch(`/api/sessions/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ triage_status }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update status');
+      }
+
+      updateSessionRow(id, { triage_status });
+    } catch (error) {
+      console.error('Failed to update triage status:', error);
+      message.error('Failed to update triage status');
+    }
+  };
+
+  const handleSearch = (values: SessionFilters) => {
+    updateQuery({
+      ...Object.fromEntries(FILTER_KEYS.map((key) => [key, values[key]?.trim()])),
+      page: undefined,
+    });
+  };
+
+  const handleReset = () => {
+    form.resetFields();
+    updateQuery({ ...Object.fromEntries(FILTER_KEYS.map((key) => [key, undefined])), page: undefined });
+  };
+
+  const columns: TableColumnsType<SessionMetadata> = [
+    {
+      title: 'ID',
+      dataIndex: 'id',
+      key: 'id',
+      width: 80,
+    },
+    {
+      title: 'Jira',
+      dataIndex: 'jira_id',
+      key: 'jira_id',
+      width: 150,
+      render: (jira_id: string | null) => {
+        if (!jira_id) {
+          return <Text type="secondary">-</Text>;
+        }
+        const jiraUrl = `https://${jiraDomain}/browse/${jira_id}`;
+        return (
+          <Link href={jiraUrl} target="_blank" rel="noopener noreferrer">
+            {jira_id}
+          </Link>
+        );
+      },
+    },
+    {
+      title: 'Platform',
+      dataIndex: 'platform',
+      key: 'platform',
+      width: 120,
+      render: (platform: string | null) => {
+        if (!platform) {
+          return <Text type="secondary">-</Text>;
+        }
+        return <Tag color="blue">{platform}</Tag>;
+      },
+    },
+    {
+      title: 'Trigger',
+      dataIndex: 'trigger_type',
+      key: 'trigger_type',
+      width: 120,
+      render: (trigger_type: SessionMetadata['trigger_type'], record) => {
+        if (!trigger_type) {
+          return <Text type="secondary">Manual</Text>;
+        }
+        return (
+          <Tooltip title={record.trigger_message}>
+            <Tag color="red">{trigger_type} error</Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: 'Status',
+      dataIndex: 'triage_status',
+      key: 'triage_status',
+      width: 150,
+      render: (triage_status: SessionTriageStatus, record) => (
+        <Select
+          size="small"
+          value={triage_status}
+          onChange={(value) => handleStatusChange(record.id, value)}
+          options={TRIAGE_STATUS_OPTIONS.map(({ value, label, color }) => ({
+            value,
+            label: <Tag color={color}>{label}</Tag>,
+          }))}
+          variant="borderless"
+          style={{ width: '100%' }}
+        />
+      ),
+    },
+    {
+      title: 'Tags',
+      dataIndex: 'tags',
+      key: 'tags',
+      width: 180,
+      render: (tags: string[]) =>
+        tags.length > 0 ? (
+          <Space size={[0, 4]} wrap>
+            {tags.map((tag) => (
+              <Tag key={tag}>{tag}</Tag>
+            ))}
+          </Space>
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    {
+      title: 'Assignee',
+      dataIndex: 'assignee',
+      key: 'assignee',
+      width: 120,
+      render: (assignee: string | null) => assignee || <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'Device ID',
+      dataIndex: 'device_id',
+      key: 'device_id',
+      width: 150,
+      render: (device_id: string | null) => device_id || <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'Recording',
+      key: 'recording',
+      width: 170,
+      render: (_, record) => {
+        if (record.event_count === 0) {
+          return <Text type="secondary">-</Text>;
+        }
+
+        return (
+          <Tooltip title={record.first_url ? `Starts on ${record.first_url}` : undefined}>
+            <Space direction="vertical" size={0}>
+              <Text>{record.duration_ms !== null ? formatReplayOffset(record.duration_ms) : '-'}</Text>
+              <Text type={record.error_count > 0 ? 'danger' : 'secondary'} style={{ fontSize: 12 }}>
+                {record.event_count} events · {record.error_count} errors
+              </Text>
+            </Space>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: 'Size',
+      dataIndex: 'file_size',
+      key: 'file_size',
+      width: 110,
+      sorter: true,
+      sortOrder: sortBy === 'file_size' ? (sortOrder === 'asc' ? 'ascend' : 'descend') : null,
+      render: (file_size: number) => formatFileSize(file_size),
+    },
+    {
+      title: 'Created At',
+      dataIndex: 'created_at',
+      key: 'created_at',
+      width: 180,
+      sorter: true,
+      sortOrder: sortBy === 'created_at' ? (sortOrder === 'asc' ? 'ascend' : 'descend') : null,
+      render: (created_at: Date) => dayjs(created_at).format('YYYY-MM-DD HH:mm:ss'),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 230,
+      fixed: 'right',
+      render: (_, record) => (
+        <Space size="small">
+          <Button type="primary" size="small" icon={<EyeOutlined />} onClick={() => handleView(record.id)}>
+            View
+          </Button>
+          <Button size="small" icon={<EditOutlined />} onClick={() => setTriageSession(record)}>
+            Triage{record.note_count > 0 ? ` (${record.note_count})` : ''}
+          </Button>
+          <Button
+            danger
+            size="small"
+            icon={<DeleteOutlined />}
+            onClick={(e) => {
+              e.currentTarget.blur();
+              handleDelete(record.id);
+            }}
+            loading={deleting === record.id}
+            style={{ outline: 'none' }}
+          >
+            Delete
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  const handleTableChange: TableProps<SessionMetadata>['onChange'] = (pagination, _filters, sorter, extra) => {
+    if (extra.action === 'sort') {
+      const { field, order } = Array.isArray(sorter) ? sorter[0]! : sorter;
+
+      // Clearing the sort falls back to newest first
+      updateQuery({
+        sort_by: order ? (field as SessionSortField) : undefined,
+        sort_order: order === 'ascend' ? 'asc' : undefined,
+        page: undefined,
+      });
+      return;
+    }
+
+    if (extra.action === 'paginate') {
+      const nextPageSize = pagination.pageSize || DEFAULT_PAGE_SIZE;
+      updateQuery({
+        page: nextPageSize === pageSize ? pagination.current : undefined,
+        page_size: nextPageSize,
+      });
+    }
+  };
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <div>
+        <Title level={2}>Session Management</Title>
+        <Text type="secondary">View and manage recorded sessions from the database</Text>
+      </div>
+
+      <Alert
+        message="Session Recording"
+        description="Sessions are automatically uploaded to the database when recorded. Use the table below to view, replay, and manage sessions."
+        type="info"
+        showIcon
+      />
+
+      <Card
+        title="Sessions"
+        extra={
+          selectedIds.length > 0 && (
+            <Space>
+              <Text type="secondary">{selectedIds.length} selected</Text>
+              <Button
+                icon={<DownloadOutlined />}
+                onClick={handleBulkExport}
+                loading={exportProgress !== null}
+                disabled={bulkDeleting}
+              >
+                {exportProgress !== null ? `Exporting ${exportProgress}` : 'Export'}
+              </Button>
+              <Button
+                danger
+                icon={<DeleteOutlined />}
+                onClick={handleBulkDelete}
+                loading={bulkDeleting}
+                disabled={exportProgress !== null}
+              >
+                Delete
+              </Button>
+            </Space>
+          )
+        }
+      >
+        <Form form={form} layout="inline" onFinish={handleSearch} style={{ marginBottom: 16, rowGap: 8 }}>
+          <Form.Item name="q">
+            <Input placeholder="Search URLs and errors" allowClear style={{ width: 240 }} />
+          </Form.Item>
+          <Form.Item name="jira_id">
+            <Input placeholder="Jira ID" allowClear style={{ width: 140 }} />
+          </Form.Item>
+          <Form.Item name="platform">
+            <Input placeholder="Platform" allowClear style={{ width: 140 }} />
+          </Form.Item>
+          <Form.Item name="device_id">
+            <Input placeholder="Device ID" allowClear style={{ width: 180 }} />
+          </Form.Item>
+          <Form.Item name="triage_status">
+            <Select
+              placeholder="Status"
+              allowClear
+              options={TRIAGE_STATUS_OPTIONS.map(({ value, label }) => ({ value, label }))}
+              style={{ width: 140 }}
+            />
+          </Form.Item>
+          <Form.Item name="tag">
+            <Input placeholder="Tag" allowClear style={{ width: 120 }} />
+          </Form.Item>
+          <Form.Item name="assignee">
+            <Input placeholder="Assignee" allowClear style={{ width: 140 }} />
+          </Form.Item>
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit" icon={<SearchOutlined />}>
+                Search
+              </Button>
+              <Button onClick={handleReset}>Reset</Button>
+            </Space>
+          </Form.Item>
+        </Form>
+
+        <Table<SessionMetadata>
+          columns={columns}
+          dataSource={sessions}
+          rowKey="id"
+          loading={loading}
+          onChange={handleTableChange}
+          rowSelection={{
+            selectedRowKeys: selectedIds,
+            preserveSelectedRowKeys: true,
+            onChange: (keys) => setSelectedIds(keys as number[]),
+          }}
+          pagination={{
+            current: page,
+            pageSize,
+            total,
+            pageSizeOptions: PAGE_SIZE_OPTIONS,
+            showSizeChanger: true,
+            showTotal: (count) => `Total ${count} session${count !== 1 ? 's' : ''}`,
+          }}
+          scroll={{ x: 1600 }}
+        />
+      </Card>
+
+      {/* Triage Drawer */}
+      <Drawer
+        title={triageSession ? `Triage Session #${triageSession.id}` : 'Triage'}
+        width={560}
+        open={!!triageSession}
+        onClose={() => {
+          setTriageSession(null);
+          // Refresh note counts
+          setReloadKey((key) => key + 1);
+        }}
+        destroyOnHidden
+        styles={{ body: { padding: 0 } }}
+      >
+        {triageSession && (
+          <SessionTriagePanel
+            sessionId={triageSession.id}
+            onChange={(fields) => updateSessionRow(triageSession.id, fields)}
+          />
+        )}
+      </Drawer>
+    </Space>
+  );
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getStorage, type ByteRange } from '@/lib/storage';
+
+/**
+ * Parse a single-range Range header against a file size
+ * @returns The range, null without a (supported) Range header, or 'unsatisfiable'
+ */
+function parseRange(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+
+  // Multiple ranges are not supported, the whole file is sent instead
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2]!, 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+/**
+ * Resolve the storage key and size of a requested file
+ */
+async function getFile(fileData: { params: Promise<{ key: string[] }> }) {
+  const storage = getStorage();
+  const { key: segments } = await fileData.params;
+  const key = segments.join('/');
+
+  if (!storage.size || !storage.read) {
+    return { error: `Files of the ${storage.backend} backend are served from their own URLs`, status: 404 };
+  }
+
+  const size = await storage.size(key);
+  if (size === null) {
+    return { error: 'File not found', status: 404 };
+  }
+
+  return { storage, key, size };
+}
+
+/**
+ * Headers shared by full and partial responses
+ * Stored keys carry a random suffix and are never overwritten, so files can be cached forever
+ */
+const FILE_HEADERS = {
+  'Accept-Ranges': 'bytes',
+  'Content-Type': 'application/zip',
+  'Cache-Control': 'public, max-age=31536000, immutable',
+};
+
+/**
+ * HEAD /api/files/[...key]
+ * Report the size of a stored file, used by the chunked downloader
+ */
+export async function HEAD(request: NextRequest, fileData: { params: Promise<{ key: string[] }> }) {
+  try {
+    const file = await getFile(fileData);
+    if ('error' in file) {
+      return new NextResponse(null, { status: file.status });
+    }
+
+    return new NextResponse(null, {
+      headers: { ...FILE_HEADERS, 'Content-Length': String(file.size) },
+    });
+  } catch (error) {
+    console.error('[Files API] Head error:', error);
+    return new NextResponse(null, {
+      status: error instanceof Error && error.message.startsWith('Invalid storage key') ? 400 : 500,
+    });
+  }
+}
+
+/**
+ * GET /api/files/[...key]
+ * Download a session file stored on the filesystem or S3 backend
+ * Supports single byte ranges (Range: bytes=start-end) so large files download in parallel chunks
+ */
+export async function GET(request: NextRequest, fileData: { params: Promise<{ key: string[] }> }) {
+  try {
+    const file = await getFile(fileData);
+    if ('error' in file) {
+      return NextResponse.json({ success: false, error: file.error }, { status: file.status });
+    }
+
+    const { storage, key, size } = file;
+    const range = parseRange(request.headers.get('range'), size);
+
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...FILE_HEADERS, 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const body = await storage.read!(key, range ?? undefined);
+
+    return new NextResponse(new Uint8Array(body), {
+      status: range ? 206 : 200,
+      headers: {
+        ...FILE_HEADERS,
+        'Content-Length': String(body.length),
+        ...(range ? { 'Content-Range': `bytes ${range.start}-${range.end}/${size}` } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('[Files API] Download error:', error);
+
+    // Keys with '..' or unexpected characters
+    if (error instanceof Error && error.message.startsWith('Invalid storage key')) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to download file',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { deleteSessionComment } from '@/services/session';
+import type { DeleteSessionResponse } from '@/types/session';
+
+/**
+ * DELETE /api/sessions/[id]/comments/[commentId]
+ * Delete a comment
+ */
+export async function DELETE(
+  request: NextRequest,
+  segmentData: { params: Promise<{ id: string; commentId: string }> },
+) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+    const commentId = parseInt(params.commentId, 10);
+
+    // Validate IDs
+    if (isNaN(id) || id < 1 || isNaN(commentId) || commentId < 1) {
+      return NextResponse.json<DeleteSessionResponse>(
+        {
+          success: false,
+          error: 'Invalid session or comment ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    await deleteSessionComment(id, commentId);
+
+    return NextResponse.json<DeleteSessionResponse>({
+      success: true,
+      message: `Comment ${commentId} deleted successfully`,
+    });
+  } catch (error) {
+    console.error('[Sessions API] Delete comment error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<DeleteSessionResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<DeleteSessionResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete comment',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { addSessionComment, listSessionComments } from '@/services/session';
+import type { CreateSessionCommentResponse, ListSessionCommentsResponse } from '@/types/session';
+
+/**
+ * Maximum comment length in characters
+ */
+const MAX_COMMENT_LENGTH = 10000;
+
+/**
+ * GET /api/sessions/[id]/comments
+ * List the comments of a session in replay order
+ */
+export async function GET(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<ListSessionCommentsResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const comments = await listSessionComments(id);
+
+    return NextResponse.json<ListSessionCommentsResponse>({
+      success: true,
+      comments: comments.map((comment) => ({
+        ...comment,
+        created_at: comment.created_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Sessions API] List comments error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<ListSessionCommentsResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<ListSessionCommentsResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list comments',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/comments
+ * Add a comment at a replay position
+ * Body: { offset_ms: number, body: string, node_id?: number, author?: string }
+ */
+export async function POST(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+
+    if (typeof body.body !== 'string' || !body.body.trim()) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: 'Comment body is required',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (body.body.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: `Comment exceeds maximum length of ${MAX_COMMENT_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (typeof body.offset_ms !== 'number' || !Number.isFinite(body.offset_ms) || body.offset_ms < 0) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: 'offset_ms must be a non-negative number of milliseconds',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (body.node_id !== undefined && body.node_id !== null && !Number.isInteger(body.node_id)) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: 'node_id must be an rrweb node ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const comment = await addSessionComment(id, {
+      offset_ms: body.offset_ms,
+      node_id: body.node_id ?? undefined,
+      body: body.body,
+      author: typeof body.author === 'string' ? body.author : undefined,
+    });
+
+    return NextResponse.json<CreateSessionCommentResponse>(
+      {
+        success: true,
+        comment: {
+          ...comment,
+          created_at: comment.created_at.toISOString(),
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('[Sessions API] Create comment error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<CreateSessionCommentResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<CreateSessionCommentResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create comment',
+      },
+      { status: 500 },
+    );
+  }
+}
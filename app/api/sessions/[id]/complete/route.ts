@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { completeSession } from '@/services/session';
+import { isInvalidUploadError } from '@/services/sessionValidation';
+import type { CompleteSessionResponse } from '@/types/session';
+
+/**
+ * CORS headers for cross-origin requests
+ */
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Max-Age': '86400',
+};
+
+/**
+ * OPTIONS /api/sessions/[id]/complete
+ * Handle preflight CORS requests
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * POST /api/sessions/[id]/complete
+ * Mark a segmented session as complete, no further segments are accepted
+ */
+export async function POST(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<CompleteSessionResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    const session = await completeSession(id);
+
+    return NextResponse.json<CompleteSessionResponse>(
+      {
+        success: true,
+        session: {
+          id: session.id,
+          file_size: session.file_size,
+          segment_count: session.segment_count,
+          upload_status: session.upload_status,
+        },
+      },
+      { headers: corsHeaders },
+    );
+  } catch (error) {
+    console.error('[Sessions API] Complete error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<CompleteSessionResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404, headers: corsHeaders },
+      );
+    }
+
+    // No segments, or none with a full snapshot to start the replay from
+    if (error instanceof Error && isInvalidUploadError(error)) {
+      return NextResponse.json<CompleteSessionResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    return NextResponse.json<CompleteSessionResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to complete session',
+      },
+      { status: 500, headers: corsHeaders },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { deleteSessionNote } from '@/services/session';
+import type { DeleteSessionResponse } from '@/types/session';
+
+/**
+ * DELETE /api/sessions/[id]/notes/[noteId]
+ * Delete a note together with its replies
+ */
+export async function DELETE(request: NextRequest, segmentData: { params: Promise<{ id: string; noteId: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+    const noteId = parseInt(params.noteId, 10);
+
+    // Validate IDs
+    if (isNaN(id) || id < 1 || isNaN(noteId) || noteId < 1) {
+      return NextResponse.json<DeleteSessionResponse>(
+        {
+          success: false,
+          error: 'Invalid session or note ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    await deleteSessionNote(id, noteId);
+
+    return NextResponse.json<DeleteSessionResponse>({
+      success: true,
+      message: `Note ${noteId} deleted successfully`,
+    });
+  } catch (error) {
+    console.error('[Sessions API] Delete note error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<DeleteSessionResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<DeleteSessionResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete note',
+      },
+      { status: 500 },
+    );
+  }
+}
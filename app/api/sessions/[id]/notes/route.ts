@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { addSessionNote, listSessionNotes } from '@/services/session';
+import type { CreateSessionNoteResponse, ListSessionNotesResponse } from '@/types/session';
+
+/**
+ * Maximum note length in characters
+ */
+const MAX_NOTE_LENGTH = 10000;
+
+/**
+ * GET /api/sessions/[id]/notes
+ * List the triage notes of a session, oldest first
+ */
+export async function GET(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<ListSessionNotesResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const notes = await listSessionNotes(id);
+
+    return NextResponse.json<ListSessionNotesResponse>({
+      success: true,
+      notes: notes.map((note) => ({
+        ...note,
+        created_at: note.created_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Sessions API] List notes error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<ListSessionNotesResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<ListSessionNotesResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list notes',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/notes
+ * Add a note, or a reply when parent_id is set
+ * Body: { body: string, author?: string, parent_id?: number }
+ */
+export async function POST(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<CreateSessionNoteResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+
+    if (typeof body.body !== 'string' || !body.body.trim()) {
+      return NextResponse.json<CreateSessionNoteResponse>(
+        {
+          success: false,
+          error: 'Note body is required',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (body.body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json<CreateSessionNoteResponse>(
+        {
+          success: false,
+          error: `Note exceeds maximum length of ${MAX_NOTE_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (body.parent_id !== undefined && body.parent_id !== null && !Number.isInteger(body.parent_id)) {
+      return NextResponse.json<CreateSessionNoteResponse>(
+        {
+          success: false,
+          error: 'parent_id must be a note ID',
+        },
+        { status: 400 },
+      );
+    }
+
+    const note = await addSessionNote(id, {
+      body: body.body,
+      author: typeof body.author === 'string' ? body.author : undefined,
+      parent_id: body.parent_id ?? undefined,
+    });
+
+    return NextResponse.json<CreateSessionNoteResponse>(
+      {
+        success: true,
+        note: {
+          ...note,
+          created_at: note.created_at.toISOString(),
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('[Sessions API] Create note error:', error);
+
+    // Handle not found errors (session or parent note)
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<CreateSessionNoteResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json<CreateSessionNoteResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create note',
+      },
+      { status: 500 },
+    );
+  }
+}
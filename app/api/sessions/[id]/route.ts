@@ -1,7 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getSessionById, updateSession, deleteSession } from '@/services/session';
-import type { GetSessionResponse, UpdateSessionResponse, DeleteSessionResponse } from '@/types/session';
+import { isInvalidUploadError } from '@/services/sessionValidation';
+import type {
+  GetSessionResponse,
+  UpdateSessionResponse,
+  DeleteSessionResponse,
+  SessionTriageStatus,
+} from '@/types/session';
+
+/**
+ * Allowed values for triage_status
+ */
+const SESSION_TRIAGE_STATUSES: SessionTriageStatus[] = ['new', 'investigating', 'resolved', 'ignored'];
+
+/**
+ * Fields accepted in JSON update bodies
+ */
+const JSON_UPDATE_FIELDS = ['file', 'jira_id', 'platform', 'device_id', 'tags', 'triage_status', 'assignee'];
+
+/**
+ * JSON fields that must be a string or null (null clears them)
+ */
+const NULLABLE_STRING_FIELDS = ['jira_id', 'platform', 'device_id', 'assignee'];
 
 /**
  * GET /api/sessions/[id]
@@ -36,6 +57,18 @@ export async function GET(request: NextRequest, segmentData: { params: Promise<{
         jira_id: session.jira_id,
         platform: session.platform,
         device_id: session.device_id,
+        upload_status: session.upload_status,
+        segment_count: session.segment_count,
+        trigger_type: session.trigger_type,
+        trigger_message: session.trigger_message,
+        tags: session.tags,
+        triage_status: session.triage_status,
+        assignee: session.assignee,
+        event_count: session.event_count,
+        request_count: session.request_count,
+        error_count: session.error_count,
+        first_url: session.first_url,
+        user_agent: session.user_agent,
         created_at: session.created_at.toISOString(),
         updated_at: session.updated_at.toISOString(),
       },
@@ -67,6 +100,7 @@ export async function GET(request: NextRequest, segmentData: { params: Promise<{
 /**
  * PATCH /api/sessions/[id]
  * Update session metadata or replace file
+ * Triage fields (tags, triage_status, assignee) are accepted in JSON bodies
  */
 export async function PATCH(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
   try {
@@ -118,16 +152,88 @@ export async function PATCH(request: NextRequest, segmentData: { params: Promise
       if (platform !== null) updates.platform = platform;
       if (device_id !== null) updates.device_id = device_id;
     } else {
-      // Parse JSON body (for metadata updates only)
-      const body = await request.json();
+      // Parse JSON body (for metadata and triage updates)
+      // Malformed JSON is a client error, not a server failure
+      const body = await request.json().catch(() => null);
+
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return NextResponse.json<UpdateSessionResponse>(
+          {
+            success: false,
+            error: 'Request body must be a JSON object',
+          },
+          { status: 400 },
+        );
+      }
+
+      const unknownFields = Object.keys(body).filter((key) => !JSON_UPDATE_FIELDS.includes(key));
+
+      if (unknownFields.length > 0) {
+        return NextResponse.json<UpdateSessionResponse>(
+          {
+            success: false,
+            error: `Unknown fields: ${unknownFields.join(', ')} (allowed: ${JSON_UPDATE_FIELDS.join(', ')})`,
+          },
+          { status: 400 },
+        );
+      }
+
+      const invalidField = NULLABLE_STRING_FIELDS.find(
+        (key) => body[key] !== undefined && body[key] !== null && typeof body[key] !== 'string',
+      );
+
+      if (invalidField) {
+        return NextResponse.json<UpdateSessionResponse>(
+          {
+            success: false,
+            error: `${invalidField} must be a string or null`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (body.file !== undefined && typeof body.file !== 'string') {
+        return NextResponse.json<UpdateSessionResponse>(
+          {
+            success: false,
+            error: 'file must be a base64 encoded string',
+          },
+          { status: 400 },
+        );
+      }
+
       updates = body;
 
       // If file is provided as base64, convert to Buffer
-      if (updates.file && typeof updates.file === 'string') {
+      if (updates.file) {
         updates.file = Buffer.from(updates.file, 'base64');
       }
     }
 
+    // Validate triage fields
+    if (
+      updates.tags !== undefined &&
+      (!Array.isArray(updates.tags) || updates.tags.some((tag: unknown) => typeof tag !== 'string'))
+    ) {
+      return NextResponse.json<UpdateSessionResponse>(
+        {
+          success: false,
+          error: 'tags must be an array of strings',
+        },
+        { status: 400 },
+      );
+    }
+
+    if (updates.triage_status !== undefined && !SESSION_TRIAGE_STATUSES.includes(updates.triage_status)) {
+      return NextResponse.json<UpdateSessionResponse>(
+        {
+          success: false,
+          error: `Invalid triage_status (must be one of: ${SESSION_TRIAGE_STATUSES.join(', ')})`,
+        },
+        { status: 400 },
+      );
+    }
+
     // Validate that at least one field is being updated
     if (Object.keys(updates).length === 0) {
       return NextResponse.json<UpdateSessionResponse>(
@@ -150,6 +256,9 @@ export async function PATCH(request: NextRequest, segmentData: { params: Promise
         jira_id: session.jira_id,
         platform: session.platform,
         device_id: session.device_id,
+        tags: session.tags,
+        triage_status: session.triage_status,
+        assignee: session.assignee,
       },
     });
   } catch (error) {
@@ -166,6 +275,17 @@ export async function PATCH(request: NextRequest, segmentData: { params: Promise
       );
     }
 
+    // Replacement file is not a valid recording
+    if (isInvalidUploadError(error)) {
+      return NextResponse.json<UpdateSessionResponse>(
+        {
+          success: false,
+          error: (error as Error).message,
+        },
+        { status: 400 },
+      );
+    }
+
     return NextResponse.json<UpdateSessionResponse>(
       {
         success: false,
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { addSessionSegment, getSessionById, listSessionSegments } from '@/services/session';
+import { isInvalidUploadError } from '@/services/sessionValidation';
+import type { ListSegmentsResponse, UploadSegmentResponse } from '@/types/session';
+import { createArchiveZip, migrateLegacyCollection } from '@/utils/sessionArchive';
+
+/**
+ * CORS headers for cross-origin requests
+ */
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Max-Age': '86400',
+};
+
+/**
+ * OPTIONS /api/sessions/[id]/segments
+ * Handle preflight CORS requests
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * GET /api/sessions/[id]/segments
+ * List the segments of a segmented session in upload order
+ */
+export async function GET(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<ListSegmentsResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    const session = await getSessionById(id);
+    const segments = await listSessionSegments(id);
+
+    return NextResponse.json<ListSegmentsResponse>(
+      {
+        success: true,
+        upload_status: session.upload_status,
+        segments: segments.map((segment) => ({
+          seq: segment.seq,
+          blob_url: segment.blob_url,
+          file_size: segment.file_size,
+          created_at: segment.created_at.toISOString(),
+        })),
+      },
+      { headers: corsHeaders },
+    );
+  } catch (error) {
+    console.error('[Sessions API] List segments error:', error);
+
+    // Handle not found errors
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json<ListSegmentsResponse>(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 404, headers: corsHeaders },
+      );
+    }
+
+    return NextResponse.json<ListSegmentsResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list segments',
+      },
+      { status: 500, headers: corsHeaders },
+    );
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/segments
+ * Append a segment to an open session
+ * Form fields:
+ *   - file: segment archive (20MB max per segment), or a data.json collection sent as `.json` by unload beacons
+ *   - seq: segment sequence number, re-sending the same seq replaces it
+ */
+export async function POST(request: NextRequest, segmentData: { params: Promise<{ id: string }> }) {
+  try {
+    // Next.js 16: params is now a Promise
+    const params = await segmentData.params;
+    const id = parseInt(params.id, 10);
+
+    // Validate ID
+    if (isNaN(id) || id < 1) {
+      return NextResponse.json<UploadSegmentResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const seqValue = formData.get('seq') as string | null;
+    const seq = seqValue !== null ? parseInt(seqValue, 10) : NaN;
+
+    if (isNaN(seq) || seq < 0) {
+      return NextResponse.json<UploadSegmentResponse>(
+        {
+          success: false,
+          error: 'Invalid seq parameter (must be >= 0)',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    // Validate file
+    if (!file) {
+      return NextResponse.json<UploadSegmentResponse>(
+        {
+          success: false,
+          error: 'File is required',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    // Convert file to Buffer
+    const arrayBuffer = await file.arrayBuffer();
+    let buffer: Buffer = Buffer.from(arrayBuffer);
+
+    if (file.name.endsWith('.json')) {
+      // Unload beacons send an uncompressed data.json collection, store every segment as an archive
+      let collection: unknown;
+      try {
+        collection = JSON.parse(buffer.toString('utf-8'));
+      } catch {
+        throw new Error('Invalid archive: segment is not valid JSON');
+      }
+
+      const archive = await migrateLegacyCollection(collection);
+      const zip = await createArchiveZip(archive.manifest.session.id, archive.eventData, archive.responseData);
+      buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    }
+
+    const segment = await addSessionSegment(id, { seq, file: buffer });
+
+    return NextResponse.json<UploadSegmentResponse>(
+      {
+        success: true,
+        segment: {
+          seq: segment.seq,
+          file_size: segment.file_size,
+          created_at: segment.created_at.toISOString(),
+        },
+      },
+      { status: 201, headers: corsHeaders },
+    );
+  } catch (error) {
+    console.error('[Sessions API] Upload segment error:', error);
+
+    if (error instanceof Error) {
+      // Handle not found errors
+      if (error.message.includes('not found')) {
+        return NextResponse.json<UploadSegmentResponse>(
+          { success: false, error: error.message },
+          { status: 404, headers: corsHeaders },
+        );
+      }
+
+      // Completed sessions do not accept new segments
+      if (error.message.includes('already complete')) {
+        return NextResponse.json<UploadSegmentResponse>(
+          { success: false, error: error.message },
+          { status: 409, headers: corsHeaders },
+        );
+      }
+
+      if (error.message.includes('exceeds maximum') || isInvalidUploadError(error)) {
+        return NextResponse.json<UploadSegmentResponse>(
+          { success: false, error: error.message },
+          { status: 400, headers: corsHeaders },
+        );
+      }
+    }
+
+    return NextResponse.json<UploadSegmentResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload segment',
+      },
+      { status: 500, headers: corsHeaders },
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { createSession, listSessions } from '@/services/session';
-import type { CreateSessionResponse, ListSessionsResponse } from '@/types/session';
+import { createSegmentedSession, createSession, listSessions } from '@/services/session';
+import { isInvalidUploadError } from '@/services/sessionValidation';
+import type {
+  CreateSessionResponse,
+  ListSessionsResponse,
+  SessionSortField,
+  SessionTriageStatus,
+  SessionTriggerType,
+  SortOrder,
+} from '@/types/session';
 
 /**
  * CORS headers for cross-origin requests
@@ -13,6 +21,27 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 };
 
+/**
+ * Allowed values for trigger_type
+ */
+const SESSION_TRIGGER_TYPES: SessionTriggerType[] = ['console', 'uncaught', 'network'];
+
+/**
+ * Allowed values for triage_status
+ */
+const SESSION_TRIAGE_STATUSES: SessionTriageStatus[] = ['new', 'investigating', 'resolved', 'ignored'];
+
+/**
+ * Allowed values for sort_by and sort_order
+ */
+const SESSION_SORT_FIELDS: SessionSortField[] = ['created_at', 'file_size'];
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+/**
+ * Trigger messages are truncated to keep stack traces from bloating the table
+ */
+const MAX_TRIGGER_MESSAGE_LENGTH = 2000;
+
 /**
  * OPTIONS /api/sessions
  * Handle preflight CORS requests
@@ -24,15 +53,70 @@ export async function OPTIONS() {
 /**
  * POST /api/sessions
  * Create a new session with uploaded file
+ * A JSON body with `segmented: true` starts a segmented upload instead,
+ * segments are then sent to /api/sessions/[id]/segments
  */
 export async function POST(request: NextRequest) {
   try {
+    const contentType = request.headers.get('content-type') || '';
+
+    if (contentType.includes('application/json')) {
+      // Malformed JSON is a client error, not a server failure
+      const body = await request.json().catch(() => null);
+
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return NextResponse.json<CreateSessionResponse>(
+          {
+            success: false,
+            error: 'Request body must be a JSON object',
+          },
+          { status: 400, headers: corsHeaders },
+        );
+      }
+
+      if (!body.segmented) {
+        return NextResponse.json<CreateSessionResponse>(
+          {
+            success: false,
+            error: 'JSON body is only supported for segmented uploads (segmented: true)',
+          },
+          { status: 400, headers: corsHeaders },
+        );
+      }
+
+      const session = await createSegmentedSession({
+        jira_id: body.jira_id || undefined,
+        platform: body.platform || undefined,
+        device_id: body.device_id || undefined,
+        user_agent: request.headers.get('user-agent') || undefined,
+      });
+
+      return NextResponse.json<CreateSessionResponse>(
+        {
+          success: true,
+          session: {
+            id: session.id,
+            file_size: session.file_size,
+            created_at: session.created_at.toISOString(),
+            jira_id: session.jira_id,
+            platform: session.platform,
+            device_id: session.device_id,
+            upload_status: session.upload_status,
+            trigger_type: session.trigger_type,
+          },
+        },
+        { status: 201, headers: corsHeaders },
+      );
+    }
+
     // Parse multipart form data
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const jira_id = formData.get('jira_id') as string | null;
     const platform = formData.get('platform') as string | null;
     const device_id = formData.get('device_id') as string | null;
+    const trigger_type = formData.get('trigger_type') as string | null;
+    const trigger_message = formData.get('trigger_message') as string | null;
 
     // Validate file
     if (!file) {
@@ -72,12 +156,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate trigger type (set by error-triggered captures)
+    if (trigger_type && !SESSION_TRIGGER_TYPES.includes(trigger_type as SessionTriggerType)) {
+      return NextResponse.json<CreateSessionResponse>(
+        {
+          success: false,
+          error: `Invalid trigger_type (must be one of: ${SESSION_TRIGGER_TYPES.join(', ')})`,
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
     // Create session in database
     const session = await createSession({
       file: buffer,
       jira_id: jira_id || undefined,
       platform: platform || undefined,
       device_id: device_id || undefined,
+      trigger_type: (trigger_type as SessionTriggerType) || undefined,
+      trigger_message: trigger_message ? trigger_message.slice(0, MAX_TRIGGER_MESSAGE_LENGTH) : undefined,
+      user_agent: request.headers.get('user-agent') || undefined,
     });
 
     return NextResponse.json<CreateSessionResponse>(
@@ -90,12 +188,26 @@ export async function POST(request: NextRequest) {
           jira_id: session.jira_id,
           platform: session.platform,
           device_id: session.device_id,
+          upload_status: session.upload_status,
+          trigger_type: session.trigger_type,
         },
       },
       { status: 201, headers: corsHeaders },
     );
   } catch (error) {
     console.error('[Sessions API] Create error:', error);
+
+    // Corrupt archives and unreplayable recordings are rejected before they are stored
+    if (isInvalidUploadError(error)) {
+      return NextResponse.json<CreateSessionResponse>(
+        {
+          success: false,
+          error: (error as Error).message,
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
     return NextResponse.json<CreateSessionResponse>(
       {
         success: false,
@@ -115,6 +227,16 @@ export async function POST(request: NextRequest) {
  *   - jira_id: filter by Jira ID
  *   - platform: filter by platform
  *   - device_id: filter by device ID
+ *   - q: full-text search over visited URLs, error messages and failed request URLs
+ *   - url: substring of a visited or failed request URL
+ *   - error: substring of an error message
+ *   - status: status code of a failed request
+ *   - from / to: ISO dates, sessions overlapping the range
+ *   - tag: sessions with this tag
+ *   - triage_status: new, investigating, resolved or ignored
+ *   - assignee: filter by assignee
+ *   - sort_by: created_at (default) or file_size
+ *   - sort_order: asc or desc (default)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -126,6 +248,17 @@ export async function GET(request: NextRequest) {
     const jira_id = searchParams.get('jira_id') || undefined;
     const platform = searchParams.get('platform') || undefined;
     const device_id = searchParams.get('device_id') || undefined;
+    const q = searchParams.get('q')?.trim() || undefined;
+    const url = searchParams.get('url')?.trim() || undefined;
+    const errorText = searchParams.get('error')?.trim() || undefined;
+    const status = searchParams.get('status') ? Number(searchParams.get('status')) : undefined;
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
+    const tag = searchParams.get('tag')?.trim() || undefined;
+    const triage_status = (searchParams.get('triage_status') || undefined) as SessionTriageStatus | undefined;
+    const assignee = searchParams.get('assignee')?.trim() || undefined;
+    const sort_by = (searchParams.get('sort_by') || 'created_at') as SessionSortField;
+    const sort_order = (searchParams.get('sort_order') || 'desc') as SortOrder;
 
     // Validate pagination parameters
     if (isNaN(limit) || limit < 1 || limit > 100) {
@@ -148,6 +281,46 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (status !== undefined && (!Number.isInteger(status) || status < 0 || status > 599)) {
+      return NextResponse.json<ListSessionsResponse>(
+        {
+          success: false,
+          error: 'Invalid status parameter (must be an HTTP status code, 0 for network errors)',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    if (triage_status && !SESSION_TRIAGE_STATUSES.includes(triage_status)) {
+      return NextResponse.json<ListSessionsResponse>(
+        {
+          success: false,
+          error: `Invalid triage_status parameter (must be one of: ${SESSION_TRIAGE_STATUSES.join(', ')})`,
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    if (!SESSION_SORT_FIELDS.includes(sort_by) || !SORT_ORDERS.includes(sort_order)) {
+      return NextResponse.json<ListSessionsResponse>(
+        {
+          success: false,
+          error: `Invalid sort parameters (sort_by: ${SESSION_SORT_FIELDS.join(', ')}; sort_order: ${SORT_ORDERS.join(', ')})`,
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json<ListSessionsResponse>(
+        {
+          success: false,
+          error: 'Invalid from/to parameter (must be an ISO 8601 date)',
+        },
+        { status: 400, headers: corsHeaders },
+      );
+    }
+
     // Get sessions from database
     const result = await listSessions({
       limit,
@@ -155,6 +328,17 @@ export async function GET(request: NextRequest) {
       jira_id,
       platform,
       device_id,
+      q,
+      url,
+      error: errorText,
+      status,
+      from,
+      to,
+      tag,
+      triage_status,
+      assignee,
+      sort_by,
+      sort_order,
     });
 
     return NextResponse.json<ListSessionsResponse>(
@@ -1,27 +1,68 @@
 'use client';
 
-import { InboxOutlined } from '@ant-design/icons';
-import { Alert, Button, Card, Modal, Progress, Space, Tabs, Typography, Upload, message } from 'antd';
+import { ApiOutlined, InboxOutlined, LinkOutlined } from '@ant-design/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Modal,
+  Progress,
+  Segmented,
+  Space,
+  Tabs,
+  Tooltip,
+  Typography,
+  Upload,
+  message,
+} from 'antd';
 import type { UploadProps } from 'antd';
-import JSZip from 'jszip';
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import type { eventWithTime } from 'rrweb/typings/types';
 import rrwebPlayer from 'rrweb-player';
 import 'rrweb-player/dist/style.css';
 
 import AIAnalysisPanel from '@/components/AIAnalysisPanel';
+import CommentsPanel, { type CommentItem } from '@/components/CommentsPanel';
 import ConsolePanel from '@/components/ConsolePanel';
 import CreateJiraModal from '@/components/CreateJiraModal';
 import NetworkPanel from '@/components/NetworkPanel';
 import OpenAISettings from '@/components/OpenAISettings';
+import SessionTriagePanel from '@/components/SessionTriagePanel';
+import { ERROR_TRIGGER_EVENT_TAG, UNCAUGHT_ERROR_EVENT_TAG } from '@/constants';
 import type { RecordCollection } from '@/recorder';
 import type { LogInfo } from '@/types';
 import type { HarEntry } from '@/types/har';
+import type { SessionTriggerType } from '@/types/session';
 import { downloadWithChunks, type DownloadProgress } from '@/utils/chunkDownloader';
+import { downloadHar } from '@/utils/harExport';
+import {
+  describePrivacySummary,
+  extractPrivacyInfo,
+  getBlockedRegionStyleRules,
+  type PrivacyInfo,
+} from '@/utils/privacyHelper';
+import {
+  formatReplayOffset,
+  highlightReplayNode,
+  pickReplayNode,
+  renderTimelineMarkers,
+} from '@/utils/replayAnnotations';
+import { buildReplayLink, type ReplayLinkTab, type ReplayLinkTarget } from '@/utils/replayLink';
+import { describePageBoundary, getPageBoundaries } from '@/utils/replayPages';
+import { getActiveTabAt, getActiveTabSpans, getTabActivityChanges, splitTabStreams } from '@/utils/replayTabs';
+import { importHarFile, importSessionFiles } from '@/utils/sessionImport';
+import { downloadSessionSegments, mergeSegmentCollections, readCollectionFromZip } from '@/utils/sessionSegments';
 
 const { Title, Text } = Typography;
 const { Dragger } = Upload;
 
+// Colors of the recorded tabs in the tab switcher and activity bar
+const TAB_COLORS = ['#1677ff', '#52c41a', '#fa8c16', '#eb2f96', '#13c2c2', '#722ed1'];
+
+// Timeline marker color of page loads
+const PAGE_MARKER_COLOR = '#8c8c8c';
+
 interface SessionData {
   eventData: eventWithTime[];
   responseData: HarEntry[];
@@ -29,11 +70,14 @@ interface SessionData {
 
 interface ReplayerContentProps {
   sessionId?: string;
+  linkTarget?: ReplayLinkTarget; // Moment to open from a shared link
 }
 
-export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
+export default function ReplayerContent({ sessionId, linkTarget }: ReplayerContentProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<rrwebPlayer | null>(null);
+  const linkAppliedRef = useRef(false);
+  const pendingSeekRef = useRef<number | null>(null); // Moment to continue at after switching tabs
 
   const [sessionData, setSessionData] = useState<SessionData | null>(null);
   const [hasError, setHasError] = useState(false);
@@ -47,6 +91,38 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
   const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
   const [showProgress, setShowProgress] = useState(false);
   const [jiraId, setJiraId] = useState<string | null>(null);
+  const [privacyInfo, setPrivacyInfo] = useState<PrivacyInfo | null>(null);
+  const [sessionTrigger, setSessionTrigger] = useState<{ type: SessionTriggerType; message: string } | null>(null);
+  const [triggerTimestamp, setTriggerTimestamp] = useState<number | null>(null);
+  const [comments, setComments] = useState<CommentItem[]>([]);
+  const [playerReady, setPlayerReady] = useState(false);
+  const [activeTab, setActiveTab] = useState<ReplayLinkTab>(linkTarget?.tab || 'logs');
+  const [selectedTabId, setSelectedTabId] = useState<string | null>(null);
+
+  // Sessions recorded in several tabs replay one tab at a time, each has its own snapshots
+  const replayTabs = useMemo(() => splitTabStreams(sessionData?.eventData ?? []), [sessionData?.eventData]);
+  const tabActivity = useMemo(() => getTabActivityChanges(sessionData?.eventData ?? []), [sessionData?.eventData]);
+  const selectedTab = replayTabs.find((tab) => tab.tabId === selectedTabId) ?? replayTabs[0];
+  const playerEvents = selectedTab?.events;
+
+  // Pages loaded in the replayed tab play back to back, their boundaries are marked on the timeline
+  const pageBoundaries = useMemo(() => getPageBoundaries(playerEvents ?? []), [playerEvents]);
+
+  // Links and comments count from the session start, the player from the start of the selected tab
+  const sessionStartTime = sessionData?.eventData[0]?.timestamp || 0;
+  const sessionEndTime = sessionData?.eventData[sessionData.eventData.length - 1]?.timestamp || 0;
+  const playerStartTime = selectedTab?.startTime ?? sessionStartTime;
+  const playerOffset = playerStartTime - sessionStartTime;
+
+  const activeTabId = getActiveTabAt(tabActivity, currentTime || playerStartTime);
+  const activeTabSpans = useMemo(
+    () => getActiveTabSpans(tabActivity, sessionStartTime, sessionEndTime),
+    [tabActivity, sessionStartTime, sessionEndTime],
+  );
+
+  // The linked entry belongs to the tab the link opens
+  const linkTab = linkTarget?.tab || 'logs';
+  const linkEntry = linkTarget?.entry;
 
   // Jira configuration from environment variables
   const jiraDomain = process.env.NEXT_PUBLIC_JIRA_DOMAIN || 'web-reel.atlassian.net';
@@ -79,21 +155,40 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
       // Store Jira ID if available
       setJiraId(data.session.jira_id || null);
 
+      // Sessions captured automatically on error carry the triggering error
+      setSessionTrigger(
+        data.session.trigger_type
+          ? { type: data.session.trigger_type, message: data.session.trigger_message || '' }
+          : null,
+      );
+
       // Record start time when download actually begins
       let progressStartTime: number | null = null;
 
-      // Download ZIP file from Vercel Blob using chunked downloader
-      const blobBuffer = await downloadWithChunks({
-        url: data.session.blob_url,
-        fileSize: data.session.file_size,
-        onProgress: (progress) => {
-          // Record the first time progress is shown
-          if (progressStartTime === null) {
-            progressStartTime = Date.now();
-          }
-          setDownloadProgress(progress);
-        },
-      });
+      const onProgress = (progress: DownloadProgress) => {
+        // Record the first time progress is shown
+        if (progressStartTime === null) {
+          progressStartTime = Date.now();
+        }
+        setDownloadProgress(progress);
+      };
+
+      // Download ZIP file(s) from Vercel Blob using chunked downloader
+      // Segmented uploads are stored as one ZIP per segment
+      const archives =
+        data.session.segment_count > 0
+          ? await downloadSessionSegments(id, onProgress)
+          : [
+              await downloadWithChunks({
+                url: data.session.blob_url,
+                fileSize: data.session.file_size,
+                onProgress,
+              }),
+            ];
+
+      if (data.session.upload_status === 'open') {
+        message.warning('This session is still being uploaded, the replay may be incomplete');
+      }
 
       // Ensure progress bar displays for at least 1.5 seconds from when it first showed
       if (progressStartTime !== null) {
@@ -108,33 +203,8 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
       setShowProgress(false);
       setDownloadProgress(null);
 
-      // Unzip and process (using existing logic)
-      const zip = new JSZip();
-      const zipContent = await zip.loadAsync(blobBuffer);
-
-      // List all files in the ZIP
-      const files = Object.keys(zipContent.files).filter((name) => !zipContent.files[name]?.dir);
-
-      // Try to find the JSON file - either 'data.json' or any .json file
-      let jsonFile = zipContent.file('data.json');
-
-      if (!jsonFile) {
-        // If data.json not found, look for any .json file
-        const jsonFileName = files.find((name) => name.toLowerCase().endsWith('.json'));
-        if (jsonFileName) {
-          jsonFile = zipContent.file(jsonFileName);
-        }
-      }
-
-      if (!jsonFile) {
-        console.error('[Replay] No JSON file found in ZIP. Available files:', files);
-        message.error(`Invalid zip file: No JSON file found. Found: ${files.join(', ')}`);
-        setLoading(false);
-        return;
-      }
-
-      const jsonText = await jsonFile.async('string');
-      const collection: RecordCollection = JSON.parse(jsonText);
+      // Unzip and stitch segments together
+      const collection = mergeSegmentCollections(await Promise.all(archives.map(readCollectionFromZip)));
 
       // Check if the collection is in the correct format or needs conversion
       let normalizedCollection: RecordCollection = collection;
@@ -232,111 +302,36 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
     }
   };
 
-  const handleUpload: UploadProps['beforeUpload'] = async (file) => {
+  // Files dropped together arrive one by one; import them as a batch from the first call
+  const handleUpload: UploadProps['beforeUpload'] = async (file, fileList) => {
+    if (file !== fileList[0]) {
+      return false;
+    }
+
     try {
       setLoading(true);
+      setSessionTrigger(null);
 
-      let collection: RecordCollection;
-
-      // Check file type and handle accordingly
-      if (file.name.toLowerCase().endsWith('.zip')) {
-        // Handle ZIP file
-        const zip = new JSZip();
-        const zipContent = await zip.loadAsync(file);
-
-        // List all files in the ZIP for debugging
-        const files = Object.keys(zipContent.files).filter((name) => !zipContent.files[name]?.dir);
-
-        // Try to find the JSON file - either 'data.json' or any .json file
-        let jsonFile = zipContent.file('data.json');
-
-        if (!jsonFile) {
-          // If data.json not found, look for any .json file
-          const jsonFileName = files.find((name) => name.toLowerCase().endsWith('.json'));
-          if (jsonFileName) {
-            jsonFile = zipContent.file(jsonFileName);
-          }
-        }
-
-        if (!jsonFile) {
-          console.error('[Upload] No JSON file found in ZIP. Available files:', files);
-          message.error(`Invalid zip file: No JSON file found. Found: ${files.join(', ')}`);
-          setLoading(false);
-          return false;
-        }
-
-        const jsonText = await jsonFile.async('string');
-        collection = JSON.parse(jsonText);
-      } else {
-        // Handle JSON/TXT file
-        const reader = new FileReader();
-        const content = await new Promise<string>((resolve, reject) => {
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsText(file);
-        });
-
-        collection = JSON.parse(content);
-      }
-
-      // Check if the collection is in the correct format or needs conversion
-      // Correct format: { "sessionId": { eventData: [...], responseData: [...] } }
-      // Old/test format: { eventData: [...], responseData: [...] }
-      let normalizedCollection: RecordCollection = collection;
-
-      if ('eventData' in collection && Array.isArray(collection.eventData)) {
-        // This is the old format from test page, convert it
-        const timestamp = String(Date.now());
-        const eventData = collection.eventData as any[];
-        const responseData = (Array.isArray(collection.responseData) ? collection.responseData : []) as HarEntry[];
-        normalizedCollection = {
-          [timestamp]: {
-            eventData,
-            responseData,
-          },
-        };
-      }
-
-      const sessionIds = Object.keys(normalizedCollection);
-
-      if (sessionIds.length === 0) {
-        message.error('No sessions found in file');
-        setLoading(false);
-        return false;
-      }
-
-      // Load the most recent session
-      const latestSessionId = sessionIds.sort((a, b) => parseInt(b, 10) - parseInt(a, 10))[0];
-
-      if (!latestSessionId) {
-        message.error('No valid session ID found');
-        setLoading(false);
-        return false;
-      }
-
-      const session = normalizedCollection[latestSessionId];
-
-      if (!session) {
-        message.error('Failed to parse session data');
-        setLoading(false);
-        return false;
-      }
-
-      const eventData = session.eventData || [];
+      const imported = await importSessionFiles(fileList);
 
       setSessionData({
-        eventData,
-        responseData: session.responseData || [],
+        eventData: imported.eventData,
+        responseData: imported.responseData,
       });
 
       // Extract console logs from events
-      extractConsoleLogs(eventData);
+      extractConsoleLogs(imported.eventData);
+
+      imported.warnings.forEach((warning) => message.warning({ content: warning, duration: 8 }));
 
       setHasError(false);
-      message.success(`Loaded session ${latestSessionId}`);
+      message.success(`Loaded ${fileList.map((item) => item.name).join(' + ')}`);
     } catch (error) {
       console.error('Failed to parse file:', error);
-      message.error(`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      message.error({
+        content: `Failed to import: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: 8,
+      });
       setHasError(true);
     } finally {
       setLoading(false);
@@ -345,9 +340,33 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
     return false;
   };
 
+  // Add the network traffic of a separate HAR file to the loaded recording
+  const handleAttachHar: UploadProps['beforeUpload'] = async (file) => {
+    if (!sessionData) return false;
+
+    try {
+      const { entries, warning } = await importHarFile(file, sessionData.eventData);
+
+      setSessionData({ ...sessionData, responseData: [...sessionData.responseData, ...entries] });
+
+      if (warning) {
+        message.warning({ content: warning, duration: 8 });
+      }
+      message.success(`Added ${entries.length} requests from ${file.name}`);
+    } catch (error) {
+      console.error('Failed to attach HAR file:', error);
+      message.error({
+        content: `Failed to import HAR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration: 8,
+      });
+    }
+
+    return false;
+  };
+
   // Initialize rrweb player when session data is available
   useEffect(() => {
-    if (!sessionData || sessionData.eventData.length === 0) {
+    if (!playerEvents || playerEvents.length === 0) {
       return;
     }
 
@@ -357,7 +376,7 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
     }
 
     // Validate event data
-    const hasFullSnapshot = sessionData.eventData.some((event) => event.type === 2);
+    const hasFullSnapshot = playerEvents.some((event) => event.type === 2);
     if (!hasFullSnapshot) {
       console.error('[Replay] No full snapshot found in events');
       message.error('Invalid recording: missing initial snapshot');
@@ -455,7 +474,7 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
             target: containerRef.current,
             // v1: UI config in props
             props: {
-              events: sessionData.eventData,
+              events: playerEvents,
               width: containerWidth - 2, // Subtract border width
               height: containerRef.current.offsetHeight - 2 || 600,
               autoPlay: false,
@@ -465,10 +484,13 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
               inactiveColor: '#D4D4D4', // Customize inactive periods color in progress bar
               // Enable console log replay
               replayLog: true,
+              // Highlight regions the recorder blocked
+              insertStyleRules: getBlockedRegionStyleRules(),
             },
           } as any);
 
           playerRef.current = player;
+          setPlayerReady(true);
 
           // Setup replayer event listeners
           const replayer = player.getReplayer();
@@ -479,17 +501,11 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
             replayer.disableInteract();
           }
 
-          // Listen to time updates
-          try {
-            if (replayer) {
-              replayer.on('ui-update-current-time', (event: any) => {
-                const timestamp = event as number;
-                setCurrentTime(timestamp);
-              });
-            }
-          } catch (error) {
-            console.debug('[Replay] Failed to setup replayer events:', error);
-          }
+          // Listen to time updates, the payload is the offset in the replayed events
+          const startTime = playerEvents[0]?.timestamp || 0;
+          player.addEventListener('ui-update-current-time', ({ payload }: { payload: number }) => {
+            setCurrentTime(startTime + payload);
+          });
         } catch (error) {
           // Only log if it's not a CSS/DOM error
           const errorMsg = error instanceof Error ? error.message : String(error);
@@ -513,6 +529,7 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
 
       // Clean up timer and player
       clearTimeout(initTimer);
+      setPlayerReady(false);
       if (playerRef.current) {
         try {
           playerRef.current.pause();
@@ -522,11 +539,13 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
         playerRef.current = null;
       }
     };
-  }, [sessionData]);
+    // Only rebuild the player when the events change, not when a HAR file is attached
+  }, [playerEvents]);
 
   const extractConsoleLogs = (events: eventWithTime[]) => {
     const logs: LogInfo[] = [];
     const urls: Array<{ url: string; timestamp: number; trigger: string }> = [];
+    let errorTriggerTime: number | null = null;
 
     // Extract console logs from rrweb events
     // rrweb records console logs as plugin events (type 6) with plugin name 'rrweb/console@1'
@@ -539,6 +558,21 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
             level: payload.level,
             info: payload.payload || [],
             timestamp: event.timestamp, // Store timestamp for timeline sync
+            frame: payload.frame,
+          });
+        }
+      }
+
+      // Uncaught errors and unhandled rejections (type 5, custom events)
+      if (event.type === 5 && event.data?.tag === UNCAUGHT_ERROR_EVENT_TAG) {
+        const payload = event.data.payload;
+        if (payload && payload.message) {
+          logs.push({
+            level: 'error',
+            info: [payload.message],
+            timestamp: event.timestamp,
+            uncaught: payload,
+            frame: payload.frame,
           });
         }
       }
@@ -554,6 +588,11 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
           });
         }
       }
+
+      // Error that triggered an automatic capture (type 5, custom events)
+      if (event.type === 5 && event.data?.tag === ERROR_TRIGGER_EVENT_TAG && errorTriggerTime === null) {
+        errorTriggerTime = event.timestamp;
+      }
     });
 
     console.log('[Replay] Extracted', logs.length, 'console logs');
@@ -561,6 +600,10 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
 
     setConsoleLogs(logs);
     setUrlHistory(urls);
+    setTriggerTimestamp(errorTriggerTime);
+
+    // Tag blocked regions before the player builds the DOM
+    setPrivacyInfo(extractPrivacyInfo(events));
 
     // Set initial URL
     if (urls.length > 0 && urls[0]) {
@@ -591,8 +634,8 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
     const player = playerRef.current;
     if (player && sessionData) {
       try {
-        // Calculate time offset from the start of the recording
-        const startTime = sessionData.eventData[0]?.timestamp || 0;
+        // Calculate time offset from the start of the replayed tab
+        const startTime = playerStartTime;
         const timeOffset = timestamp - startTime;
 
         console.log('[Replay] Seek request:', {
@@ -624,6 +667,130 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
     }
   };
 
+  // Seek to a comment and point at its element, if any
+  const handleSelectComment = (comment: CommentItem) => {
+    handleSeekToTime(sessionStartTime + comment.offset_ms);
+
+    const replayer = playerRef.current?.getReplayer();
+    if (replayer && comment.node_id !== null) {
+      const nodeId = comment.node_id;
+      // Wait for the replayer to rebuild the DOM at the new position
+      setTimeout(() => {
+        if (!highlightReplayNode(replayer, nodeId)) {
+          message.info('The commented element is not on screen at this point');
+        }
+      }, 100);
+    }
+  };
+
+  const getCurrentOffset = () => playerOffset + (playerRef.current?.getReplayer().getCurrentTime() ?? 0);
+
+  // Seek to the linked moment once the player is ready
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!playerReady || !player || !sessionData || linkAppliedRef.current) return;
+    if (linkTarget?.offset === undefined) return;
+
+    linkAppliedRef.current = true;
+    const totalTime = player.getReplayer().getMetaData().totalTime;
+    handleSeekToTime(Math.min(sessionStartTime + linkTarget.offset, playerStartTime + totalTime));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playerReady]);
+
+  // Continue at the same moment once the player of the newly selected tab is ready
+  useEffect(() => {
+    const player = playerRef.current;
+    const timestamp = pendingSeekRef.current;
+    if (!playerReady || !player || timestamp === null) return;
+
+    pendingSeekRef.current = null;
+    const totalTime = player.getReplayer().getMetaData().totalTime;
+    const timeOffset = Math.min(Math.max(timestamp - playerStartTime, 0), totalTime);
+    player.goto(timeOffset, false);
+    setCurrentTime(playerStartTime + timeOffset);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playerReady]);
+
+  // Replay another tab, at the given moment or where the current one is
+  const handleSelectTab = (tabId: string, timestamp: number = currentTime) => {
+    if (tabId === selectedTab?.tabId) {
+      handleSeekToTime(timestamp);
+      return;
+    }
+
+    pendingSeekRef.current = timestamp || null;
+    setSelectedTabId(tabId);
+  };
+
+  const getTabColor = (tabId: string) => {
+    const index = replayTabs.findIndex((tab) => tab.tabId === tabId);
+    return TAB_COLORS[Math.max(index, 0) % TAB_COLORS.length];
+  };
+
+  const handleCopyLink = (target: ReplayLinkTarget) => {
+    if (!sessionId) return;
+
+    navigator.clipboard.writeText(buildReplayLink(sessionId, target)).then(
+      () => message.success('Link copied to clipboard'),
+      () => message.error('Failed to copy link'),
+    );
+  };
+
+  const handleExportHar = () => {
+    if (!sessionData) return;
+
+    try {
+      downloadHar(sessionData.eventData, sessionData.responseData, `session-${sessionId || Date.now()}.har`);
+    } catch (error) {
+      console.error('[Replay] Failed to export HAR:', error);
+      message.error('Failed to export HAR file');
+    }
+  };
+
+  // Link to a console log or network request at the time it happened
+  const handleCopyEntryLink = (tab: ReplayLinkTab) => (index: number, timestamp: number) => {
+    handleCopyLink({ offset: Math.max(0, timestamp - sessionStartTime), tab, entry: index });
+  };
+
+  const handlePickNode = () => {
+    const player = playerRef.current;
+    if (!player) return Promise.resolve(null);
+
+    player.pause();
+    return pickReplayNode(player.getReplayer());
+  };
+
+  // Draw comment and page load markers on the player timeline
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!playerReady || !player || !containerRef.current) return;
+
+    return renderTimelineMarkers(
+      containerRef.current,
+      [
+        // Comments made before the replayed tab started are not on its timeline
+        ...comments
+          .filter((comment) => comment.offset_ms >= playerOffset)
+          .map((comment) => ({
+            offset: comment.offset_ms - playerOffset,
+            title: `${formatReplayOffset(comment.offset_ms)} ${comment.author || 'Anonymous'}: ${comment.body}`,
+            onClick: () => handleSelectComment(comment),
+          })),
+        // The first page starts with the replay
+        ...pageBoundaries
+          .filter((boundary) => boundary.timestamp > playerStartTime)
+          .map((boundary) => ({
+            offset: boundary.timestamp - playerStartTime,
+            title: `${formatReplayOffset(boundary.timestamp - sessionStartTime)} ${describePageBoundary(boundary)}`,
+            color: PAGE_MARKER_COLOR,
+            onClick: () => handleSeekToTime(boundary.timestamp),
+          })),
+      ],
+      player.getReplayer().getMetaData().totalTime,
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [comments, playerReady]);
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -659,12 +826,17 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
         </div>
         <Space>
           {!sessionData && (
-            <Upload beforeUpload={handleUpload} accept=".json,.txt,.zip" showUploadList={false}>
+            <Upload beforeUpload={handleUpload} accept=".json,.txt,.zip,.har" multiple showUploadList={false}>
               <Button type="primary" icon={<InboxOutlined />} loading={loading}>
                 Upload Session File
               </Button>
             </Upload>
           )}
+          {sessionData && (
+            <Upload beforeUpload={handleAttachHar} accept=".har,.json" showUploadList={false}>
+              <Button icon={<ApiOutlined />}>Attach HAR</Button>
+            </Upload>
+          )}
           {jiraId ? (
             <Button type="default" onClick={() => window.open(`https://${jiraDomain}/browse/${jiraId}`, '_blank')}>
               View Jira: {jiraId}
@@ -713,12 +885,21 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
 
       {!sessionData && !loading && (
         <Card>
-          <Dragger beforeUpload={handleUpload} accept=".json,.txt,.zip" showUploadList={false} disabled={loading}>
+          <Dragger
+            beforeUpload={handleUpload}
+            accept=".json,.txt,.zip,.har"
+            multiple
+            showUploadList={false}
+            disabled={loading}
+          >
             <p className="ant-upload-drag-icon">
               <InboxOutlined />
             </p>
             <p className="ant-upload-text">Click or drag file to upload</p>
-            <p className="ant-upload-hint">Upload a session file (JSON, TXT, or ZIP format) to start replay</p>
+            <p className="ant-upload-hint">
+              Upload a Web Reel session (JSON, TXT, or ZIP) or an rrweb events JSON to start replay. Add a .har file
+              alongside it to include network requests
+            </p>
           </Dragger>
         </Card>
       )}
@@ -727,19 +908,73 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
         <>
           <Alert
             message="Replay Ready"
-            description={`Loaded ${sessionData.eventData.length} events and ${sessionData.responseData.length} network requests. Use the player controls to navigate through the session.`}
+            description={`Loaded ${sessionData.eventData.length} events${replayTabs.length > 1 ? ` from ${replayTabs.length} tabs` : ''} and ${sessionData.responseData.length} network requests. Use the player controls to navigate through the session.`}
             type="info"
             closable
           />
 
+          {sessionTrigger && (
+            <Alert
+              message={`Captured automatically on a ${sessionTrigger.type} error`}
+              description={
+                <Text code ellipsis={{ tooltip: sessionTrigger.message }} style={{ maxWidth: '100%' }}>
+                  {sessionTrigger.message || 'No error message'}
+                </Text>
+              }
+              type="error"
+              showIcon
+              action={
+                triggerTimestamp !== null && (
+                  <Button size="small" danger onClick={() => handleSeekToTime(triggerTimestamp)}>
+                    Jump to error
+                  </Button>
+                )
+              }
+            />
+          )}
+
+          {privacyInfo && (privacyInfo.summary || privacyInfo.blockedCount > 0) && (
+            <Alert
+              message="Privacy Controls Active"
+              description={
+                <Space direction="vertical" size={0}>
+                  {privacyInfo.blockedCount > 0 && (
+                    <Text>
+                      {privacyInfo.blockedCount} region(s) were blocked during recording and are shown as hatched
+                      placeholders. Their content is missing on purpose.
+                    </Text>
+                  )}
+                  {privacyInfo.summary &&
+                    describePrivacySummary(privacyInfo.summary).map((item) => (
+                      <Text key={item} type="secondary">
+                        {item}
+                      </Text>
+                    ))}
+                </Space>
+              }
+              type="warning"
+              showIcon
+              closable
+            />
+          )}
+
           <div style={{ display: 'flex', gap: 16, alignItems: 'stretch', minHeight: '750px' }}>
             {/* Player Section */}
             <Card
               title="Session Player"
               extra={
-                sessionData.eventData[0] && (
-                  <Text type="secondary">Start: {formatTime(sessionData.eventData[0].timestamp)}</Text>
-                )
+                <Space>
+                  {selectedTab && <Text type="secondary">Start: {formatTime(playerStartTime)}</Text>}
+                  {sessionId && (
+                    <Button
+                      size="small"
+                      icon={<LinkOutlined />}
+                      onClick={() => handleCopyLink({ offset: getCurrentOffset(), tab: activeTab })}
+                    >
+                      Copy link to this moment
+                    </Button>
+                  )}
+                </Space>
               }
               style={{ flex: 1, display: 'flex', flexDirection: 'column' }}
               styles={{
@@ -751,6 +986,56 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
                 },
               }}
             >
+              {/* Tab Switcher, the bar below it shows which tab the user was looking at */}
+              {replayTabs.length > 1 && (
+                <div style={{ marginBottom: 12 }}>
+                  <Segmented
+                    value={selectedTab?.tabId}
+                    onChange={(value) => handleSelectTab(String(value))}
+                    options={replayTabs.map((tab) => ({
+                      value: tab.tabId,
+                      label: (
+                        <Badge
+                          color={getTabColor(tab.tabId)}
+                          text={tab.tabId === activeTabId ? `${tab.label} (active)` : tab.label}
+                        />
+                      ),
+                    }))}
+                  />
+                  <div
+                    style={{
+                      display: 'flex',
+                      height: 6,
+                      marginTop: 8,
+                      borderRadius: 3,
+                      overflow: 'hidden',
+                      background: '#f0f0f0',
+                    }}
+                  >
+                    {activeTabSpans.map((span) => {
+                      const tab = replayTabs.find((item) => item.tabId === span.tabId);
+                      const from = formatReplayOffset(span.start - sessionStartTime);
+
+                      return (
+                        <Tooltip
+                          key={span.start}
+                          title={tab ? `${tab.label} active from ${from}` : `No tab visible from ${from}`}
+                        >
+                          <div
+                            onClick={() => tab && handleSelectTab(tab.tabId, span.start)}
+                            style={{
+                              flex: span.end - span.start,
+                              background: tab ? getTabColor(tab.tabId) : 'transparent',
+                              cursor: tab ? 'pointer' : 'default',
+                            }}
+                          />
+                        </Tooltip>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* URL Display Bar */}
               {currentUrl && (
                 <div
@@ -816,7 +1101,8 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
               }}
             >
               <Tabs
-                defaultActiveKey="logs"
+                activeKey={activeTab}
+                onChange={(key) => setActiveTab(key as ReplayLinkTab)}
                 style={{ height: '100%', display: 'flex', flexDirection: 'column' }}
                 tabBarStyle={{ flexShrink: 0, marginBottom: 0, paddingLeft: 16 }}
                 items={[
@@ -825,7 +1111,13 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
                     label: `Console (${consoleLogs.length})`,
                     children: (
                       <div style={{ height: 'calc(100% - 46px)', overflow: 'hidden' }}>
-                        <ConsolePanel logs={consoleLogs} currentTime={currentTime} onSeekToTime={handleSeekToTime} />
+                        <ConsolePanel
+                          logs={consoleLogs}
+                          currentTime={currentTime}
+                          onSeekToTime={handleSeekToTime}
+                          focusIndex={linkTab === 'logs' ? linkEntry : undefined}
+                          onCopyLink={sessionId ? handleCopyEntryLink('logs') : undefined}
+                        />
                       </div>
                     ),
                   },
@@ -838,6 +1130,9 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
                           requests={sessionData.responseData}
                           currentTime={currentTime}
                           onSeekToTime={handleSeekToTime}
+                          focusIndex={linkTab === 'network' ? linkEntry : undefined}
+                          onCopyLink={sessionId ? handleCopyEntryLink('network') : undefined}
+                          onExportHar={handleExportHar}
                         />
                       </div>
                     ),
@@ -857,6 +1152,36 @@ export default function ReplayerContent({ sessionId }: ReplayerContentProps) {
                       </div>
                     ),
                   },
+                  // Comments and triage are only available for sessions stored on the server
+                  ...(sessionId
+                    ? [
+                        {
+                          key: 'comments',
+                          label: `Comments (${comments.length})`,
+                          forceRender: true, // Load comments up front for the timeline markers
+                          children: (
+                            <div style={{ height: 'calc(100% - 46px)', overflow: 'hidden' }}>
+                              <CommentsPanel
+                                sessionId={sessionId}
+                                getCurrentOffset={getCurrentOffset}
+                                onSelect={handleSelectComment}
+                                onPickNode={handlePickNode}
+                                onCommentsChange={setComments}
+                              />
+                            </div>
+                          ),
+                        },
+                        {
+                          key: 'triage',
+                          label: 'Triage',
+                          children: (
+                            <div style={{ height: 'calc(100% - 46px)', overflow: 'auto' }}>
+                              <SessionTriagePanel sessionId={sessionId} />
+                            </div>
+                          ),
+                        },
+                      ]
+                    : []),
                 ]}
               />
             </Card>
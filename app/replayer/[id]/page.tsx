@@ -4,9 +4,20 @@ import { use } from 'react';
 
 import ReplayerContent from '../ReplayerContent';
 
-export default function ReplayerPageWithId({ params }: { params: Promise<{ id: string }> }) {
+import { parseReplayLink } from '@/utils/replayLink';
+
+export default function ReplayerPageWithId({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
   // Next.js 16: Use React.use() to unwrap the params Promise in client component
   const { id } = use(params);
 
-  return <ReplayerContent sessionId={id} />;
+  // Deep link to a moment, e.g. ?t=00:42&tab=network&entry=17
+  const linkTarget = parseReplayLink(use(searchParams));
+
+  return <ReplayerContent sessionId={id} linkTarget={linkTarget} />;
 }
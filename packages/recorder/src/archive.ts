@@ -0,0 +1,440 @@
+import JSZip from 'jszip';
+
+import { RECORDER_VERSION } from './constants';
+import {
+  ARCHIVE_EVENTS_FILE,
+  ARCHIVE_FORMAT,
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_MANIFEST_FILE,
+  ARCHIVE_NETWORK_FILE,
+  LEGACY_ARCHIVE_FILE,
+} from './constants/archive';
+import type { RecordCollection } from './export';
+import type { ArchiveFileInfo, ArchiveManifest, ArchiveMetadata, SessionArchive } from './types/archive';
+import type { HarEntry } from './types/har';
+import { encodeArchiveFiles, isArchiveWorkerSupported } from './utils/archiveWorker';
+import { crc32, createZipBlob } from './utils/zip';
+
+// Recorder version written to manifests derived from archives that did not record it
+const UNKNOWN_RECORDER_VERSION = 'unknown';
+
+const encoder = new TextEncoder();
+
+/**
+ * Hex SHA-256 digest of some bytes
+ * @returns The digest, or null when Web Crypto is unavailable (pages not served over HTTPS)
+ */
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function parseJson(text: string, path: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid archive: ${path} is not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pages visited during a session, in visit order
+ * Taken from the Meta events of each page load and the url-change events of SPA navigations
+ */
+function getSessionUrls(eventData: any[]): string[] {
+  const urls: string[] = [];
+
+  eventData.forEach((event) => {
+    let url: unknown;
+    if (event?.type === 4) {
+      url = event.data?.href;
+    } else if (event?.type === 5 && event.data?.tag === 'url-change') {
+      url = event.data.payload?.url;
+    }
+
+    if (typeof url === 'string' && url && !urls.includes(url)) {
+      urls.push(url);
+    }
+  });
+
+  return urls;
+}
+
+async function describeFile(path: string, text: string, count: number): Promise<ArchiveFileInfo> {
+  const bytes = encoder.encode(text);
+  return { path, size: bytes.length, sha256: (await sha256Hex(bytes)) ?? '', count };
+}
+
+/**
+ * Describe one session and its serialized files in a manifest
+ */
+function buildManifest(
+  sessionId: string,
+  eventData: any[],
+  metadata: ArchiveMetadata,
+  recorderVersion: string,
+  files: ArchiveManifest['files'],
+): ArchiveManifest {
+  // Reduced instead of Math.min(...), which overflows the stack on long sessions
+  let beginTime: number | null = null;
+  let endTime: number | null = null;
+  eventData.forEach((event) => {
+    if (typeof event?.timestamp !== 'number') return;
+    beginTime = beginTime === null ? event.timestamp : Math.min(beginTime, event.timestamp);
+    endTime = endTime === null ? event.timestamp : Math.max(endTime, event.timestamp);
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    recorderVersion,
+    createdAt: new Date().toISOString(),
+    session: {
+      id: sessionId,
+      ...metadata,
+      beginTime,
+      endTime,
+      urls: getSessionUrls(eventData),
+    },
+    files,
+  };
+}
+
+/**
+ * Serialize one session and describe it in a manifest
+ */
+async function buildArchive(
+  sessionId: string,
+  eventData: any[],
+  responseData: HarEntry[],
+  metadata: ArchiveMetadata,
+  recorderVersion: string,
+): Promise<{ manifest: ArchiveManifest; eventsJson: string; networkJson: string }> {
+  let eventsJson: string;
+  let networkJson: string;
+  try {
+    eventsJson = JSON.stringify(eventData);
+    networkJson = JSON.stringify(responseData);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to serialize session data: ${errorMsg}`);
+  }
+
+  const manifest = buildManifest(sessionId, eventData, metadata, recorderVersion, {
+    events: await describeFile(ARCHIVE_EVENTS_FILE, eventsJson, eventData.length),
+    network: await describeFile(ARCHIVE_NETWORK_FILE, networkJson, responseData.length),
+  });
+
+  return { manifest, eventsJson, networkJson };
+}
+
+/**
+ * Pick the most recent session of a traceTime-keyed data map
+ * Archives hold a single session, the recorder only exports and uploads the current one
+ */
+export function pickLatestSession(
+  eventDataMap: { [traceTime: string]: any[] },
+  responseDataMap: { [traceTime: string]: HarEntry[] },
+): { sessionId: string; eventData: any[]; responseData: HarEntry[] } | null {
+  const sessionIds = Array.from(new Set([...Object.keys(eventDataMap), ...Object.keys(responseDataMap)])).sort(
+    (a, b) => parseInt(b, 10) - parseInt(a, 10),
+  );
+
+  if (sessionIds.length === 0) {
+    return null;
+  }
+
+  const sessionId = sessionIds[0]!;
+  return {
+    sessionId,
+    eventData: eventDataMap[sessionId] || [],
+    responseData: responseDataMap[sessionId] || [],
+  };
+}
+
+/**
+ * Pack one session into a versioned archive
+ * The caller generates the zip with its own compression options
+ */
+export async function createArchiveZip(
+  sessionId: string,
+  eventData: any[],
+  responseData: HarEntry[],
+  metadata: ArchiveMetadata = {},
+): Promise<JSZip> {
+  const { manifest, eventsJson, networkJson } = await buildArchive(
+    sessionId,
+    eventData,
+    responseData,
+    metadata,
+    RECORDER_VERSION,
+  );
+
+  const zip = new JSZip();
+  zip.file(ARCHIVE_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  zip.file(ARCHIVE_EVENTS_FILE, eventsJson);
+  zip.file(ARCHIVE_NETWORK_FILE, networkJson);
+
+  return zip;
+}
+
+export interface ArchiveBlobOptions {
+  level?: number; // DEFLATE level of the main-thread fallback (default: 9), the worker uses the browser's default
+  useWorker?: boolean; // Serialize and compress in a Web Worker when supported (default: true)
+  onProgress?: (_percent: number) => void; // Compression progress, 0-100
+}
+
+/**
+ * Pack one session into a versioned archive in the worker
+ * Files are serialized item by item, so no single string holds the whole session
+ */
+async function createArchiveBlobInWorker(
+  sessionId: string,
+  eventData: any[],
+  responseData: HarEntry[],
+  metadata: ArchiveMetadata,
+): Promise<Blob> {
+  const files = await encodeArchiveFiles([
+    { path: ARCHIVE_EVENTS_FILE, items: eventData },
+    { path: ARCHIVE_NETWORK_FILE, items: responseData },
+  ]);
+  const [events, network] = files.map(
+    ({ path, size, sha256, count }): ArchiveFileInfo => ({ path, size, sha256, count }),
+  ) as [ArchiveFileInfo, ArchiveFileInfo];
+
+  const manifest = buildManifest(sessionId, eventData, metadata, RECORDER_VERSION, { events, network });
+  const manifestBytes = encoder.encode(JSON.stringify(manifest, null, 2));
+
+  return createZipBlob([
+    {
+      path: ARCHIVE_MANIFEST_FILE,
+      data: manifestBytes,
+      method: 0,
+      crc: crc32(manifestBytes),
+      size: manifestBytes.length,
+    },
+    ...files.map((file) => ({
+      path: file.path,
+      data: file.compressed,
+      method: 8 as const,
+      crc: file.crc,
+      size: file.size,
+    })),
+  ]);
+}
+
+/**
+ * Pack one session into a versioned archive and generate the zip
+ * Runs off the main thread when possible, falls back to JSZip on the main thread
+ * (no Worker or CompressionStream support, or a CSP that forbids blob: workers)
+ */
+export async function createArchiveBlob(
+  sessionId: string,
+  eventData: any[],
+  responseData: HarEntry[],
+  metadata: ArchiveMetadata = {},
+  options: ArchiveBlobOptions = {},
+): Promise<Blob> {
+  if (options.useWorker !== false && isArchiveWorkerSupported()) {
+    try {
+      const blob = await createArchiveBlobInWorker(sessionId, eventData, responseData, metadata);
+      options.onProgress?.(100);
+      return blob;
+    } catch (error) {
+      console.debug('[Web-Reel] Archive worker unavailable, compressing on the main thread:', error);
+    }
+  }
+
+  const zip = await createArchiveZip(sessionId, eventData, responseData, metadata);
+  return zip.generateAsync(
+    {
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: {
+        level: options.level ?? 9,
+      },
+    },
+    (progress) => options.onProgress?.(progress.percent),
+  );
+}
+
+function validateFileInfo(value: unknown, name: string): ArchiveFileInfo {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid archive manifest: "files.${name}${message}`);
+  };
+
+  if (!isObject(value)) fail('" is missing');
+  const info = value as Record<string, any>;
+
+  if (typeof info.path !== 'string' || !info.path) fail('.path" must be a non-empty string');
+  if (!Number.isInteger(info.size) || info.size < 0) fail('.size" must be a non-negative integer');
+  if (!Number.isInteger(info.count) || info.count < 0) fail('.count" must be a non-negative integer');
+  if (typeof info.sha256 !== 'string' || !/^([0-9a-f]{64})?$/.test(info.sha256)) {
+    fail('.sha256" must be a hex SHA-256 digest or empty');
+  }
+
+  return { path: info.path, size: info.size, sha256: info.sha256, count: info.count };
+}
+
+/**
+ * Check the shape of a parsed manifest.json
+ * @throws Error naming the first invalid field, or when the archive was written by a newer recorder
+ */
+export function validateArchiveManifest(value: unknown): ArchiveManifest {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid archive manifest: ${message}`);
+  };
+
+  if (!isObject(value)) fail('not a JSON object');
+  const manifest = value as Record<string, any>;
+
+  if (manifest.format !== ARCHIVE_FORMAT) fail(`"format" must be "${ARCHIVE_FORMAT}"`);
+  if (!Number.isInteger(manifest.formatVersion) || manifest.formatVersion < 2) {
+    fail('"formatVersion" must be an integer of at least 2');
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(
+      `Archive format version ${manifest.formatVersion} is newer than the supported version ${ARCHIVE_FORMAT_VERSION}, upgrade @web-reel/recorder to read it`,
+    );
+  }
+  if (typeof manifest.recorderVersion !== 'string') fail('"recorderVersion" must be a string');
+  if (typeof manifest.createdAt !== 'string' || isNaN(Date.parse(manifest.createdAt))) {
+    fail('"createdAt" must be an ISO 8601 date');
+  }
+
+  const session = manifest.session;
+  if (!isObject(session)) fail('"session" is missing');
+  if (typeof session.id !== 'string' || !session.id) fail('"session.id" must be a non-empty string');
+  ['projectName', 'deviceId', 'platform'].forEach((field) => {
+    if (session[field] !== undefined && typeof session[field] !== 'string') fail(`"session.${field}" must be a string`);
+  });
+  if (session.appId !== undefined && typeof session.appId !== 'number') fail('"session.appId" must be a number');
+  ['beginTime', 'endTime'].forEach((field) => {
+    if (session[field] !== null && typeof session[field] !== 'number') {
+      fail(`"session.${field}" must be a timestamp or null`);
+    }
+  });
+  if (!Array.isArray(session.urls) || session.urls.some((url: unknown) => typeof url !== 'string')) {
+    fail('"session.urls" must be an array of strings');
+  }
+
+  if (!isObject(manifest.files)) fail('"files" is missing');
+
+  return {
+    ...(manifest as ArchiveManifest),
+    files: {
+      events: validateFileInfo(manifest.files.events, 'events'),
+      network: validateFileInfo(manifest.files.network, 'network'),
+    },
+  };
+}
+
+/**
+ * Read a file listed in the manifest and check it against its size, digest and item count
+ */
+async function readArchiveFile(zip: JSZip, info: ArchiveFileInfo): Promise<any[]> {
+  const file = zip.file(info.path);
+  if (!file) {
+    throw new Error(`Invalid archive: ${info.path} is listed in the manifest but missing`);
+  }
+
+  const text = await file.async('string');
+  const bytes = encoder.encode(text);
+
+  if (bytes.length !== info.size) {
+    throw new Error(`Invalid archive: ${info.path} is ${bytes.length} bytes, the manifest says ${info.size}`);
+  }
+
+  if (info.sha256) {
+    const digest = await sha256Hex(bytes);
+    if (digest !== null && digest !== info.sha256) {
+      throw new Error(`Invalid archive: ${info.path} does not match its SHA-256 digest, the file is corrupted`);
+    }
+  }
+
+  const items = parseJson(text, info.path);
+  if (!Array.isArray(items)) {
+    throw new Error(`Invalid archive: ${info.path} must contain a JSON array`);
+  }
+  if (items.length !== info.count) {
+    throw new Error(`Invalid archive: ${info.path} has ${items.length} items, the manifest says ${info.count}`);
+  }
+
+  return items;
+}
+
+/**
+ * Convert a format version 1 RecordCollection to a session archive
+ * The most recent session is kept, as when the collection is replayed
+ */
+export async function migrateLegacyCollection(
+  collection: unknown,
+  metadata: ArchiveMetadata = {},
+): Promise<SessionArchive> {
+  if (!isObject(collection)) {
+    throw new Error(`Invalid archive: ${LEGACY_ARCHIVE_FILE} is not a session collection`);
+  }
+
+  const sessionIds = Object.keys(collection)
+    .filter((key) => Array.isArray(collection[key]?.eventData))
+    .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+
+  if (sessionIds.length === 0) {
+    throw new Error(`Invalid archive: ${LEGACY_ARCHIVE_FILE} contains no session`);
+  }
+
+  const sessionId = sessionIds[0]!;
+  const session = collection[sessionId];
+  const eventData: any[] = session.eventData;
+  const responseData: HarEntry[] = Array.isArray(session.responseData) ? session.responseData : [];
+
+  const { manifest } = await buildArchive(sessionId, eventData, responseData, metadata, UNKNOWN_RECORDER_VERSION);
+
+  return { manifest: { ...manifest, migratedFrom: 1 }, eventData, responseData };
+}
+
+/**
+ * Read and validate a session archive
+ * Format version 1 archives (a single data.json) are migrated to the current format
+ * @throws Error explaining why the archive cannot be read
+ */
+export async function readArchive(zip: JSZip): Promise<SessionArchive> {
+  const manifestFile = zip.file(ARCHIVE_MANIFEST_FILE);
+
+  if (!manifestFile) {
+    const legacyFile = zip.file(LEGACY_ARCHIVE_FILE);
+    if (!legacyFile) {
+      throw new Error(`Invalid archive: neither ${ARCHIVE_MANIFEST_FILE} nor ${LEGACY_ARCHIVE_FILE} found`);
+    }
+
+    return migrateLegacyCollection(parseJson(await legacyFile.async('string'), LEGACY_ARCHIVE_FILE));
+  }
+
+  const manifest = validateArchiveManifest(parseJson(await manifestFile.async('string'), ARCHIVE_MANIFEST_FILE));
+  const eventData = await readArchiveFile(zip, manifest.files.events);
+  const responseData = (await readArchiveFile(zip, manifest.files.network)) as HarEntry[];
+
+  return { manifest, eventData, responseData };
+}
+
+/**
+ * Convert an archive to the RecordCollection shape used by the replayer and the import API
+ */
+export function archiveToCollection(archive: SessionArchive): RecordCollection {
+  return {
+    [archive.manifest.session.id]: {
+      eventData: archive.eventData,
+      responseData: archive.responseData,
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { SegmentUploader } from './segmentUpload';
+import type { AutoUploadOption } from './types';
+
+const DEFAULT_INTERVAL = 10 * 1000;
+const DEFAULT_MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Periodically flushes new recording data through a SegmentUploader
+ * Failed uploads are retried with exponential backoff, uploads pause while the
+ * browser is offline, and the unacknowledged tail is sent as a beacon on unload
+ */
+export class AutoUploader {
+  private uploader: SegmentUploader;
+  private interval: number;
+  private maxRetryDelay: number;
+  private timer?: number;
+  private failures = 0;
+  private running = false;
+
+  constructor(uploader: SegmentUploader, options: AutoUploadOption = {}) {
+    this.uploader = uploader;
+    this.interval = options.interval ?? DEFAULT_INTERVAL;
+    this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+  }
+
+  /**
+   * Start uploading in the background
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('beforeunload', this.handleBeforeUnload);
+    this.schedule(this.interval);
+  }
+
+  /**
+   * Stop uploading, data already stored stays in IndexedDB
+   */
+  public stop(): void {
+    this.running = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('beforeunload', this.handleBeforeUnload);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Delay before the next attempt, doubling with every consecutive failure
+   */
+  private getRetryDelay(): number {
+    return Math.min(this.interval * 2 ** this.failures, this.maxRetryDelay);
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = window.setTimeout(this.tick, delay);
+  }
+
+  private tick = async (): Promise<void> => {
+    this.timer = undefined;
+
+    if (!this.running) {
+      return;
+    }
+
+    // Wait for the 'online' event instead of burning retries
+    if (!navigator.onLine) {
+      return;
+    }
+
+    try {
+      await this.uploader.flush();
+      this.failures = 0;
+    } catch (error) {
+      this.failures++;
+      console.debug(`[Web-Reel] Background upload failed, retrying in ${this.getRetryDelay()}ms`, error);
+    }
+
+    if (this.running) {
+      this.schedule(this.failures ? this.getRetryDelay() : this.interval);
+    }
+  };
+
+  private handleOnline = (): void => {
+    // Connectivity is back, retry right away
+    this.failures = 0;
+    this.schedule(0);
+  };
+
+  private handleBeforeUnload = (): void => {
+    if (!this.uploader.sendBeacon()) {
+      console.debug('[Web-Reel] Unload beacon skipped, remaining data will be uploaded on the next visit');
+    }
+  };
+}
@@ -0,0 +1,17 @@
+// Session archive format constants
+
+// Value of the manifest "format" field
+export const ARCHIVE_FORMAT = 'web-reel-archive';
+
+// Current archive format version, bumped on every layout change
+// 1: single data.json holding a RecordCollection (no manifest)
+// 2: manifest.json + events.json + network.json, one session per archive
+export const ARCHIVE_FORMAT_VERSION = 2;
+
+// File names inside the zip
+export const ARCHIVE_MANIFEST_FILE = 'manifest.json';
+export const ARCHIVE_EVENTS_FILE = 'events.json';
+export const ARCHIVE_NETWORK_FILE = 'network.json';
+
+// Only file of format version 1 archives
+export const LEGACY_ARCHIVE_FILE = 'data.json';
@@ -0,0 +1,9 @@
+// Full snapshot (checkout) constants
+
+// rrweb event types a checkout is made of, a Meta event followed by a FullSnapshot
+export const FULL_SNAPSHOT_EVENT_TYPE = 2;
+export const META_EVENT_TYPE = 4;
+
+// Default number of events between two checkouts
+// Below MAX_EVENTS_PER_SESSION, so the most recent MAX_EVENTS_PER_SESSION events always contain a checkout
+export const DEFAULT_CHECKOUT_EVERY_NTH = 2000;
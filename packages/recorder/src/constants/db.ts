@@ -9,8 +9,14 @@ export const DB_TABLE_NAME = {
 // Database name
 export const DB_NAME = 'replay';
 
+// Database schema version, bump when stores or indexes change
+export const DB_VERSION = 2;
+
 // Database index key
 export const DB_INDEX_KEY = 'traceTime';
 
+// Compound index of render events by session and event time, used for oldest-first eviction
+export const DB_TIME_INDEX_KEY = 'traceTime_timestamp';
+
 // Data retention duration (2 days in milliseconds)
 export const RESERVE_DURATION = 1000 * 60 * 60 * 24 * 2;
@@ -0,0 +1,7 @@
+// Uncaught error constants
+
+// Custom event tag carrying uncaught errors and unhandled rejections on the rrweb timeline
+export const UNCAUGHT_ERROR_EVENT_TAG = 'uncaught-error';
+
+// Maximum number of stack trace lines recorded per error
+export const MAX_STACK_LINES = 30;
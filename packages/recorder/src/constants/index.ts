@@ -2,6 +2,12 @@
 
 import { EAppId, LogLevel } from '../types';
 
+// Replaced with the package version at build time (see tsup.config.ts)
+declare const __RECORDER_VERSION__: string | undefined;
+
+// Recorder version, 'dev' when the sources are used without the build step
+export const RECORDER_VERSION = typeof __RECORDER_VERSION__ === 'string' ? __RECORDER_VERSION__ : 'dev';
+
 // rrweb original attribute name for patching
 export const ORIGINAL_ATTRIBUTE_NAME = '__rrweb_original__';
 
@@ -0,0 +1,7 @@
+// Page session constants
+
+// Custom event tag marking the start of a page load on the rrweb timeline
+export const PAGE_LOAD_EVENT_TAG = 'page-load';
+
+// Default time between leaving a page and loading the next one after which the tab starts a new session
+export const DEFAULT_PAGE_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
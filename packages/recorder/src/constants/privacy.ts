@@ -0,0 +1,9 @@
+// DOM privacy constants
+
+// rrweb default class names
+export const DEFAULT_BLOCK_CLASS = 'rr-block';
+export const DEFAULT_MASK_TEXT_CLASS = 'rr-mask';
+export const DEFAULT_IGNORE_CLASS = 'rr-ignore';
+
+// Custom event tag carrying the privacy summary on the rrweb timeline, recorded once masking applied and after each full snapshot
+export const PRIVACY_EVENT_TAG = 'privacy-config';
@@ -0,0 +1,30 @@
+// Network redaction constants
+
+import type { RedactionRule } from '../types';
+
+// Value written in place of masked data
+export const DEFAULT_REDACTION_REPLACEMENT = '[REDACTED]';
+
+// Headers that are always masked unless `redaction.headers` overrides the list
+export const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+// Ready-made regex rules that can be passed to `redaction.rules`
+export const BUILTIN_REDACTION_RULES = {
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  bearerToken: {
+    name: 'bearerToken',
+    pattern: /Bearer\s+[A-Za-z0-9\-._~+/]+=*/g,
+    replacement: `Bearer ${DEFAULT_REDACTION_REPLACEMENT}`,
+  },
+  jwt: {
+    name: 'jwt',
+    pattern: /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b(?:\d[ -]?){13,16}\b/g,
+  },
+} satisfies Record<string, RedactionRule>;
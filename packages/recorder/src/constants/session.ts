@@ -11,3 +11,12 @@ export const UNKNOWN_DEVICE_ID = 'unknown_device';
 
 // LocalStorage key for uploading flag
 export const LOCAL_UPLOADING_FLAG = 'reel_uploading_flag_2.0.2';
+
+// LocalStorage key prefix for segmented upload progress, suffixed with the local session ID
+export const SEGMENT_UPLOAD_STATE_PREFIX = 'reel_segment_upload_';
+
+// LocalStorage key for the shared sessions of all tabs and the tabs that joined them
+export const TAB_SESSIONS = 'reel_tab_sessions';
+
+// SessionStorage key for the session of this tab, continued across page reloads and navigations
+export const PAGE_SESSION = 'reel_page_session';
@@ -0,0 +1,22 @@
+// Multi-tab and iframe recording constants
+
+// Custom event tag recording tab visibility on the rrweb timeline
+export const TAB_ACTIVITY_EVENT_TAG = 'tab-activity';
+
+// BroadcastChannel the recording tabs of an origin talk over
+export const TAB_CHANNEL_NAME = 'web-reel-tabs';
+
+// Default idle time after which a new tab starts its own shared session instead of joining the last one
+export const DEFAULT_TAB_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+// How often a visible tab marks its shared session as active
+export const TAB_HEARTBEAT_INTERVAL = 5 * 1000;
+
+// Shared sessions inactive for longer are dropped from the registry
+export const TAB_SESSION_RETENTION = 24 * 60 * 60 * 1000;
+
+// How long an export or upload waits for the other tabs to write their queued rows
+export const TAB_FLUSH_TIMEOUT = 500;
+
+// Window property set while a recorder runs, same-origin iframes skip their own recorder when an ancestor has it
+export const RECORDING_WINDOW_FLAG = '__webReelRecording__';
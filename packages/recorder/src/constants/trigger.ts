@@ -0,0 +1,14 @@
+// Error-triggered capture constants
+
+// Custom event tag marking the triggering error on the rrweb timeline
+export const ERROR_TRIGGER_EVENT_TAG = 'error-trigger';
+
+// Default capture window around the error
+export const DEFAULT_PRE_ERROR_WINDOW = 30 * 1000;
+export const DEFAULT_POST_ERROR_WINDOW = 5 * 1000;
+
+// Default minimum delay between two captures
+export const DEFAULT_TRIGGER_COOLDOWN = 60 * 1000;
+
+// Console messages logged by the SDK itself never trigger a capture
+export const SDK_LOG_PREFIXES = ['[Web-Reel', '[Upload]', '[Export]', '[Import]', '[Session]'];
@@ -1,24 +1,56 @@
 import { record } from 'rrweb';
 import type { eventWithTime } from 'rrweb/typings/types';
 
+import { AutoUploader } from './autoUpload';
+import { MAX_EVENTS_PER_SESSION } from './constants';
+import { DEFAULT_CHECKOUT_EVERY_NTH, FULL_SNAPSHOT_EVENT_TYPE } from './constants/checkout';
 import { DB_INDEX_KEY, DB_TABLE_NAME } from './constants/db';
+import { UNCAUGHT_ERROR_EVENT_TAG } from './constants/errors';
+import { PAGE_LOAD_EVENT_TAG } from './constants/pages';
+import { PRIVACY_EVENT_TAG } from './constants/privacy';
 import { LOCAL_UPLOADING_FLAG, UNKNOWN_DEVICE_ID } from './constants/session';
+import { RECORDING_WINDOW_FLAG, TAB_ACTIVITY_EVENT_TAG } from './constants/tabs';
+import { DEFAULT_PRE_ERROR_WINDOW, ERROR_TRIGGER_EVENT_TAG } from './constants/trigger';
+import { ErrorTrigger } from './errorTrigger';
+import { EventStore } from './eventStore';
 import { exportToFile } from './export';
-import type { RecordCollection } from './export';
+import type { ExportFormat, RecordCollection } from './export';
 import { importFromFile } from './import';
-import { NetworkInterceptor, URLInterceptor } from './interceptors';
+import { ErrorInterceptor, FrameInterceptor, NetworkInterceptor, URLInterceptor } from './interceptors';
+import { PageSession } from './pageSession';
+import { SegmentUploader } from './segmentUpload';
 import { getUploadLogFlag, setUploadLogFlag, uploadEnvStat, uploadPvStat, uploadSessionLog } from './services/api';
 import { getApiPrefix } from './services/http';
-import type { EnvStat, RecorderOption, SessionLogPayload, UserInfo } from './types';
+import { TabSession } from './tabSession';
+import type {
+  EnvStat,
+  ErrorTriggerInfo,
+  ErrorTriggerOption,
+  RecorderOption,
+  SessionLogPayload,
+  StorageMetrics,
+  TabStreamInfo,
+  UncaughtErrorInfo,
+  UserInfo,
+} from './types';
 import { ErrNoType as ErrNo, UploadFlag as UFlag } from './types';
 import type { HarEntry } from './types/har';
 import { EntryButton } from './ui';
 import { uploadSession } from './upload';
 import type { UploadOptions } from './upload';
 import { compatibilityJudge } from './utils/browser';
+import { sliceCaptureWindow, truncateEvents } from './utils/capture';
 import { IDB } from './utils/db';
 import { cleanOldData, getRenderEventSize, getResponseDataSize, initDB } from './utils/dbHelper';
-import { clearUploadingSessionId, getUploadingSessionId, setUploadingSessionId } from './utils/session';
+import { getPrivacySummary, toRecordPrivacyOptions } from './utils/privacy';
+import { redactHarEntry } from './utils/redaction';
+import {
+  clearUploadingSessionId,
+  getSegmentUploadSessionIds,
+  getUploadingSessionId,
+  setUploadingSessionId,
+} from './utils/session';
+import { mergeTabStreams } from './utils/tabs';
 
 export interface RecorderConfig extends RecorderOption {
   // Inherited from RecorderOption
@@ -31,14 +63,24 @@ export interface RecorderConfig extends RecorderOption {
 export class WebReelRecorder {
   private config: RecorderConfig;
   private db!: IDB;
+  private store!: EventStore; // Batches writes to db
   private sessionId: number; // Current session ID (timestamp)
   private networkInterceptor?: NetworkInterceptor;
   private urlInterceptor?: URLInterceptor;
+  private errorInterceptor?: ErrorInterceptor;
+  private frameInterceptor?: FrameInterceptor;
   private stopRecordingFn?: () => void;
   private pollUploadFlagTimer?: number;
   private entryButton?: EntryButton;
   private isReady: boolean = false; // Whether the recorder is fully initialized
   private recordAddCustomEvent?: (_tag: string, _payload: any) => void;
+  private privacyMasked = false; // Whether a masking rule replaced recorded text or an input value
+  private privacySummaryRecorded = false;
+  private segmentUploader?: SegmentUploader;
+  private autoUploader?: AutoUploader;
+  private errorTrigger?: ErrorTrigger;
+  private tabSession?: TabSession; // Shared session of the user's tabs, when multiTab is on
+  private pageSession?: PageSession; // Session of this tab across page loads, when pageSession is on
 
   constructor(config: RecorderConfig) {
     // Skip initialization in non-browser environments (SSR)
@@ -101,9 +143,25 @@ export class WebReelRecorder {
       return;
     }
 
+    // A same-origin parent page that records already captures this frame
+    if (this.isRecordedByParent()) {
+      console.debug('[Web-Reel] Recorded by a parent frame, initialization skipped');
+      return;
+    }
+    (window as any)[RECORDING_WINDOW_FLAG] = true;
+
     // Initialize database
     await this.initializeDB();
 
+    // Continue the session of the previous page in this tab (before uploads, they cover all its pages)
+    this.initializePageSession();
+
+    // Initialize background upload (before recording, so every stored row is tracked)
+    this.initializeAutoUpload();
+
+    // Initialize error-triggered capture (before recording, so console errors are seen)
+    this.initializeErrorTrigger();
+
     // Initialize UI entry button
     this.initializeEntryButton();
 
@@ -113,9 +171,18 @@ export class WebReelRecorder {
     // Initialize rrweb recording
     this.initializeRecording();
 
+    // Join the shared session of the other tabs (after rrweb recording, so tab activity is recorded)
+    this.initializeTabSession();
+
     // Initialize URL interceptor (after rrweb recording)
     this.initializeURLInterceptor();
 
+    // Initialize uncaught error interceptor (after rrweb recording)
+    this.initializeErrorInterceptor();
+
+    // Record console output and errors of same-origin iframes (after rrweb recording)
+    this.initializeFrameInterceptor();
+
     // Setup window unload handler
     this.setupUnloadHandler();
 
@@ -134,19 +201,236 @@ export class WebReelRecorder {
     this.isReady = true;
   }
 
+  /**
+   * Whether a same-origin ancestor frame runs a recorder, rrweb records same-origin iframes with their parent
+   */
+  private isRecordedByParent(): boolean {
+    let current: Window = window;
+
+    try {
+      while (current !== current.parent) {
+        current = current.parent;
+        if ((current as any)[RECORDING_WINDOW_FLAG]) {
+          return true;
+        }
+      }
+    } catch {
+      // Cross-origin ancestor, it cannot record this frame
+    }
+
+    return false;
+  }
+
   /**
    * Initialize IndexedDB
    */
   private async initializeDB(): Promise<void> {
     this.sessionId = Date.now();
     this.db = await initDB(this.config.projectName);
+    this.store = new EventStore({
+      db: this.db,
+      option: this.config.storage,
+      onStored: (tableName, key, row) => {
+        // Rows are also handed to the background uploader for the unload beacon
+        if (this.autoUploader) {
+          this.segmentUploader?.track(tableName, key, row);
+        }
+      },
+      onWritten: () => {
+        if (this.config.compression?.precompress) {
+          this.prepareSegments();
+        }
+      },
+    });
+
+    // Clean old data, earlier pages and other tabs of the current session are kept
+    setTimeout(() => {
+      const streamIds = this.getStreams().map((stream) => stream.streamId);
+      cleanOldData(this.db, Math.min(this.sessionId, ...streamIds), this.config.recordInterval);
+    }, 1000);
+  }
+
+  /**
+   * Whether exports and uploads are serialized and compressed in a Web Worker
+   */
+  private useWorker(): boolean {
+    return this.config.compression?.worker ?? true;
+  }
+
+  /**
+   * Compress full upload segments in the background, only for segmented uploads
+   */
+  private prepareSegments(): void {
+    if (!this.config.uploadEndpoint || !(this.config.chunkedUpload || this.autoUploader)) {
+      return;
+    }
+
+    this.getSegmentUploader().prepare();
+  }
+
+  /**
+   * Initialize continuous background upload
+   */
+  private initializeAutoUpload(): void {
+    if (!this.config.autoUpload) {
+      return;
+    }
+
+    if (!this.config.uploadEndpoint) {
+      console.warn('[Web-Reel] autoUpload requires uploadEndpoint, background upload disabled');
+      return;
+    }
 
-    // Clean old data
+    const autoUploadOption = typeof this.config.autoUpload === 'object' ? this.config.autoUpload : {};
+    this.autoUploader = new AutoUploader(this.getSegmentUploader(), autoUploadOption);
+    this.autoUploader.start();
+
+    // Finish uploads left open by previous page loads
     setTimeout(() => {
-      cleanOldData(this.db, this.sessionId, this.config.recordInterval);
+      this.resumePendingUploads();
     }, 1000);
   }
 
+  /**
+   * Initialize error-triggered automatic capture
+   */
+  private initializeErrorTrigger(): void {
+    if (!this.config.errorTrigger) {
+      return;
+    }
+
+    if (!this.config.uploadEndpoint) {
+      console.warn('[Web-Reel] errorTrigger requires uploadEndpoint, error-triggered capture disabled');
+      return;
+    }
+
+    this.errorTrigger = new ErrorTrigger({
+      option: this.getErrorTriggerOption(),
+      onTrigger: (info) => {
+        // Mark the error on the timeline so the replay can jump to it
+        this.recordAddCustomEvent?.(ERROR_TRIGGER_EVENT_TAG, info);
+      },
+      onCapture: (info, start, end) => this.captureErrorWindow(info, start, end),
+    });
+  }
+
+  /**
+   * Resolve errorTrigger: true to the default options
+   */
+  private getErrorTriggerOption(): ErrorTriggerOption {
+    return typeof this.config.errorTrigger === 'object' ? this.config.errorTrigger : {};
+  }
+
+  /**
+   * Upload the recording around a triggering error as a new session
+   */
+  private async captureErrorWindow(info: ErrorTriggerInfo, start: number, end: number): Promise<void> {
+    await this.store.flush();
+    const events = await this.db.getDataByIndexValue(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY, this.sessionId);
+    const responses = await this.db.getDataByIndexValue(DB_TABLE_NAME.RESPONSE_DATA, DB_INDEX_KEY, this.sessionId);
+    const { eventData, responseData } = sliceCaptureWindow(events, responses, start, end);
+
+    if (eventData.length === 0) {
+      console.warn('[Web-Reel] No events recorded around the triggering error, capture skipped');
+      return;
+    }
+
+    const currentSessionId = String(this.sessionId);
+
+    await uploadSession(
+      { [currentSessionId]: eventData },
+      { [currentSessionId]: responseData },
+      {
+        endpoint: this.config.uploadEndpoint!,
+        headers: this.config.uploadHeaders,
+        platform: this.config.platform,
+        deviceId: this.config.deviceId,
+        jiraId: this.config.jiraId,
+        projectName: this.config.projectName,
+        appId: this.config.appId,
+        triggerType: info.type,
+        triggerMessage: info.message,
+        useWorker: this.useWorker(),
+      },
+    );
+  }
+
+  /**
+   * Upload the remaining data of previous sessions and complete them
+   */
+  private async resumePendingUploads(): Promise<void> {
+    const sessionIds = getSegmentUploadSessionIds().filter((id) => id !== this.getUploadSessionId());
+
+    for (const sessionId of sessionIds) {
+      try {
+        await this.createSegmentUploader(sessionId).complete();
+      } catch (error) {
+        console.debug(`[Web-Reel] Failed to resume upload of session ${sessionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Queue a recorded row, it is written to IndexedDB with the next batch
+   */
+  private addRecord(row: { [key: string]: any }, tableName: (typeof DB_TABLE_NAME)[keyof typeof DB_TABLE_NAME]): void {
+    this.store.add(row, tableName);
+  }
+
+  /**
+   * Continue the session of this tab across page reloads and navigations
+   */
+  private initializePageSession(): void {
+    if (!this.config.pageSession) {
+      return;
+    }
+
+    this.pageSession = new PageSession({
+      streamId: this.sessionId,
+      option: typeof this.config.pageSession === 'object' ? this.config.pageSession : {},
+      onRestore: () => {
+        // Events recorded from now on follow the pages loaded meanwhile, they need their own snapshot
+        record.takeFullSnapshot(true);
+        this.recordPageLoad();
+        this.segmentUploader?.reload();
+      },
+    });
+    this.pageSession.start();
+  }
+
+  /**
+   * Mark the start of this page on the timeline, the replayer shows page boundaries
+   */
+  private recordPageLoad(): void {
+    if (this.pageSession) {
+      this.recordAddCustomEvent?.(PAGE_LOAD_EVENT_TAG, this.pageSession.getPageLoad());
+    }
+  }
+
+  /**
+   * Join the tabs of the user into one shared session
+   */
+  private initializeTabSession(): void {
+    if (!this.config.multiTab) {
+      return;
+    }
+
+    this.tabSession = new TabSession({
+      streamId: this.sessionId,
+      tabId: this.pageSession?.getTabId(),
+      sessionId: this.pageSession?.getSharedSessionId(),
+      option: typeof this.config.multiTab === 'object' ? this.config.multiTab : {},
+      onActivity: (activity) => {
+        // Lets the replayer show which tab was visible at each moment
+        this.recordAddCustomEvent?.(TAB_ACTIVITY_EVENT_TAG, activity);
+      },
+      onFlushRequest: () => this.store.flush(),
+      onCleared: () => this.store.resetSession(),
+    });
+    this.tabSession.start();
+    this.pageSession?.setSharedSessionId(this.tabSession.getSessionId());
+  }
+
   /**
    * Initialize UI entry button
    */
@@ -180,75 +464,77 @@ export class WebReelRecorder {
         // record.addCustomEvent('request-start', { url, timestamp })
       },
       onRequestComplete: (entry) => {
-        // Save network request to database
-        this.db.add(
+        const redactedEntry = this.redactEntry(entry);
+
+        // Save network request to database (redacted before it ever reaches IndexedDB)
+        this.addRecord(
           {
             [DB_INDEX_KEY]: this.sessionId,
-            ...entry,
+            ...redactedEntry,
           },
           DB_TABLE_NAME.RESPONSE_DATA,
         );
+
+        this.errorTrigger?.notifyNetworkEntry(redactedEntry);
       },
       shouldIgnore: (url) => this.shouldIgnoreUrl(url),
+      resourceTiming: this.config.resourceTiming,
     });
 
     this.networkInterceptor.install();
   }
 
   /**
-   * Initialize rrweb recording
+   * Apply the configured redaction to a captured network entry
    */
-  private initializeRecording(): void {
-    // Create a console interceptor for rrweb < 2.0
-    const consoleRecord = this.createConsoleRecordPlugin();
+  private redactEntry(entry: HarEntry): HarEntry {
+    if (this.config.redaction === false) {
+      return entry;
+    }
 
-    // Track event count for current session
-    let eventCount = 0;
-    const MAX_EVENTS = 5000;
+    try {
+      return redactHarEntry(entry, this.config.redaction);
+    } catch (error) {
+      // Fail closed: never persist an entry we could not redact
+      console.debug('[Web-Reel] Failed to redact network entry, dropping bodies and query:', error);
+      return {
+        ...entry,
+        request: {
+          ...entry.request,
+          url: entry.request.url.split(/[?#]/)[0]!,
+          queryString: [],
+          headers: [],
+          postData: undefined,
+        },
+        response: { ...entry.response, headers: [], content: { ...entry.response.content, text: '' } },
+        _redactions: ['redaction-error'],
+      };
+    }
+  }
 
-    this.stopRecordingFn = record({
-      emit: async (event: eventWithTime) => {
-        // Save event to database
-        await this.db.add(
-          {
-            [DB_INDEX_KEY]: this.sessionId,
-            ...event,
-          },
-          DB_TABLE_NAME.RENDER_EVENT,
-        );
+  /**
+   * rrweb checkout intervals, each checkout records a Meta event and a new full snapshot
+   * Stored and exported events are only ever cut right before a checkout, so what is kept can be replayed
+   */
+  private getCheckoutOptions(): { checkoutEveryNth?: number; checkoutEveryNms?: number } {
+    let checkoutEveryNms = this.config.checkoutEveryNms;
 
-        // Increment counter and check if we need to clean up old events
-        eventCount++;
-        if (eventCount > MAX_EVENTS) {
-          // Delete oldest events to keep only MAX_EVENTS
-          try {
-            const allEvents = await this.db.getDataByIndexValue(
-              DB_TABLE_NAME.RENDER_EVENT,
-              DB_INDEX_KEY,
-              this.sessionId,
-            );
-
-            if (allEvents && allEvents.length > MAX_EVENTS) {
-              // Sort by timestamp and delete oldest ones
-              const sortedEvents = allEvents.sort((a: any, b: any) => a.timestamp - b.timestamp);
-              const eventsToDelete = sortedEvents.slice(0, allEvents.length - MAX_EVENTS);
-
-              for (const evt of eventsToDelete) {
-                await this.db.delete(evt.id, DB_TABLE_NAME.RENDER_EVENT);
-              }
-
-              eventCount = MAX_EVENTS;
-            }
-          } catch (error) {
-            console.error('[Web-Reel] Failed to cleanup old events:', error);
-          }
-        }
-      },
-      // Try both ways to enable console recording
-      recordLog: true,
-      plugins: consoleRecord ? [consoleRecord] : [],
-    } as any);
+    // Error-triggered captures start at a full snapshot, take one at least once per pre-error window
+    if (this.errorTrigger) {
+      const preErrorWindow = this.getErrorTriggerOption().preErrorWindow ?? DEFAULT_PRE_ERROR_WINDOW;
+      checkoutEveryNms = checkoutEveryNms ? Math.min(checkoutEveryNms, preErrorWindow) : preErrorWindow;
+    }
 
+    return {
+      checkoutEveryNth: this.config.checkoutEveryNth ?? DEFAULT_CHECKOUT_EVERY_NTH,
+      checkoutEveryNms,
+    };
+  }
+
+  /**
+   * Initialize rrweb recording
+   */
+  private initializeRecording(): void {
     // Store the addCustomEvent function reference
     // rrweb's record function doesn't directly expose addCustomEvent,
     // so we'll use the event system to emit custom events
@@ -264,18 +550,47 @@ export class WebReelRecorder {
       };
 
       // Save to database
-      this.db
-        .add(
+      this.addRecord(
+        {
+          [DB_INDEX_KEY]: this.sessionId,
+          ...customEvent,
+        },
+        DB_TABLE_NAME.RENDER_EVENT,
+      );
+    };
+
+    // Create a console interceptor for rrweb < 2.0
+    const consoleRecord = this.createConsoleRecordPlugin();
+
+    this.stopRecordingFn = record({
+      emit: (event: eventWithTime) => {
+        // Queue event, the store writes batches and evicts the oldest events over the session budget
+        this.addRecord(
           {
             [DB_INDEX_KEY]: this.sessionId,
-            ...customEvent,
+            ...event,
           },
           DB_TABLE_NAME.RENDER_EVENT,
-        )
-        .catch(() => {
-          // Silently ignore errors
-        });
-    };
+        );
+
+        // The summary follows each full snapshot, so truncation and eviction never leave a masked recording without it
+        if (this.privacyMasked && (event.type === FULL_SNAPSHOT_EVENT_TYPE || !this.privacySummaryRecorded)) {
+          this.privacySummaryRecorded = true;
+          this.recordAddCustomEvent?.(PRIVACY_EVENT_TAG, getPrivacySummary(this.config.privacy));
+        }
+      },
+      // Try both ways to enable console recording
+      recordLog: true,
+      plugins: consoleRecord ? [consoleRecord] : [],
+      // Input masking, text masking and blocked subtrees
+      ...toRecordPrivacyOptions(this.config.privacy, () => {
+        this.privacyMasked = true;
+      }),
+      // Periodic full snapshots, truncation and eviction cut at them
+      ...this.getCheckoutOptions(),
+    } as any);
+
+    this.recordPageLoad();
   }
 
   /**
@@ -298,17 +613,62 @@ export class WebReelRecorder {
     this.urlInterceptor.install();
   }
 
+  /**
+   * Initialize uncaught error interceptor
+   */
+  private initializeErrorInterceptor(): void {
+    this.errorInterceptor = new ErrorInterceptor({
+      onError: (info) => this.recordUncaughtError(info),
+    });
+
+    this.errorInterceptor.install();
+  }
+
+  /**
+   * Record an uncaught error or unhandled rejection as a custom event
+   */
+  private recordUncaughtError(info: UncaughtErrorInfo): void {
+    this.recordAddCustomEvent?.(UNCAUGHT_ERROR_EVENT_TAG, info);
+    this.errorTrigger?.notifyUncaughtError(info);
+  }
+
+  /**
+   * Initialize same-origin iframe interceptor
+   * rrweb already records their DOM, this adds their console output and uncaught errors
+   */
+  private initializeFrameInterceptor(): void {
+    this.frameInterceptor = new FrameInterceptor({
+      onFrame: (frameWindow) => {
+        const frame = frameWindow.location.href;
+
+        this.createConsoleRecordPlugin((frameWindow as Window & typeof globalThis).console, frame);
+
+        const errorInterceptor = new ErrorInterceptor(
+          { onError: (info) => this.recordUncaughtError({ ...info, frame }) },
+          frameWindow,
+        );
+        errorInterceptor.install();
+
+        return () => errorInterceptor.uninstall();
+      },
+    });
+
+    this.frameInterceptor.install();
+  }
+
   /**
    * Create console record plugin for rrweb < 2.0
+   * @param target - Console to intercept, a same-origin iframe's console records its output too
+   * @param frame - URL of that iframe, recorded with each message
    */
-  private createConsoleRecordPlugin() {
+  private createConsoleRecordPlugin(target: typeof console = console, frame?: string) {
     // Manual console interceptor as fallback
     const originalConsole = {
-      log: console.log.bind(console),
-      info: console.info.bind(console),
-      warn: console.warn.bind(console),
-      error: console.error.bind(console),
-      debug: console.debug.bind(console),
+      log: target.log.bind(target),
+      info: target.info.bind(target),
+      warn: target.warn.bind(target),
+      error: target.error.bind(target),
+      debug: target.debug.bind(target),
     };
 
     try {
@@ -322,44 +682,42 @@ export class WebReelRecorder {
               level,
               payload: args,
               trace: [],
+              ...(frame ? { frame } : {}),
             },
           },
           timestamp: Date.now(),
         };
 
         // Save to database directly
-        this.db
-          .add(
-            {
-              [DB_INDEX_KEY]: this.sessionId,
-              ...event,
-            },
-            DB_TABLE_NAME.RENDER_EVENT,
-          )
-          .catch(() => {
-            // Silently ignore errors to avoid console spam
-          });
+        this.addRecord(
+          {
+            [DB_INDEX_KEY]: this.sessionId,
+            ...event,
+          },
+          DB_TABLE_NAME.RENDER_EVENT,
+        );
       };
 
       // Intercept console methods
-      (console as any).log = (...args: any[]) => {
-        originalConsole.log.apply(console, args);
+      (target as any).log = (...args: any[]) => {
+        originalConsole.log.apply(target, args);
         emit('log', ...args);
       };
-      (console as any).info = (...args: any[]) => {
-        originalConsole.info.apply(console, args);
+      (target as any).info = (...args: any[]) => {
+        originalConsole.info.apply(target, args);
         emit('info', ...args);
       };
-      (console as any).warn = (...args: any[]) => {
-        originalConsole.warn.apply(console, args);
+      (target as any).warn = (...args: any[]) => {
+        originalConsole.warn.apply(target, args);
         emit('warn', ...args);
       };
-      (console as any).error = (...args: any[]) => {
-        originalConsole.error.apply(console, args);
+      (target as any).error = (...args: any[]) => {
+        originalConsole.error.apply(target, args);
         emit('error', ...args);
+        this.errorTrigger?.notifyConsoleError(args);
       };
-      (console as any).debug = (...args: any[]) => {
-        originalConsole.debug.apply(console, args);
+      (target as any).debug = (...args: any[]) => {
+        originalConsole.debug.apply(target, args);
         emit('debug', ...args);
       };
 
@@ -374,6 +732,16 @@ export class WebReelRecorder {
    * Setup window unload handler
    */
   private setupUnloadHandler(): void {
+    // Write queued rows while the page can still run, the page may be discarded once hidden
+    window.addEventListener('pagehide', () => {
+      this.store.flush();
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.store.flush();
+      }
+    });
+
     window.addEventListener('beforeunload', () => {
       if (this.sessionId === getUploadingSessionId()) {
         clearUploadingSessionId();
@@ -402,44 +770,90 @@ export class WebReelRecorder {
   }
 
   /**
-   * Export all session data as ZIP or JSON file
-   * @param clearAfterExport - Whether to clear data after export (default: true)
-   * @param format - Export format ('zip' or 'json'), defaults to 'zip'
+   * Local sessions exported and uploaded together: the tabs of the shared session and the pages of this tab
    */
-  public async exportLog(clearAfterExport: boolean = true, format: 'zip' | 'json' = 'zip'): Promise<void> {
-    const eventDataMap = await this.db.getByIndexKey(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY);
-    const responseDataMap = await this.db.getByIndexKey(DB_TABLE_NAME.RESPONSE_DATA, DB_INDEX_KEY);
+  private getStreams(): TabStreamInfo[] {
+    const pageSession = this.pageSession;
+    const pages = pageSession
+      ? pageSession.getPages().map((streamId) => ({ streamId, tabId: pageSession.getTabId() }))
+      : [];
+
+    if (this.tabSession) {
+      // Earlier pages stay in the page session when the shared session they joined went idle and was pruned
+      const streams = this.tabSession.getStreams();
+      const missing = pages.filter((page) => !streams.some((stream) => stream.streamId === page.streamId));
+      return [...missing, ...streams];
+    }
 
-    // Only export current session to avoid data too large
-    const currentSessionId = String(this.sessionId);
-    const limitedEventDataMap =
-      currentSessionId in eventDataMap ? { [currentSessionId]: eventDataMap[currentSessionId] } : {};
-    const limitedResponseDataMap =
-      currentSessionId in responseDataMap ? { [currentSessionId]: responseDataMap[currentSessionId] } : {};
+    if (pages.length > 0) {
+      return pages;
+    }
 
-    // Count total items
-    let totalEvents = (limitedEventDataMap[currentSessionId] || []).length;
-    let totalResponses = (limitedResponseDataMap[currentSessionId] || []).length;
+    return [{ streamId: this.sessionId, tabId: '' }];
+  }
 
-    // Limit events to prevent "Invalid string length" error
-    const MAX_EVENTS = 5000;
-    if (totalEvents > MAX_EVENTS) {
-      limitedEventDataMap[currentSessionId] = limitedEventDataMap[currentSessionId].slice(-MAX_EVENTS);
-      totalEvents = MAX_EVENTS;
-    }
+  /**
+   * Read the current session for an export or upload
+   * The recordings of all tabs of the shared session and all pages of this tab are merged (see mergeTabStreams).
+   * Each recording keeps at most MAX_EVENTS_PER_SESSION events to prevent "Invalid string length" errors,
+   * cut at a full snapshot so the result replays
+   */
+  private async readCurrentSession(): Promise<{ sessionId: string; eventData: any[]; responseData: HarEntry[] }> {
+    await this.tabSession?.requestFlush();
+    await this.store.flush();
+
+    const streamData = await Promise.all(
+      this.getStreams().map(async (stream) => ({
+        ...stream,
+        eventData: truncateEvents(
+          await this.db.getDataByIndexValue(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY, stream.streamId),
+          MAX_EVENTS_PER_SESSION,
+        ),
+        responseData: await this.db.getDataByIndexValue(DB_TABLE_NAME.RESPONSE_DATA, DB_INDEX_KEY, stream.streamId),
+      })),
+    );
+
+    return {
+      sessionId: String(this.getSharedSessionId()),
+      ...mergeTabStreams(streamData),
+    };
+  }
 
-    if (totalEvents === 0 && totalResponses === 0) {
+  /**
+   * Export all session data as ZIP or JSON file
+   * @param clearAfterExport - Whether to clear data after export (default: true)
+   * @param format - Export format ('zip', 'json' or 'har'), defaults to 'zip'
+   */
+  public async exportLog(clearAfterExport: boolean = true, format: ExportFormat = 'zip'): Promise<void> {
+    // Only export current session to avoid data too large
+    const { sessionId, eventData, responseData } = await this.readCurrentSession();
+
+    if (eventData.length === 0 && responseData.length === 0) {
       console.warn('[Web-Reel Export] No data found for current session!');
       return;
     }
 
-    await exportToFile(limitedEventDataMap, limitedResponseDataMap, format);
+    await exportToFile(
+      { [sessionId]: eventData },
+      { [sessionId]: responseData },
+      format,
+      {
+        projectName: this.config.projectName,
+        appId: this.config.appId,
+        deviceId: this.config.deviceId,
+        platform: this.config.platform,
+      },
+      this.useWorker(),
+    );
 
     // Clear exported data after successful export
-    if (clearAfterExport) {
+    // A HAR file only holds the network traffic, so the recording is kept
+    if (clearAfterExport && format !== 'har') {
       try {
         await this.db.clearTable(DB_TABLE_NAME.RENDER_EVENT);
         await this.db.clearTable(DB_TABLE_NAME.RESPONSE_DATA);
+        this.store.resetSession();
+        this.tabSession?.notifyCleared();
       } catch (clearError) {
         console.error('[Web-Reel Export] ❌ Failed to clear data:', clearError);
       }
@@ -456,8 +870,11 @@ export class WebReelRecorder {
     try {
       // Clear existing data if requested
       if (clearBeforeImport) {
+        await this.store.flush();
         await this.db.clearTable(DB_TABLE_NAME.RENDER_EVENT);
         await this.db.clearTable(DB_TABLE_NAME.RESPONSE_DATA);
+        this.store.resetSession();
+        this.tabSession?.notifyCleared();
       }
 
       // Import data from file
@@ -507,28 +924,16 @@ export class WebReelRecorder {
       throw new Error('[Web-Reel Upload] uploadEndpoint is not configured');
     }
 
-    const eventDataMap = await this.db.getByIndexKey(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY);
-    const responseDataMap = await this.db.getByIndexKey(DB_TABLE_NAME.RESPONSE_DATA, DB_INDEX_KEY);
+    await this.store.flush();
 
-    // Only upload current session to avoid data too large
-    const currentSessionId = String(this.sessionId);
-    const limitedEventDataMap =
-      currentSessionId in eventDataMap ? { [currentSessionId]: eventDataMap[currentSessionId] } : {};
-    const limitedResponseDataMap =
-      currentSessionId in responseDataMap ? { [currentSessionId]: responseDataMap[currentSessionId] } : {};
-
-    // Count total items
-    let totalEvents = (limitedEventDataMap[currentSessionId] || []).length;
-    let totalResponses = (limitedResponseDataMap[currentSessionId] || []).length;
-
-    // Limit events to prevent "Invalid string length" error
-    const MAX_EVENTS = 5000;
-    if (totalEvents > MAX_EVENTS) {
-      limitedEventDataMap[currentSessionId] = limitedEventDataMap[currentSessionId].slice(-MAX_EVENTS);
-      totalEvents = MAX_EVENTS;
+    if (this.config.chunkedUpload || this.autoUploader) {
+      return this.uploadLogInSegments(clearAfterUpload);
     }
 
-    if (totalEvents === 0 && totalResponses === 0) {
+    // Only upload current session to avoid data too large
+    const { sessionId, eventData, responseData } = await this.readCurrentSession();
+
+    if (eventData.length === 0 && responseData.length === 0) {
       console.warn('[Web-Reel Upload] No data found for current session!');
       return;
     }
@@ -544,6 +949,9 @@ export class WebReelRecorder {
         platform: this.config.platform,
         deviceId: this.config.deviceId,
         jiraId: this.config.jiraId,
+        projectName: this.config.projectName,
+        appId: this.config.appId,
+        useWorker: this.useWorker(),
         onProgress: (progress) => {
           progressIndicator.updateProgress(progress);
         },
@@ -564,13 +972,15 @@ export class WebReelRecorder {
       };
 
       // Upload session data
-      await uploadSession(limitedEventDataMap, limitedResponseDataMap, uploadOptions);
+      await uploadSession({ [sessionId]: eventData }, { [sessionId]: responseData }, uploadOptions);
 
       // Clear uploaded data after successful upload
       if (clearAfterUpload) {
         try {
           await this.db.clearTable(DB_TABLE_NAME.RENDER_EVENT);
           await this.db.clearTable(DB_TABLE_NAME.RESPONSE_DATA);
+          this.store.resetSession();
+          this.tabSession?.notifyCleared();
         } catch (clearError) {
           console.error('[Web-Reel Upload] ❌ Failed to clear data:', clearError);
         }
@@ -581,6 +991,104 @@ export class WebReelRecorder {
     }
   }
 
+  /**
+   * Upload recorded data as segments without completing the server session
+   * Can be called repeatedly while recording, each call only sends new data
+   * @returns Number of segments uploaded
+   */
+  public async flushSegments(): Promise<number> {
+    const uploader = this.getSegmentUploader();
+    await this.store.flush();
+    return uploader.flush();
+  }
+
+  /**
+   * Get (or create) the segmented uploader for the current session
+   */
+  private getSegmentUploader(): SegmentUploader {
+    if (!this.config.uploadEndpoint) {
+      throw new Error('[Web-Reel Upload] uploadEndpoint is not configured');
+    }
+
+    if (!this.segmentUploader) {
+      this.segmentUploader = this.createSegmentUploader(this.getUploadSessionId(), () => this.getStreams());
+    }
+
+    return this.segmentUploader;
+  }
+
+  /**
+   * Local session segmented uploads are kept under, the shared session so all its tabs continue one upload
+   */
+  private getUploadSessionId(): number {
+    return this.getSharedSessionId();
+  }
+
+  /**
+   * Create a segmented uploader for a local session
+   * @param getStreams - Tabs and pages uploaded with it, resumed uploads read them from their saved progress
+   */
+  private createSegmentUploader(sessionId: number, getStreams?: () => TabStreamInfo[]): SegmentUploader {
+    const chunkedOption = typeof this.config.chunkedUpload === 'object' ? this.config.chunkedUpload : {};
+
+    return new SegmentUploader(this.db, sessionId, {
+      endpoint: this.config.uploadEndpoint!,
+      headers: this.config.uploadHeaders,
+      platform: this.config.platform,
+      deviceId: this.config.deviceId,
+      jiraId: this.config.jiraId,
+      projectName: this.config.projectName,
+      appId: this.config.appId,
+      maxSegmentEvents: chunkedOption.maxSegmentEvents,
+      maxSegmentResponses: chunkedOption.maxSegmentResponses,
+      useWorker: this.useWorker(),
+      getStreams,
+    });
+  }
+
+  /**
+   * Upload the remaining data as segments and complete the server session
+   * A failed upload resumes from the last acknowledged segment on the next call
+   */
+  private async uploadLogInSegments(clearAfterUpload: boolean): Promise<void> {
+    const uploader = this.getSegmentUploader();
+    const progressIndicator = this.showUploadProgress();
+
+    try {
+      await uploader.flush((progress) => progressIndicator.updateProgress(progress));
+
+      if (uploader.getServerSessionId() === null) {
+        console.warn('[Web-Reel Upload] No data found for current session!');
+        progressIndicator.remove();
+        return;
+      }
+
+      const response = await uploader.complete();
+      progressIndicator.remove();
+
+      if (response.session?.id) {
+        const replayUrl = `https://tubi-web-reel.vercel.app/replayer/${response.session.id}`;
+        this.showUploadSuccessNotification(replayUrl);
+      }
+    } catch (error) {
+      console.error('[Web-Reel Upload] ❌ Upload failed:', error);
+      progressIndicator.remove();
+      throw error;
+    }
+
+    // Clear uploaded data after successful upload
+    if (clearAfterUpload) {
+      try {
+        await this.db.clearTable(DB_TABLE_NAME.RENDER_EVENT);
+        await this.db.clearTable(DB_TABLE_NAME.RESPONSE_DATA);
+        this.store.resetSession();
+        this.tabSession?.notifyCleared();
+      } catch (clearError) {
+        console.error('[Web-Reel Upload] ❌ Failed to clear data:', clearError);
+      }
+    }
+  }
+
   /**
    * Show circular upload progress indicator inside button
    */
@@ -819,6 +1327,7 @@ export class WebReelRecorder {
    * Upload environment statistics
    */
   private async uploadEnvStat(): Promise<void> {
+    await this.store.flush();
     const renderEventSize = await getRenderEventSize(this.db);
     const responseDataSize = await getResponseDataSize(this.db);
 
@@ -897,6 +1406,7 @@ export class WebReelRecorder {
    * Upload session logs to server
    */
   private async uploadSessionLog(): Promise<void> {
+    await this.store.flush();
     const sessionIds = await this.db.getAllIndexKeys(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY);
     sessionIds.sort((a, b) => b - a); // Sort descending
 
@@ -940,6 +1450,7 @@ export class WebReelRecorder {
           // Delete uploaded data
           await this.db.deleteDataByIndexValue(DB_TABLE_NAME.RENDER_EVENT, DB_INDEX_KEY, sessionId);
           await this.db.deleteDataByIndexValue(DB_TABLE_NAME.RESPONSE_DATA, DB_INDEX_KEY, sessionId);
+          this.store.resetSession(sessionId);
         }
       } catch (error) {
         console.error(`[Web-Reel] Failed to upload session ${sessionId}:`, error);
@@ -968,6 +1479,33 @@ export class WebReelRecorder {
       this.pollUploadFlagTimer = undefined;
     }
 
+    if (this.autoUploader) {
+      this.autoUploader.stop();
+    }
+
+    if (this.errorInterceptor) {
+      this.errorInterceptor.uninstall();
+    }
+
+    if (this.frameInterceptor) {
+      this.frameInterceptor.uninstall();
+    }
+
+    if (this.tabSession) {
+      this.tabSession.stop();
+    }
+
+    if (this.pageSession) {
+      this.pageSession.stop();
+    }
+
+    if (this.errorTrigger) {
+      this.errorTrigger.cancel();
+    }
+
+    // Write what was recorded before stopping
+    this.store?.flush();
+
     if (this.entryButton) {
       this.entryButton.destroy();
     }
@@ -980,6 +1518,28 @@ export class WebReelRecorder {
     return this.sessionId;
   }
 
+  /**
+   * Get the session ID shared by the user's tabs, the page session ID when multiTab is off
+   * Exports and uploads are keyed by it
+   */
+  public getSharedSessionId(): number {
+    return this.tabSession?.getSessionId() ?? this.pageSession?.getSessionId() ?? this.sessionId;
+  }
+
+  /**
+   * Get the ID of this tab, kept across its page loads. null when multiTab and pageSession are off
+   */
+  public getTabId(): string | null {
+    return this.tabSession?.getTabId() ?? this.pageSession?.getTabId() ?? null;
+  }
+
+  /**
+   * Get write statistics of the local event storage, null before the database is ready
+   */
+  public getStorageMetrics(): StorageMetrics | null {
+    return this.store?.getMetrics() ?? null;
+  }
+
   /**
    * Get database instance
    */
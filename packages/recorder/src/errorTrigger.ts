@@ -0,0 +1,142 @@
+import {
+  DEFAULT_POST_ERROR_WINDOW,
+  DEFAULT_PRE_ERROR_WINDOW,
+  DEFAULT_TRIGGER_COOLDOWN,
+  SDK_LOG_PREFIXES,
+} from './constants/trigger';
+import type { ErrorTriggerInfo, ErrorTriggerOption, ErrorTriggerType, UncaughtErrorInfo } from './types';
+import type { HarEntry } from './types/har';
+
+export interface ErrorTriggerConfig {
+  option: ErrorTriggerOption;
+  onTrigger?: (_info: ErrorTriggerInfo) => void; // Called as soon as an error is accepted
+  onCapture: (_info: ErrorTriggerInfo, _start: number, _end: number) => Promise<void>; // Called once the post-error window has elapsed
+}
+
+/**
+ * Watches for errors and schedules an automatic capture around them
+ * Only one capture runs at a time, and captures are spaced by a cooldown
+ */
+export class ErrorTrigger {
+  private config: ErrorTriggerConfig;
+  private capturing = false;
+  private lastCaptureAt = 0;
+  private captureTimer?: number;
+
+  constructor(config: ErrorTriggerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Cancel a pending capture
+   */
+  public cancel(): void {
+    if (this.captureTimer) {
+      clearTimeout(this.captureTimer);
+      this.captureTimer = undefined;
+    }
+  }
+
+  /**
+   * Report a console.error call
+   */
+  public notifyConsoleError(args: any[]): void {
+    if (this.config.option.console === false) {
+      return;
+    }
+
+    const message = args.map((arg) => this.stringify(arg)).join(' ');
+
+    // Never trigger on the SDK's own logs (e.g. a failed capture upload)
+    if (SDK_LOG_PREFIXES.some((prefix) => message.startsWith(prefix))) {
+      return;
+    }
+
+    this.trigger('console', message);
+  }
+
+  /**
+   * Report an uncaught error or unhandled rejection
+   */
+  public notifyUncaughtError(info: UncaughtErrorInfo): void {
+    if (this.config.option.uncaught === false) {
+      return;
+    }
+
+    const location = info.source ? ` (${info.source}:${info.line}:${info.column})` : '';
+    const prefix = info.kind === 'unhandledrejection' ? 'Unhandled rejection: ' : '';
+    this.trigger('uncaught', `${prefix}${info.message}${location}`);
+  }
+
+  /**
+   * Report a completed network request
+   */
+  public notifyNetworkEntry(entry: HarEntry): void {
+    const { network = true } = this.config.option;
+
+    if (network === false) {
+      return;
+    }
+
+    const failed =
+      typeof network === 'function' ? network(entry) : entry.response.status === 0 || entry.response.status >= 500;
+
+    if (failed) {
+      this.trigger(
+        'network',
+        `${entry.request.method} ${entry.request.url} failed with status ${entry.response.status || 'network error'}`,
+      );
+    }
+  }
+
+  private trigger(type: ErrorTriggerType, message: string): void {
+    const { option } = this.config;
+    const now = Date.now();
+    const cooldown = option.cooldown ?? DEFAULT_TRIGGER_COOLDOWN;
+
+    if (this.capturing || now - this.lastCaptureAt < cooldown) {
+      return;
+    }
+
+    const info: ErrorTriggerInfo = { type, message, timestamp: now };
+
+    if (option.filter && !option.filter(info)) {
+      return;
+    }
+
+    this.capturing = true;
+    this.config.onTrigger?.(info);
+
+    const postErrorWindow = option.postErrorWindow ?? DEFAULT_POST_ERROR_WINDOW;
+    const start = now - (option.preErrorWindow ?? DEFAULT_PRE_ERROR_WINDOW);
+
+    // Keep recording for the post-error window, then capture
+    this.captureTimer = window.setTimeout(async () => {
+      this.captureTimer = undefined;
+
+      try {
+        await this.config.onCapture(info, start, now + postErrorWindow);
+      } catch (error) {
+        console.debug('[Web-Reel] Error-triggered capture failed:', error);
+      } finally {
+        this.capturing = false;
+        this.lastCaptureAt = Date.now();
+      }
+    }, postErrorWindow);
+  }
+
+  private stringify(value: any): string {
+    if (value instanceof Error) {
+      return value.stack || `${value.name}: ${value.message}`;
+    }
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+}
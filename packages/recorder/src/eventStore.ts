@@ -0,0 +1,242 @@
+import { FULL_SNAPSHOT_EVENT_TYPE, META_EVENT_TYPE } from './constants/checkout';
+import { DB_INDEX_KEY, DB_TABLE_NAME, DB_TIME_INDEX_KEY } from './constants/db';
+import type { StorageMetrics, StorageOption } from './types';
+import type { IDB } from './utils/db';
+
+type TableName = (typeof DB_TABLE_NAME)[keyof typeof DB_TABLE_NAME];
+
+type Row = { [key: string]: any };
+
+export interface EventStoreConfig {
+  db: IDB;
+  option?: StorageOption;
+  onStored?: (_tableName: TableName, _key: number, _row: Row) => void; // Called for every row once it is written
+  onWritten?: () => void; // Called after each batch is written
+}
+
+interface QueuedRow {
+  tableName: TableName;
+  data: Row;
+}
+
+// Position of a render event in the bytes written for its session
+interface EventOffset {
+  timestamp: number;
+  offset: number;
+}
+
+// Render event bytes of one session, offsets count every byte written since the store was created
+interface SessionLedger {
+  written: number;
+  evicted: number; // Offset up to which events were evicted
+  checkouts: EventOffset[]; // Starts of the checkouts (Meta + FullSnapshot) after `evicted`, oldest first
+  lastRow?: EventOffset & { type: number };
+}
+
+const DEFAULT_FLUSH_INTERVAL = 1000;
+const DEFAULT_MAX_BATCH_SIZE = 500;
+const DEFAULT_MAX_SESSION_BYTES = 50 * 1024 * 1024;
+
+// Eviction frees space down to this share of the budget, so it does not run on every write
+const EVICTION_TARGET_RATIO = 0.8;
+
+/**
+ * Buffers recorded rows in memory and writes them to IndexedDB in batches
+ * Each session keeps about maxSessionBytes of render events. The oldest events are evicted
+ * through the session/timestamp index, always up to the start of a checkout, so the
+ * remaining events begin with a full snapshot and can be replayed
+ */
+export class EventStore {
+  private db: IDB;
+  private onStored?: EventStoreConfig['onStored'];
+  private onWritten?: EventStoreConfig['onWritten'];
+  private flushInterval: number;
+  private maxBatchSize: number;
+  private maxSessionBytes: number;
+  private queue: QueuedRow[] = [];
+  private timer?: number;
+  private writing: Promise<void> = Promise.resolve();
+  private ledgers = new Map<number, SessionLedger>(); // By session (traceTime)
+  private latencyTotal = 0;
+  private metrics: StorageMetrics = {
+    pendingRows: 0,
+    writes: 0,
+    failedWrites: 0,
+    skippedRows: 0,
+    rowsWritten: 0,
+    bytesWritten: 0,
+    evictedRows: 0,
+    lastWriteLatency: 0,
+    averageWriteLatency: 0,
+    maxWriteLatency: 0,
+  };
+
+  constructor(config: EventStoreConfig) {
+    this.db = config.db;
+    this.onStored = config.onStored;
+    this.onWritten = config.onWritten;
+    this.flushInterval = config.option?.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxBatchSize = config.option?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.maxSessionBytes = config.option?.maxSessionBytes ?? DEFAULT_MAX_SESSION_BYTES;
+  }
+
+  /**
+   * Queue a row, it is written with the next batch
+   */
+  public add(row: Row, tableName: TableName): void {
+    this.queue.push({ tableName, data: row });
+
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = window.setTimeout(() => {
+        this.timer = undefined;
+        this.flush();
+      }, this.flushInterval);
+    }
+  }
+
+  /**
+   * Write all queued rows
+   * Resolves once they (and earlier batches) are stored, call it before reading from IndexedDB
+   */
+  public flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.queue.length > 0) {
+      const batch = this.queue;
+      this.queue = [];
+      // Batches are written one after another so keys keep the recording order
+      this.writing = this.writing.then(() => this.write(batch));
+    }
+
+    return this.writing;
+  }
+
+  /**
+   * Forget the byte count of a session whose rows were deleted outside the store
+   */
+  public resetSession(sessionId?: number): void {
+    if (sessionId === undefined) {
+      this.ledgers.clear();
+    } else {
+      this.ledgers.delete(sessionId);
+    }
+  }
+
+  public getMetrics(): StorageMetrics {
+    return { ...this.metrics, pendingRows: this.queue.length };
+  }
+
+  private async write(batch: QueuedRow[]): Promise<void> {
+    const startedAt = performance.now();
+    let keys: unknown[];
+
+    try {
+      keys = await this.db.bulkAdd(batch);
+    } catch {
+      // Only counted, the console is recorded so logging would queue another row
+      this.metrics.failedWrites++;
+      return;
+    }
+
+    this.recordLatency(performance.now() - startedAt);
+
+    const touchedSessions = new Set<number>();
+    batch.forEach((row, i) => {
+      // Rows IndexedDB could not clone were skipped, only committed rows are accounted
+      const key = keys[i];
+      if (key === undefined) {
+        this.metrics.skippedRows++;
+        return;
+      }
+
+      const size = JSON.stringify(row.data).length;
+      this.metrics.rowsWritten++;
+      this.metrics.bytesWritten += size;
+
+      if (row.tableName === DB_TABLE_NAME.RENDER_EVENT) {
+        const sessionId = row.data[DB_INDEX_KEY];
+        this.recordEvent(sessionId, row.data, size);
+        touchedSessions.add(sessionId);
+      }
+
+      if (this.onStored && typeof key === 'number') {
+        this.onStored(row.tableName, key, row.data);
+      }
+    });
+
+    for (const sessionId of touchedSessions) {
+      const ledger = this.ledgers.get(sessionId)!;
+      if (ledger.written - ledger.evicted > this.maxSessionBytes) {
+        await this.evict(sessionId, ledger);
+      }
+    }
+
+    this.onWritten?.();
+  }
+
+  /**
+   * Account a written render event and remember where checkouts start
+   */
+  private recordEvent(sessionId: number, event: Row, size: number): void {
+    let ledger = this.ledgers.get(sessionId);
+    if (!ledger) {
+      ledger = { written: 0, evicted: 0, checkouts: [] };
+      this.ledgers.set(sessionId, ledger);
+    }
+
+    if (event.type === FULL_SNAPSHOT_EVENT_TYPE) {
+      // rrweb records the Meta event of a checkout right before its snapshot
+      const start = ledger.lastRow?.type === META_EVENT_TYPE ? ledger.lastRow : undefined;
+      ledger.checkouts.push({
+        timestamp: start ? start.timestamp : event.timestamp,
+        offset: start ? start.offset : ledger.written,
+      });
+    }
+
+    ledger.lastRow = { type: event.type, timestamp: event.timestamp, offset: ledger.written };
+    ledger.written += size;
+  }
+
+  /**
+   * Delete the oldest render events of a session, up to the first checkout that fits the budget again
+   * Without such a checkout, events before the most recent one are deleted. When no checkout was
+   * recorded since the last eviction, the session stays over budget until the next one
+   */
+  private async evict(sessionId: number, ledger: SessionLedger): Promise<void> {
+    const target = this.maxSessionBytes * EVICTION_TARGET_RATIO;
+    const candidates = ledger.checkouts.filter((checkout) => checkout.offset > ledger.evicted);
+    const checkout =
+      candidates.find((candidate) => ledger.written - candidate.offset <= target) ?? candidates[candidates.length - 1];
+
+    if (!checkout) {
+      return;
+    }
+
+    try {
+      const evicted = await this.db.deleteDataByIndexRange(
+        DB_TABLE_NAME.RENDER_EVENT,
+        DB_TIME_INDEX_KEY,
+        IDBKeyRange.bound([sessionId, -Infinity], [sessionId, checkout.timestamp], false, true),
+      );
+
+      ledger.evicted = checkout.offset;
+      ledger.checkouts = ledger.checkouts.filter((candidate) => candidate.offset > checkout.offset);
+      this.metrics.evictedRows += evicted;
+    } catch {
+      // Retried after the next write, not logged for the same reason as failed writes
+    }
+  }
+
+  private recordLatency(latency: number): void {
+    this.metrics.writes++;
+    this.latencyTotal += latency;
+    this.metrics.lastWriteLatency = latency;
+    this.metrics.averageWriteLatency = this.latencyTotal / this.metrics.writes;
+    this.metrics.maxWriteLatency = Math.max(this.metrics.maxWriteLatency, latency);
+  }
+}
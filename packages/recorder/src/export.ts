@@ -1,6 +1,10 @@
-import JSZip from 'jszip';
+import { createArchiveBlob, pickLatestSession } from './archive';
+import { RECORDER_VERSION } from './constants';
+import type { ArchiveMetadata } from './types/archive';
+import type { HarEntry, HarFile, HarPage } from './types/har';
+import { encodeCollectionJson, isArchiveWorkerSupported } from './utils/archiveWorker';
 
-import type { HarEntry } from './types/har';
+export type ExportFormat = 'zip' | 'json' | 'har';
 
 export interface RecordCollection {
   [traceTime: string]: {
@@ -11,52 +15,29 @@ export interface RecordCollection {
 
 /**
  * Export session data to ZIP file (recommended)
+ * The most recent session is packed as a versioned archive, see archive.ts
+ * @param useWorker - Serialize and compress in a Web Worker when supported (default: true)
  */
 export async function exportToZip(
   eventDataMap: { [traceTime: string]: any[] },
   responseDataMap: { [traceTime: string]: HarEntry[] },
+  metadata: ArchiveMetadata = {},
+  useWorker: boolean = true,
 ): Promise<void> {
   try {
-    // Combine event data and response data by session
-    const collection: RecordCollection = {};
-
-    Object.keys(eventDataMap).forEach((key) => {
-      collection[key] = {
-        eventData: eventDataMap[key] || [],
-        responseData: responseDataMap[key] || [],
-      };
-    });
-
-    console.log('[Export] Converting to JSON...');
-
-    let json: string;
-    try {
-      json = JSON.stringify(collection, null, 2);
-      const sizeInMB = (new Blob([json]).size / 1024 / 1024).toFixed(2);
-      console.log(`[Export] ✓ JSON created (${sizeInMB} MB)`);
-    } catch (error) {
-      console.error('[Export] ❌ JSON.stringify failed:', error instanceof Error ? error.message : String(error));
-      throw error;
+    const session = pickLatestSession(eventDataMap, responseDataMap);
+    if (!session) {
+      throw new Error('No session data to export');
     }
 
     console.log('[Export] Compressing to ZIP...');
 
-    // Create zip file
-    const zip = new JSZip();
-    zip.file('data.json', json);
-
-    // Generate zip blob
-    const zipBlob = await zip.generateAsync({
-      type: 'blob',
-      compression: 'DEFLATE',
-      compressionOptions: {
-        level: 9, // Maximum compression
-      },
+    const zipBlob = await createArchiveBlob(session.sessionId, session.eventData, session.responseData, metadata, {
+      useWorker,
     });
 
     const zipSizeInMB = (zipBlob.size / 1024 / 1024).toFixed(2);
-    const compressionRatio = ((1 - zipBlob.size / new Blob([json]).size) * 100).toFixed(1);
-    console.log(`[Export] ✓ ZIP created (${zipSizeInMB} MB, ${compressionRatio}% compression)`);
+    console.log(`[Export] ✓ ZIP created (${zipSizeInMB} MB)`);
 
     // Create blob and download
     const url = URL.createObjectURL(zipBlob);
@@ -75,12 +56,32 @@ export async function exportToZip(
   }
 }
 
+/**
+ * Serialize a collection to JSON on the main thread
+ */
+function collectionToJsonBlob(collection: RecordCollection): Blob {
+  let json: string;
+  try {
+    json = JSON.stringify(collection, null, 2);
+  } catch (error) {
+    console.error('[Export] ❌ JSON.stringify failed:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  return new Blob([json], {
+    type: 'application/json;charset=utf-8',
+  });
+}
+
 /**
  * Export session data to JSON file (legacy support)
+ * In the worker the JSON is written compactly, item by item, instead of pretty-printed
+ * @param useWorker - Serialize in a Web Worker when supported (default: true)
  */
 export async function exportToJson(
   eventDataMap: { [traceTime: string]: any[] },
   responseDataMap: { [traceTime: string]: HarEntry[] },
+  useWorker: boolean = true,
 ): Promise<void> {
   try {
     // Combine event data and response data by session
@@ -95,25 +96,118 @@ export async function exportToJson(
 
     console.log('[Export] Converting to JSON...');
 
-    let json: string;
-    try {
-      json = JSON.stringify(collection, null, 2);
-      const sizeInMB = (new Blob([json]).size / 1024 / 1024).toFixed(2);
-      console.log(`[Export] ✓ JSON created (${sizeInMB} MB)`);
-    } catch (error) {
-      console.error('[Export] ❌ JSON.stringify failed:', error instanceof Error ? error.message : String(error));
-      throw error;
+    let blob: Blob | null = null;
+    if (useWorker && isArchiveWorkerSupported()) {
+      blob = await encodeCollectionJson(collection).catch((error) => {
+        console.debug('[Export] JSON worker unavailable, serializing on the main thread:', error);
+        return null;
+      });
     }
+    blob = blob || collectionToJsonBlob(collection);
 
-    // Create blob and download
-    const blob = new Blob([json], {
+    const sizeInMB = (blob.size / 1024 / 1024).toFixed(2);
+    console.log(`[Export] ✓ JSON created (${sizeInMB} MB)`);
+
+    // Download
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `record-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    console.log('[Export] ✅ Export completed');
+  } catch (error) {
+    console.error('[Export] ❌ Export failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build HAR pages from the url-change events on the rrweb timeline
+ * Falls back to the first Meta event when no URL change was recorded
+ */
+function buildHarPages(eventData: any[]): HarPage[] {
+  const visits: { url: string; timestamp: number }[] = [];
+
+  eventData.forEach((event) => {
+    if (event?.type === 5 && event.data?.tag === 'url-change' && event.data.payload?.url) {
+      visits.push({ url: event.data.payload.url, timestamp: event.timestamp });
+    }
+  });
+
+  if (visits.length === 0) {
+    const meta = eventData.find((event) => event?.type === 4 && event.data?.href);
+    if (meta) {
+      visits.push({ url: meta.data.href, timestamp: meta.timestamp });
+    }
+  }
+
+  return visits
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((visit, index) => ({
+      startedDateTime: new Date(visit.timestamp).toISOString(),
+      id: `page_${index + 1}`,
+      title: visit.url,
+      pageTimings: { onContentLoad: -1, onLoad: -1 },
+    }));
+}
+
+/**
+ * Build a HAR 1.2 log from a session's events and network entries
+ * Each entry references the page that was open when the request started
+ */
+export function buildHarLog(eventData: any[], responseData: HarEntry[]): HarFile {
+  const pages = buildHarPages(eventData);
+  const pageStarts = pages.map((page) => Date.parse(page.startedDateTime));
+
+  const entries = [...responseData]
+    .sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime))
+    .map((entry) => {
+      const startedAt = Date.parse(entry.startedDateTime);
+      let pageIndex = 0;
+      pageStarts.forEach((pageStart, index) => {
+        if (pageStart <= startedAt) pageIndex = index;
+      });
+
+      return pages.length > 0 ? { ...entry, pageref: pages[pageIndex]!.id } : entry;
+    });
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Web Reel Recorder', version: RECORDER_VERSION },
+      pages,
+      entries,
+    },
+  };
+}
+
+/**
+ * Export the network traffic of the sessions as a HAR 1.2 file
+ * The file opens in Chrome DevTools, Charles and other HAR viewers
+ */
+export async function exportToHar(
+  eventDataMap: { [traceTime: string]: any[] },
+  responseDataMap: { [traceTime: string]: HarEntry[] },
+): Promise<void> {
+  try {
+    const eventData = Object.values(eventDataMap).flat();
+    const responseData = Object.values(responseDataMap).flat();
+
+    const har = buildHarLog(eventData, responseData);
+    console.log(`[Export] ✓ HAR created (${har.log.entries.length} entries, ${har.log.pages?.length || 0} pages)`);
+
+    const blob = new Blob([JSON.stringify(har, null, 2)], {
       type: 'application/json;charset=utf-8',
     });
 
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `record-${Date.now()}.json`;
+    link.download = `record-${Date.now()}.har`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -130,16 +224,22 @@ export async function exportToJson(
  * Export session data to file (defaults to ZIP)
  * @param eventDataMap - Event data map
  * @param responseDataMap - Response data map
- * @param format - Export format ('zip' or 'json'), defaults to 'zip'
+ * @param format - Export format ('zip', 'json' or 'har'), defaults to 'zip'
+ * @param metadata - Session metadata written to the ZIP archive manifest
+ * @param useWorker - Serialize and compress in a Web Worker when supported (default: true)
  */
 export async function exportToFile(
   eventDataMap: { [traceTime: string]: any[] },
   responseDataMap: { [traceTime: string]: HarEntry[] },
-  format: 'zip' | 'json' = 'zip',
+  format: ExportFormat = 'zip',
+  metadata: ArchiveMetadata = {},
+  useWorker: boolean = true,
 ): Promise<void> {
   if (format === 'json') {
-    return exportToJson(eventDataMap, responseDataMap);
+    return exportToJson(eventDataMap, responseDataMap, useWorker);
+  } else if (format === 'har') {
+    return exportToHar(eventDataMap, responseDataMap);
   } else {
-    return exportToZip(eventDataMap, responseDataMap);
+    return exportToZip(eventDataMap, responseDataMap, metadata, useWorker);
   }
 }
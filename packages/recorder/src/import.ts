@@ -1,13 +1,16 @@
 import JSZip from 'jszip';
 
+import { archiveToCollection, readArchive } from './archive';
 import type { RecordCollection } from './export';
+import type { SessionArchive } from './types/archive';
 
 /**
- * Import session data from a zip file
+ * Import a session archive with its manifest
+ * Archives written by older recorders are migrated to the current format
  * @param file - The zip file to import
- * @returns The imported record collection
+ * @returns The validated archive
  */
-export async function importFromZip(file: File): Promise<RecordCollection> {
+export async function importArchive(file: File): Promise<SessionArchive> {
   try {
     console.log('[Import] Starting import from zip file...');
 
@@ -15,23 +18,29 @@ export async function importFromZip(file: File): Promise<RecordCollection> {
     const zip = new JSZip();
     const zipContent = await zip.loadAsync(file);
 
-    // Find and read the JSON file inside the zip
-    const jsonFile = zipContent.file('data.json');
-    if (!jsonFile) {
-      throw new Error('Invalid zip file: data.json not found');
-    }
+    const archive = await readArchive(zipContent);
 
-    const jsonText = await jsonFile.async('string');
-    const collection: RecordCollection = JSON.parse(jsonText);
+    if (archive.manifest.migratedFrom) {
+      console.log(`[Import] Migrated archive from format version ${archive.manifest.migratedFrom}`);
+    }
 
     console.log('[Import] ✅ Import completed');
-    return collection;
+    return archive;
   } catch (error) {
     console.error('[Import] ❌ Import failed:', error);
     throw error;
   }
 }
 
+/**
+ * Import session data from a zip file
+ * @param file - The zip file to import
+ * @returns The imported record collection
+ */
+export async function importFromZip(file: File): Promise<RecordCollection> {
+  return archiveToCollection(await importArchive(file));
+}
+
 /**
  * Import session data from a JSON file (legacy support)
  * @param file - The JSON file to import
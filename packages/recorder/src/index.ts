@@ -8,36 +8,136 @@ export { WebReelRecorder } from './core';
 export type { RecorderConfig } from './core';
 
 // Export and import utilities
-export { exportToFile, exportToZip, exportToJson } from './export';
-export type { RecordCollection } from './export';
-export { importFromFile, importFromZip, importFromJson } from './import';
+export { buildHarLog, exportToFile, exportToHar, exportToZip, exportToJson } from './export';
+export type { ExportFormat, RecordCollection } from './export';
+export { importArchive, importFromFile, importFromZip, importFromJson } from './import';
+export {
+  archiveToCollection,
+  createArchiveBlob,
+  createArchiveZip,
+  migrateLegacyCollection,
+  readArchive,
+  validateArchiveManifest,
+} from './archive';
+export type { ArchiveBlobOptions } from './archive';
+export type { ArchiveFileInfo, ArchiveManifest, ArchiveMetadata, SessionArchive } from './types/archive';
 
 // Upload utilities
 export { uploadSession } from './upload';
 export type { UploadOptions, UploadResponse } from './upload';
+export { SegmentUploader } from './segmentUpload';
+export type { SegmentUploaderOptions, SegmentResponse, CompleteResponse } from './segmentUpload';
+export { AutoUploader } from './autoUpload';
+export { EventStore } from './eventStore';
+export type { EventStoreConfig } from './eventStore';
+export { ErrorTrigger } from './errorTrigger';
+export type { ErrorTriggerConfig } from './errorTrigger';
+export { TabSession } from './tabSession';
+export type { TabSessionConfig } from './tabSession';
+export { PageSession } from './pageSession';
+export type { PageSessionConfig } from './pageSession';
 
 // Network interceptor
-export { NetworkInterceptor, URLInterceptor } from './interceptors';
-export type { InterceptorConfig as NetworkInterceptorConfig, URLChangeHandler } from './interceptors';
-export type { HarEntry } from './types/har';
+export {
+  ErrorInterceptor,
+  FrameInterceptor,
+  NetworkInterceptor,
+  ResourceTimingInterceptor,
+  URLInterceptor,
+} from './interceptors';
+export type {
+  FrameHandler,
+  InterceptorConfig as NetworkInterceptorConfig,
+  ResourceTimingHandler,
+  UncaughtErrorHandler,
+  URLChangeHandler,
+} from './interceptors';
+export type { HarEntry, HarFile, HarPage } from './types/har';
 
 // Entry button UI (optional)
 export { EntryButton } from './ui';
 
 // Types
-export type { RecorderOption, SessionLogPayload, UserInfo, EnvStat } from './types';
+export type {
+  RecorderOption,
+  SessionLogPayload,
+  UserInfo,
+  EnvStat,
+  RedactionOption,
+  RedactionRule,
+  UrlRedactionPolicy,
+  PrivacyOption,
+  PrivacySummary,
+  MaskInputType,
+  ChunkedUploadOption,
+  AutoUploadOption,
+  ErrorTriggerOption,
+  ErrorTriggerInfo,
+  ErrorTriggerType,
+  UncaughtErrorInfo,
+  SegmentUploadState,
+  StorageOption,
+  StorageMetrics,
+  CompressionOption,
+  MultiTabOption,
+  TabActivity,
+  TabStreamInfo,
+  TabSessionEntry,
+  PageSessionOption,
+  PageSessionEntry,
+  PageLoadInfo,
+} from './types';
 
 export { ErrNoType, UploadFlag } from './types';
 
 // Constants
 export { DB_TABLE_NAME, DB_INDEX_KEY, DB_NAME } from './constants/db';
-export { UNKNOWN_DEVICE_ID, LOCAL_UPLOADING_FLAG, UPLOADING_SESSION_ID } from './constants/session';
+export {
+  UNKNOWN_DEVICE_ID,
+  LOCAL_UPLOADING_FLAG,
+  UPLOADING_SESSION_ID,
+  SEGMENT_UPLOAD_STATE_PREFIX,
+  TAB_SESSIONS,
+  PAGE_SESSION,
+} from './constants/session';
+export {
+  BUILTIN_REDACTION_RULES,
+  DEFAULT_REDACTED_HEADERS,
+  DEFAULT_REDACTION_REPLACEMENT,
+} from './constants/redaction';
+export {
+  ARCHIVE_FORMAT,
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_MANIFEST_FILE,
+  ARCHIVE_EVENTS_FILE,
+  ARCHIVE_NETWORK_FILE,
+  LEGACY_ARCHIVE_FILE,
+} from './constants/archive';
+export { PRIVACY_EVENT_TAG } from './constants/privacy';
+export { ERROR_TRIGGER_EVENT_TAG } from './constants/trigger';
+export { UNCAUGHT_ERROR_EVENT_TAG } from './constants/errors';
+export { TAB_ACTIVITY_EVENT_TAG } from './constants/tabs';
+export { PAGE_LOAD_EVENT_TAG } from './constants/pages';
 
 // Utilities (advanced usage)
 export { IDB } from './utils/db';
 export { compatibilityJudge } from './utils/browser';
+export { redactHarEntry } from './utils/redaction';
+export { sliceCaptureWindow } from './utils/capture';
+export { mergeTabStreams } from './utils/tabs';
+export type { TabStreamData } from './utils/tabs';
 export { initDB, cleanOldData, getRenderEventSize, getResponseDataSize } from './utils/dbHelper';
-export { getUploadingSessionId, setUploadingSessionId, clearUploadingSessionId } from './utils/session';
+export {
+  getUploadingSessionId,
+  setUploadingSessionId,
+  clearUploadingSessionId,
+  getSegmentUploadState,
+  setSegmentUploadState,
+  clearSegmentUploadState,
+  getSegmentUploadSessionIds,
+  getTabSessions,
+  getPageSession,
+} from './utils/session';
 
 // API services (if backend integration is needed)
 export { uploadPvStat, uploadEnvStat, getUploadLogFlag, setUploadLogFlag, uploadSessionLog } from './services/api';
@@ -0,0 +1,117 @@
+/**
+ * Uncaught error interceptor
+ * Records window errors and unhandled promise rejections
+ */
+
+import { MAX_STACK_LINES } from '../constants/errors';
+import type { UncaughtErrorInfo } from '../types';
+
+export interface UncaughtErrorHandler {
+  onError: (_info: UncaughtErrorInfo) => void;
+}
+
+/**
+ * Limit a stack trace to MAX_STACK_LINES lines
+ */
+function trimStack(stack?: string): string | undefined {
+  return stack?.split('\n').slice(0, MAX_STACK_LINES).join('\n');
+}
+
+/**
+ * Describe a rejection reason that is not an Error
+ */
+function describeReason(reason: any): string {
+  if (typeof reason === 'string') {
+    return reason;
+  }
+
+  try {
+    return JSON.stringify(reason) ?? String(reason);
+  } catch {
+    return String(reason);
+  }
+}
+
+/**
+ * The value as an Error, if it is one
+ * Errors thrown in an iframe belong to its realm, which instanceof Error does not recognize
+ */
+function asError(value: any): Error | undefined {
+  if (value instanceof Error) {
+    return value;
+  }
+
+  return typeof value?.name === 'string' && typeof value?.message === 'string' && 'stack' in value ? value : undefined;
+}
+
+export class ErrorInterceptor {
+  private handler: UncaughtErrorHandler;
+  private target: Window;
+  private isInstalled: boolean = false;
+
+  /**
+   * @param target - Window to listen on, a same-origin iframe's window records the errors inside it
+   */
+  constructor(handler: UncaughtErrorHandler, target: Window = window) {
+    this.handler = handler;
+    this.target = target;
+  }
+
+  /**
+   * Install error listeners
+   */
+  public install(): void {
+    if (this.isInstalled) {
+      console.warn('[ErrorInterceptor] Already installed');
+      return;
+    }
+
+    this.target.addEventListener('error', this.handleError);
+    this.target.addEventListener('unhandledrejection', this.handleRejection);
+
+    this.isInstalled = true;
+  }
+
+  /**
+   * Uninstall error listeners
+   */
+  public uninstall(): void {
+    if (!this.isInstalled) {
+      return;
+    }
+
+    this.target.removeEventListener('error', this.handleError);
+    this.target.removeEventListener('unhandledrejection', this.handleRejection);
+
+    this.isInstalled = false;
+  }
+
+  private handleError = (event: ErrorEvent): void => {
+    // Resource loading errors (img, script) bubble without a message
+    if (!event.message && !event.error) {
+      return;
+    }
+
+    const error = asError(event.error);
+
+    this.handler.onError({
+      kind: 'error',
+      message: event.message || (error ? `${error.name}: ${error.message}` : 'Unknown error'),
+      source: event.filename || undefined,
+      line: event.lineno || undefined,
+      column: event.colno || undefined,
+      stack: trimStack(error?.stack),
+    });
+  };
+
+  private handleRejection = (event: PromiseRejectionEvent): void => {
+    const reason = event.reason;
+    const error = asError(reason);
+
+    this.handler.onError({
+      kind: 'unhandledrejection',
+      message: error ? `${error.name}: ${error.message}` : describeReason(reason),
+      stack: trimStack(error?.stack),
+    });
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Same-origin iframe interceptor
+ * rrweb records the DOM of same-origin iframes on its own, this hands out their windows
+ * so console output and errors inside them are recorded as well
+ * Cross-origin iframes cannot be accessed and are skipped
+ */
+
+export interface FrameHandler {
+  // Called for every document loaded in a same-origin iframe, returns a cleanup run when it is replaced
+  onFrame: (_frameWindow: Window, _iframe: HTMLIFrameElement) => (() => void) | void;
+}
+
+export class FrameInterceptor {
+  private handler: FrameHandler;
+  private observer?: MutationObserver;
+  private frames = new Map<HTMLIFrameElement, { frameWindow: Window; cleanup?: () => void }>();
+  private isInstalled: boolean = false;
+
+  constructor(handler: FrameHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * Watch the iframes of the document, including those added later
+   */
+  public install(): void {
+    if (this.isInstalled) {
+      console.warn('[FrameInterceptor] Already installed');
+      return;
+    }
+
+    document.querySelectorAll('iframe').forEach((iframe) => this.watch(iframe));
+
+    this.observer = new MutationObserver((mutations) => {
+      mutations.forEach((mutation) => {
+        mutation.addedNodes.forEach((node) => {
+          if (node instanceof HTMLIFrameElement) {
+            this.watch(node);
+          } else if (node instanceof Element) {
+            node.querySelectorAll('iframe').forEach((iframe) => this.watch(iframe));
+          }
+        });
+      });
+    });
+    this.observer.observe(document.documentElement, { childList: true, subtree: true });
+
+    this.isInstalled = true;
+  }
+
+  /**
+   * Stop watching and run the cleanups of all attached frames
+   */
+  public uninstall(): void {
+    if (!this.isInstalled) {
+      return;
+    }
+
+    this.observer?.disconnect();
+    this.observer = undefined;
+
+    this.frames.forEach(({ cleanup }, iframe) => {
+      iframe.removeEventListener('load', this.handleLoad);
+      cleanup?.();
+    });
+    this.frames.clear();
+
+    this.isInstalled = false;
+  }
+
+  private watch(iframe: HTMLIFrameElement): void {
+    if (this.frames.has(iframe)) {
+      return;
+    }
+
+    iframe.addEventListener('load', this.handleLoad);
+    this.attach(iframe);
+  }
+
+  private handleLoad = (event: Event): void => {
+    this.attach(event.currentTarget as HTMLIFrameElement);
+  };
+
+  /**
+   * Hand the iframe's current window to the handler, once per loaded document
+   */
+  private attach(iframe: HTMLIFrameElement): void {
+    let frameWindow: Window | null;
+    try {
+      frameWindow = iframe.contentWindow;
+      // Throws for cross-origin frames
+      if (!frameWindow || !frameWindow.document) return;
+    } catch {
+      return;
+    }
+
+    const previous = this.frames.get(iframe);
+    if (previous?.frameWindow === frameWindow) {
+      return;
+    }
+
+    previous?.cleanup?.();
+    this.frames.set(iframe, { frameWindow, cleanup: this.handler.onFrame(frameWindow, iframe) || undefined });
+  }
+}
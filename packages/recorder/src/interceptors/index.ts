@@ -1,6 +1,7 @@
 import type { HarEntry } from '../types/har';
 
 import { installFetchInterceptor } from './fetch';
+import { ResourceTimingInterceptor } from './resource';
 import { installXhrInterceptor } from './xhr';
 
 export interface InterceptorConfig {
@@ -10,6 +11,8 @@ export interface InterceptorConfig {
   onRequestComplete?: (_entry: HarEntry) => void;
   // Filter function to ignore certain URLs
   shouldIgnore?: (_url: string) => boolean;
+  // Add Resource Timing details and record non-XHR resources (default: true)
+  resourceTiming?: boolean;
 }
 
 /**
@@ -19,6 +22,7 @@ export class NetworkInterceptor {
   private config: InterceptorConfig;
   private uninstallXhr?: () => void;
   private uninstallFetch?: () => void;
+  private resourceTiming?: ResourceTimingInterceptor;
   private isInstalled = false;
 
   constructor(config: InterceptorConfig) {
@@ -44,18 +48,8 @@ export class NetworkInterceptor {
         }
         this.config.onRequestStart?.(data.url, data.startTime);
       },
-      onResponse: (entry) => {
-        if (this.shouldIgnoreUrl(entry.request.url)) {
-          return;
-        }
-        this.config.onRequestComplete?.(entry);
-      },
-      onError: (entry) => {
-        if (this.shouldIgnoreUrl(entry.request.url)) {
-          return;
-        }
-        this.config.onRequestComplete?.(entry);
-      },
+      onResponse: (entry) => this.completeRequest(entry),
+      onError: (entry) => this.completeRequest(entry),
     });
 
     // Install Fetch interceptor
@@ -66,20 +60,23 @@ export class NetworkInterceptor {
         }
         this.config.onRequestStart?.(data.url, data.startTime);
       },
-      onRequestSuccess: (entry) => {
-        if (this.shouldIgnoreUrl(entry.request.url)) {
-          return;
-        }
-        this.config.onRequestComplete?.(entry);
-      },
-      onRequestFailure: (entry) => {
-        if (this.shouldIgnoreUrl(entry.request.url)) {
-          return;
-        }
-        this.config.onRequestComplete?.(entry);
-      },
+      onRequestSuccess: (entry) => this.completeRequest(entry),
+      onRequestFailure: (entry) => this.completeRequest(entry),
     });
 
+    // Observe resource timing for request details and non-XHR resources
+    if (this.config.resourceTiming !== false) {
+      this.resourceTiming = new ResourceTimingInterceptor({
+        onResource: (entry) => {
+          if (this.shouldIgnoreUrl(entry.request.url)) {
+            return;
+          }
+          this.config.onRequestComplete?.(entry);
+        },
+      });
+      this.resourceTiming.install();
+    }
+
     this.isInstalled = true;
     console.log('[NetworkInterceptor] Interceptors installed successfully');
   }
@@ -98,13 +95,36 @@ export class NetworkInterceptor {
     this.uninstallXhr?.();
     this.uninstallFetch?.();
 
+    this.resourceTiming?.uninstall();
+
     this.uninstallXhr = undefined;
     this.uninstallFetch = undefined;
+    this.resourceTiming = undefined;
     this.isInstalled = false;
 
     console.log('[NetworkInterceptor] Interceptors uninstalled successfully');
   }
 
+  /**
+   * Report a finished XHR/fetch request
+   * The resource timing entry is queued after the response ends, so matching waits a task
+   */
+  private completeRequest(entry: HarEntry): void {
+    if (this.shouldIgnoreUrl(entry.request.url)) {
+      return;
+    }
+
+    const resourceTiming = this.resourceTiming;
+    if (!resourceTiming) {
+      this.config.onRequestComplete?.(entry);
+      return;
+    }
+
+    setTimeout(() => {
+      this.config.onRequestComplete?.(resourceTiming.enrich(entry));
+    }, 0);
+  }
+
   /**
    * Check if a URL should be ignored
    */
@@ -127,5 +147,17 @@ export class NetworkInterceptor {
 export { URLInterceptor } from './url';
 export type { URLChangeHandler } from './url';
 
+// Export resource timing interceptor
+export { ResourceTimingInterceptor } from './resource';
+export type { ResourceTimingHandler } from './resource';
+
+// Export uncaught error interceptor
+export { ErrorInterceptor } from './error';
+export type { UncaughtErrorHandler } from './error';
+
+// Export same-origin iframe interceptor
+export { FrameInterceptor } from './frame';
+export type { FrameHandler } from './frame';
+
 // Export types
 export type { HarEntry };
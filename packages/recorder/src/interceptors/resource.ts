@@ -0,0 +1,136 @@
+/**
+ * Resource timing interceptor
+ * Matches intercepted XHR/fetch requests with their PerformanceResourceTiming entry
+ * and reports resources loaded without XHR or fetch (scripts, images, stylesheets...)
+ */
+
+import type { HarEntry } from '../types/har';
+import { applyResourceTiming, createResourceHarEntry, getResourceStartTime } from '../utils/resourceTiming';
+
+export interface ResourceTimingHandler {
+  onResource: (_entry: HarEntry) => void;
+}
+
+// Requests already captured by the XHR and fetch interceptors
+const INTERCEPTED_INITIATORS = ['xmlhttprequest', 'fetch'];
+
+// Timings waiting to be matched with an intercepted request
+const MAX_PENDING_TIMINGS = 200;
+
+// Maximum gap between the interceptor's start time and the browser's, in ms
+const MATCH_TOLERANCE = 100;
+
+/**
+ * Resolve a request URL the way the browser names its resource timing entry
+ */
+function toAbsoluteUrl(url: string): string {
+  try {
+    return new URL(url, window.location.href).href;
+  } catch {
+    return url;
+  }
+}
+
+export class ResourceTimingInterceptor {
+  private handler: ResourceTimingHandler;
+  private observer?: PerformanceObserver;
+  private pending: PerformanceResourceTiming[] = [];
+  private isInstalled: boolean = false;
+
+  constructor(handler: ResourceTimingHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * Start observing resource timing entries, including those buffered before install
+   */
+  public install(): void {
+    if (this.isInstalled) {
+      console.warn('[ResourceTimingInterceptor] Already installed');
+      return;
+    }
+
+    if (typeof PerformanceObserver === 'undefined') {
+      return;
+    }
+
+    try {
+      this.observer = new PerformanceObserver((list) => {
+        this.handleTimings(list.getEntries() as PerformanceResourceTiming[]);
+      });
+      this.observer.observe({ type: 'resource', buffered: true });
+      this.isInstalled = true;
+    } catch (error) {
+      console.debug('[ResourceTimingInterceptor] Resource timing is not supported:', error);
+      this.observer = undefined;
+    }
+  }
+
+  /**
+   * Stop observing and drop unmatched timings
+   */
+  public uninstall(): void {
+    if (!this.isInstalled) {
+      return;
+    }
+
+    this.observer?.disconnect();
+    this.observer = undefined;
+    this.pending = [];
+    this.isInstalled = false;
+  }
+
+  /**
+   * Fill an intercepted request with timings, sizes and protocol from its resource timing entry
+   * @returns The enriched entry, or the entry unchanged when no timing matches
+   */
+  public enrich(entry: HarEntry): HarEntry {
+    if (!this.observer) {
+      return entry;
+    }
+
+    // Pick up timings the observer has not delivered yet
+    this.handleTimings(this.observer.takeRecords() as PerformanceResourceTiming[]);
+
+    const url = toAbsoluteUrl(entry.request.url);
+    const startTime = Date.parse(entry.startedDateTime);
+    let bestIndex = -1;
+    let bestGap = MATCH_TOLERANCE;
+
+    this.pending.forEach((timing, index) => {
+      if (timing.name !== url) return;
+
+      const gap = Math.abs(getResourceStartTime(timing) - startTime);
+      if (gap <= bestGap) {
+        bestIndex = index;
+        bestGap = gap;
+      }
+    });
+
+    if (bestIndex === -1) {
+      return entry;
+    }
+
+    const [timing] = this.pending.splice(bestIndex, 1);
+    return applyResourceTiming(entry, timing!);
+  }
+
+  private handleTimings(timings: PerformanceResourceTiming[]): void {
+    timings.forEach((timing) => {
+      if (INTERCEPTED_INITIATORS.includes(timing.initiatorType)) {
+        this.pending.push(timing);
+        return;
+      }
+
+      try {
+        this.handler.onResource(createResourceHarEntry(timing));
+      } catch (error) {
+        console.debug('[ResourceTimingInterceptor] Failed to record resource:', error);
+      }
+    });
+
+    if (this.pending.length > MAX_PENDING_TIMINGS) {
+      this.pending.splice(0, this.pending.length - MAX_PENDING_TIMINGS);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { DEFAULT_PAGE_SESSION_IDLE_TIMEOUT } from './constants/pages';
+import type { PageLoadInfo, PageSessionEntry, PageSessionOption } from './types';
+import { getPageSession, setPageSession } from './utils/session';
+import { createTabId } from './utils/tabs';
+
+export interface PageSessionConfig {
+  streamId: number; // Local session (traceTime) this page records into
+  option?: PageSessionOption;
+  onRestore?: () => void; // Called when the page is shown again from the back/forward cache
+}
+
+/**
+ * How the current page was loaded
+ */
+function getNavigationType(): PageLoadInfo['navigationType'] {
+  const [entry] = performance.getEntriesByType?.('navigation') ?? [];
+  return (entry as PerformanceNavigationTiming | undefined)?.type ?? 'navigate';
+}
+
+/**
+ * Continues the session of a tab across page reloads and navigations
+ * Each page load records into its own local session (a page), the tab's sessionStorage lists them so
+ * exports and uploads cover the whole visit. A page loaded more than idleTimeout after the previous
+ * one was left starts a new session
+ */
+export class PageSession {
+  private config: PageSessionConfig;
+  private idleTimeout: number;
+  private entry: PageSessionEntry;
+  private navigationType: PageLoadInfo['navigationType'];
+
+  constructor(config: PageSessionConfig) {
+    this.config = config;
+    this.idleTimeout = config.option?.idleTimeout ?? DEFAULT_PAGE_SESSION_IDLE_TIMEOUT;
+    this.navigationType = getNavigationType();
+    this.entry = this.resume();
+    this.save();
+  }
+
+  /**
+   * Start tracking when the page is left or restored
+   */
+  public start(): void {
+    window.addEventListener('pagehide', this.handlePageHide);
+    window.addEventListener('pageshow', this.handlePageShow);
+  }
+
+  public stop(): void {
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('pageshow', this.handlePageShow);
+  }
+
+  /**
+   * Page session ID, the local session ID of its first page
+   */
+  public getSessionId(): number {
+    return this.entry.sessionId;
+  }
+
+  public getTabId(): string {
+    return this.entry.tabId;
+  }
+
+  /**
+   * Local sessions of the pages loaded in this session, in load order
+   */
+  public getPages(): number[] {
+    return [...this.entry.pages];
+  }
+
+  /**
+   * Shared session of the user's tabs that the previous pages joined
+   */
+  public getSharedSessionId(): number | undefined {
+    return this.entry.sharedSessionId;
+  }
+
+  public setSharedSessionId(sessionId: number): void {
+    this.entry.sharedSessionId = sessionId;
+    this.save();
+  }
+
+  /**
+   * Page boundary recorded at the start of the page
+   */
+  public getPageLoad(): PageLoadInfo {
+    return {
+      sessionId: this.entry.sessionId,
+      tabId: this.entry.tabId,
+      streamId: this.config.streamId,
+      index: this.entry.pages.indexOf(this.config.streamId),
+      url: window.location.href,
+      navigationType: this.navigationType,
+    };
+  }
+
+  /**
+   * Continue the session of the previous page, or start one when it was left too long ago
+   * A session still marked live belongs to another tab, its sessionStorage was copied into this one
+   */
+  private resume(): PageSessionEntry {
+    const now = Date.now();
+    const previous = this.load();
+
+    if (previous && !previous.live && now - previous.lastActive <= this.idleTimeout) {
+      return { ...previous, pages: [...previous.pages, this.config.streamId], lastActive: now, live: true };
+    }
+
+    return {
+      sessionId: this.config.streamId,
+      tabId: createTabId(),
+      pages: [this.config.streamId],
+      lastActive: now,
+      live: true,
+    };
+  }
+
+  private load(): PageSessionEntry | null {
+    try {
+      return getPageSession();
+    } catch {
+      // Storage blocked (sandboxed iframe, privacy mode), the page starts its own session
+      return null;
+    }
+  }
+
+  private save(): void {
+    try {
+      setPageSession(this.entry);
+    } catch {
+      // Storage full or unavailable, the next page starts its own session
+    }
+  }
+
+  private handlePageHide = (): void => {
+    this.entry.lastActive = Date.now();
+    this.entry.live = false;
+    this.save();
+  };
+
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted) {
+      return;
+    }
+
+    // Pages loaded meanwhile were added to the stored session
+    const stored = this.load();
+    if (stored?.sessionId === this.entry.sessionId) {
+      this.entry = stored;
+    }
+
+    this.entry.lastActive = Date.now();
+    this.entry.live = true;
+    this.navigationType = 'back_forward';
+    this.save();
+
+    this.config.onRestore?.();
+  };
+}
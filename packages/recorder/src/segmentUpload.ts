@@ -0,0 +1,587 @@
+import { createArchiveBlob } from './archive';
+import { DB_INDEX_KEY, DB_TABLE_NAME } from './constants/db';
+import type { RecordCollection } from './export';
+import type { SegmentUploadState, TabStreamInfo } from './types';
+import type { HarEntry } from './types/har';
+import type { UploadResponse } from './upload';
+import type { IDB } from './utils/db';
+import { clearSegmentUploadState, getSegmentUploadState, setSegmentUploadState } from './utils/session';
+
+export interface SegmentUploaderOptions {
+  endpoint: string; // Sessions endpoint, e.g. '/api/sessions'
+  headers?: Record<string, string>;
+  platform?: string;
+  deviceId?: string;
+  jiraId?: string;
+  projectName?: string; // Written to the archive manifest of each segment
+  appId?: number; // Written to the archive manifest of each segment
+  maxSegmentEvents?: number; // Maximum render events per segment (default: 2000)
+  maxSegmentResponses?: number; // Maximum network entries per segment (default: 500)
+  useWorker?: boolean; // Serialize and compress segments in a Web Worker when supported (default: true)
+  getStreams?: () => TabStreamInfo[]; // Local sessions (tabs and page loads) uploaded together (default: the session itself)
+}
+
+export interface SegmentResponse {
+  success: boolean;
+  segment?: {
+    seq: number;
+    file_size: number;
+    created_at: string;
+  };
+  error?: string;
+}
+
+export interface CompleteResponse {
+  success: boolean;
+  session?: {
+    id: number;
+    file_size: number;
+    segment_count: number;
+    upload_status: 'open' | 'complete';
+  };
+  error?: string;
+}
+
+type TableName = (typeof DB_TABLE_NAME)[keyof typeof DB_TABLE_NAME];
+
+interface TailEntry {
+  key: number;
+  value: any;
+}
+
+// A full segment compressed ahead of its upload, valid while the acknowledged keys match its start
+interface PreparedSegment {
+  afterEventKey: number;
+  afterResponseKey: number;
+  lastEventKey: number;
+  lastResponseKey: number;
+  blob: Blob;
+}
+
+const DEFAULT_MAX_SEGMENT_EVENTS = 2000;
+const DEFAULT_MAX_SEGMENT_RESPONSES = 500;
+
+// Rows kept in memory for the unload beacon, beyond this the tail is left for the next page load
+const MAX_TAIL_ROWS = 1000;
+
+// Browsers reject beacon payloads above ~64KB
+const MAX_BEACON_SIZE = 60 * 1024;
+
+// Per-segment limit enforced by the server
+const MAX_SEGMENT_SIZE = 20 * 1024 * 1024;
+
+// Web Lock held by the tab uploading a session
+const UPLOAD_LOCK_PREFIX = 'web-reel-upload-';
+
+/**
+ * Tag a row with the tab that recorded it, as mergeTabStreams does for single-file uploads
+ */
+function tagRow(tableName: TableName, value: any, tabId: string): any {
+  if (!tabId) {
+    return value;
+  }
+
+  return tableName === DB_TABLE_NAME.RENDER_EVENT ? { ...value, tabId } : { ...value, _tabId: tabId };
+}
+
+/**
+ * Uploads one local recording session as a sequence of ZIP segments
+ * Progress is persisted in localStorage, so an interrupted upload resumes
+ * from the last acknowledged segment instead of starting over.
+ * A session continued across page loads or shared by several tabs uploads the rows of all its streams,
+ * tagged with their tab like a single-file upload. IndexedDB keys grow across streams, so the acknowledged
+ * keys cover every stream. Tabs of a shared session share the progress, flushes hold a Web Lock
+ * so only one tab uploads at a time
+ */
+export class SegmentUploader {
+  private db: IDB;
+  private sessionId: number; // Local session ID (traceTime), the shared session ID for a multi-tab or page session
+  private options: SegmentUploaderOptions;
+  private state: SegmentUploadState | null;
+  private flushing?: Promise<number>;
+  private preparing?: Promise<void>;
+  private prepared: PreparedSegment[] = [];
+  private tail: { events: TailEntry[]; responses: TailEntry[] } = { events: [], responses: [] };
+  private tailOverflow = false;
+
+  constructor(db: IDB, sessionId: number, options: SegmentUploaderOptions) {
+    this.db = db;
+    this.sessionId = sessionId;
+    this.options = options;
+    this.state = getSegmentUploadState(sessionId);
+    // Rows of earlier pages are not in the tail, it is tracked once a flush caught up with them
+    this.tailOverflow = this.getStreams().length > 1;
+  }
+
+  /**
+   * Server session ID, null until the first flush
+   */
+  public getServerSessionId(): number | null {
+    return this.state?.serverSessionId ?? null;
+  }
+
+  /**
+   * Upload all rows recorded since the last acknowledged segment
+   * Concurrent calls share the same flush
+   * @returns Number of segments uploaded
+   */
+  public flush(onProgress?: (_progress: number) => void): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.withLock(() => this.flushPending(onProgress)).finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Compress full segments of stored rows ahead of the next flush, so uploading them is near-instant
+   * The remainder (less than a segment) is packed when it is flushed. Skipped while a flush runs
+   */
+  public prepare(): Promise<void> {
+    if (!this.preparing && !this.flushing) {
+      this.preparing = this.prepareSegments()
+        .catch(() => {
+          // Not logged, the console is recorded. The flush packs these rows itself and reports errors
+        })
+        .finally(() => {
+          this.preparing = undefined;
+        });
+    }
+    return this.preparing ?? Promise.resolve();
+  }
+
+  /**
+   * Keep a copy of a stored row until it is acknowledged, so it can be sent on unload
+   * IndexedDB cannot be read synchronously from a beforeunload handler
+   */
+  public track(tableName: TableName, key: number, value: any): void {
+    if (this.tailOverflow) {
+      return;
+    }
+
+    const list = tableName === DB_TABLE_NAME.RENDER_EVENT ? this.tail.events : this.tail.responses;
+    list.push({ key, value });
+
+    if (this.tail.events.length + this.tail.responses.length > MAX_TAIL_ROWS) {
+      this.tailOverflow = true;
+      this.tail = { events: [], responses: [] };
+    }
+  }
+
+  /**
+   * Send the unacknowledged tail with navigator.sendBeacon
+   * Only possible once the server session exists, the tail is small enough and no upload headers are needed,
+   * since beacons cannot carry headers. A queued beacon is not a confirmed upload, so its rows stay
+   * unacknowledged: the next flush sends them again under the same seq, replacing the beacon segment
+   * @returns True if the beacon was queued (or there was nothing to send)
+   */
+  public sendBeacon(): boolean {
+    // Another tab of the shared session may have uploaded meanwhile
+    this.state = getSegmentUploadState(this.sessionId);
+
+    // The tail only holds the rows of this tab, other tabs may have joined since it was started
+    const single = this.getStreams().length <= 1;
+
+    if (
+      !this.state ||
+      !single ||
+      this.tailOverflow ||
+      this.hasHeaders() ||
+      typeof navigator.sendBeacon !== 'function'
+    ) {
+      return false;
+    }
+
+    const state = this.state;
+    const events = this.tail.events.filter((entry) => entry.key > state.lastEventKey);
+    const responses = this.tail.responses.filter((entry) => entry.key > state.lastResponseKey);
+
+    if (events.length === 0 && responses.length === 0) {
+      return true;
+    }
+
+    const collection: RecordCollection = {
+      [this.sessionId]: {
+        eventData: events.map((entry) => entry.value),
+        responseData: responses.map((entry) => entry.value),
+      },
+    };
+    const json = JSON.stringify(collection);
+
+    if (json.length > MAX_BEACON_SIZE) {
+      return false;
+    }
+
+    // Beacons cannot be compressed or hashed synchronously, the server archives .json segments on receipt
+    const formData = new FormData();
+    formData.append('file', new Blob([json], { type: 'application/json' }), `segment-${state.nextSeq}.json`);
+    formData.append('seq', String(state.nextSeq));
+
+    return navigator.sendBeacon(`${this.getBaseUrl()}/${state.serverSessionId}/segments`, formData);
+  }
+
+  /**
+   * Mark the server session as complete and forget the local progress
+   */
+  public async complete(): Promise<CompleteResponse> {
+    await this.flush();
+
+    return this.withLock(async () => {
+      this.state = getSegmentUploadState(this.sessionId);
+
+      if (!this.state) {
+        throw new Error('No segments have been uploaded');
+      }
+
+      const response = await this.requestJson<CompleteResponse>(
+        `${this.getBaseUrl()}/${this.state.serverSessionId}/complete`,
+        {},
+      );
+
+      clearSegmentUploadState(this.sessionId);
+      this.state = null;
+      this.prepared = [];
+
+      return response;
+    });
+  }
+
+  /**
+   * Read the progress again, after another page continued the upload (back/forward cache restore)
+   */
+  public reload(): void {
+    this.state = getSegmentUploadState(this.sessionId);
+    this.prepared = [];
+    this.tail = { events: [], responses: [] };
+    this.tailOverflow = true;
+  }
+
+  /**
+   * Discard local progress, the next flush starts a new server session
+   */
+  public reset(): void {
+    clearSegmentUploadState(this.sessionId);
+    this.state = null;
+    this.prepared = [];
+  }
+
+  /**
+   * Read the rows of the next segment after the given keys
+   */
+  private async readSegment(afterEventKey: number, afterResponseKey: number) {
+    const maxEvents = this.options.maxSegmentEvents ?? DEFAULT_MAX_SEGMENT_EVENTS;
+    const maxResponses = this.options.maxSegmentResponses ?? DEFAULT_MAX_SEGMENT_RESPONSES;
+
+    const events = await this.readRows(DB_TABLE_NAME.RENDER_EVENT, afterEventKey, maxEvents);
+    const responses = await this.readRows(DB_TABLE_NAME.RESPONSE_DATA, afterResponseKey, maxResponses);
+
+    return {
+      events,
+      responses,
+      full: events.length >= maxEvents || responses.length >= maxResponses,
+      lastEventKey: events.length ? events[events.length - 1]!.key : afterEventKey,
+      lastResponseKey: responses.length ? responses[responses.length - 1]!.key : afterResponseKey,
+    };
+  }
+
+  /**
+   * Rows of a table after the given key, across the streams of the session in key order
+   */
+  private async readRows(tableName: TableName, afterKey: number, limit: number): Promise<TailEntry[]> {
+    const streams = this.getStreams();
+    // A single stream is uploaded untagged, as mergeTabStreams returns it
+    const tabIds = new Map(streams.length > 1 ? streams.map((stream) => [stream.streamId, stream.tabId]) : []);
+    const entries = await this.db.getEntriesAfterKey(
+      tableName,
+      DB_INDEX_KEY,
+      streams.map((stream) => stream.streamId),
+      afterKey,
+      limit,
+    );
+
+    return entries.map((entry) => ({
+      key: entry.key,
+      value: tagRow(tableName, entry.value, tabIds.get(entry.value[DB_INDEX_KEY]) ?? ''),
+    }));
+  }
+
+  /**
+   * Local sessions uploaded together, resumed uploads use the ones persisted with their progress
+   */
+  private getStreams(): TabStreamInfo[] {
+    return this.options.getStreams?.() ?? this.state?.streams ?? [{ streamId: this.sessionId, tabId: '' }];
+  }
+
+  /**
+   * Run an upload step while no other tab of the session uploads
+   * Without Web Locks, concurrent tabs may send the same seq, the server keeps the last one
+   */
+  private withLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return callback();
+    }
+
+    return navigator.locks.request(`${UPLOAD_LOCK_PREFIX}${this.sessionId}`, callback) as Promise<T>;
+  }
+
+  private async prepareSegments(): Promise<void> {
+    for (;;) {
+      const previous = this.prepared[this.prepared.length - 1];
+      const afterEventKey = previous ? previous.lastEventKey : (this.state?.lastEventKey ?? -1);
+      const afterResponseKey = previous ? previous.lastResponseKey : (this.state?.lastResponseKey ?? -1);
+      const segment = await this.readSegment(afterEventKey, afterResponseKey);
+
+      if (!segment.full) {
+        return;
+      }
+
+      const blob = await this.createSegmentZip(
+        segment.events.map((entry) => entry.value),
+        segment.responses.map((entry) => entry.value),
+      );
+      this.prepared.push({
+        afterEventKey,
+        afterResponseKey,
+        lastEventKey: segment.lastEventKey,
+        lastResponseKey: segment.lastResponseKey,
+        blob,
+      });
+    }
+  }
+
+  /**
+   * Take the prepared segment starting at the acknowledged keys
+   * Prepared segments are dropped once they no longer line up
+   */
+  private takePrepared(afterEventKey: number, afterResponseKey: number): PreparedSegment | undefined {
+    const next = this.prepared.shift();
+
+    if (next && (next.afterEventKey !== afterEventKey || next.afterResponseKey !== afterResponseKey)) {
+      this.prepared = [];
+      return undefined;
+    }
+
+    return next;
+  }
+
+  private async flushPending(onProgress?: (_progress: number) => void): Promise<number> {
+    let uploaded = 0;
+
+    // Continue from the progress of the tab that uploaded last
+    this.state = getSegmentUploadState(this.sessionId);
+
+    // Let a running preparation finish, its segments are used below
+    await this.preparing;
+
+    for (;;) {
+      const afterEventKey = this.state?.lastEventKey ?? -1;
+      const afterResponseKey = this.state?.lastResponseKey ?? -1;
+      let segment: { blob: Blob; lastEventKey: number; lastResponseKey: number } | undefined = this.takePrepared(
+        afterEventKey,
+        afterResponseKey,
+      );
+
+      if (!segment) {
+        const { events, responses, lastEventKey, lastResponseKey } = await this.readSegment(
+          afterEventKey,
+          afterResponseKey,
+        );
+
+        if (events.length === 0 && responses.length === 0) {
+          // Everything stored so far is acknowledged, the tail can be tracked again
+          this.tailOverflow = false;
+          return uploaded;
+        }
+
+        const blob = await this.createSegmentZip(
+          events.map((entry) => entry.value),
+          responses.map((entry) => entry.value),
+        );
+        segment = { blob, lastEventKey, lastResponseKey };
+      }
+
+      const state = await this.ensureServerSession();
+      await this.sendSegment(state.serverSessionId, state.nextSeq, segment.blob, onProgress);
+
+      this.acknowledge({
+        serverSessionId: state.serverSessionId,
+        nextSeq: state.nextSeq + 1,
+        lastEventKey: segment.lastEventKey,
+        lastResponseKey: segment.lastResponseKey,
+      });
+      uploaded++;
+    }
+  }
+
+  /**
+   * Persist progress and drop acknowledged rows from the tail
+   */
+  private acknowledge(state: SegmentUploadState): void {
+    this.state = { ...state, streams: this.getStreams() };
+    setSegmentUploadState(this.sessionId, this.state);
+
+    this.tail = {
+      events: this.tail.events.filter((entry) => entry.key > state.lastEventKey),
+      responses: this.tail.responses.filter((entry) => entry.key > state.lastResponseKey),
+    };
+  }
+
+  private hasHeaders(): boolean {
+    return Object.keys(this.options.headers ?? {}).length > 0;
+  }
+
+  /**
+   * Create the server session on first use
+   */
+  private async ensureServerSession(): Promise<SegmentUploadState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    const response = await this.requestJson<UploadResponse>(this.getBaseUrl(), {
+      segmented: true,
+      platform: this.options.platform,
+      device_id: this.options.deviceId,
+      jira_id: this.options.jiraId,
+    });
+
+    if (!response.session?.id) {
+      throw new Error('Server did not return a session ID');
+    }
+
+    this.state = {
+      serverSessionId: response.session.id,
+      nextSeq: 0,
+      lastEventKey: -1,
+      lastResponseKey: -1,
+      streams: this.getStreams(),
+    };
+    setSegmentUploadState(this.sessionId, this.state);
+
+    return this.state;
+  }
+
+  /**
+   * Pack a segment in the same archive format as a single-file upload
+   */
+  private async createSegmentZip(eventData: any[], responseData: HarEntry[]): Promise<Blob> {
+    const blob = await createArchiveBlob(
+      String(this.sessionId),
+      eventData,
+      responseData,
+      {
+        projectName: this.options.projectName,
+        appId: this.options.appId,
+        deviceId: this.options.deviceId,
+        platform: this.options.platform,
+      },
+      {
+        level: 6, // Segments are uploaded while recording, favour speed
+        useWorker: this.options.useWorker,
+      },
+    );
+
+    if (blob.size > MAX_SEGMENT_SIZE) {
+      throw new Error(
+        `Segment size exceeds maximum allowed size of 20MB (got ${(blob.size / 1024 / 1024).toFixed(2)}MB), lower maxSegmentEvents`,
+      );
+    }
+
+    return blob;
+  }
+
+  /**
+   * Upload one segment with progress tracking
+   */
+  private sendSegment(
+    serverSessionId: number,
+    seq: number,
+    blob: Blob,
+    onProgress?: (_progress: number) => void,
+  ): Promise<SegmentResponse> {
+    const formData = new FormData();
+    formData.append('file', blob, `segment-${seq}.zip`);
+    formData.append('seq', String(seq));
+
+    const xhr = new XMLHttpRequest();
+
+    if (onProgress) {
+      xhr.upload.addEventListener('progress', (e) => {
+        if (e.lengthComputable) {
+          onProgress((e.loaded / e.total) * 100);
+        }
+      });
+    }
+
+    const uploadPromise = new Promise<SegmentResponse>((resolve, reject) => {
+      xhr.addEventListener('load', () => {
+        let response: SegmentResponse | null = null;
+        try {
+          response = JSON.parse(xhr.responseText) as SegmentResponse;
+        } catch {
+          // Fallback if response is not JSON
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(response || { success: true });
+        } else {
+          reject(new Error(response?.error || `Segment upload failed with status ${xhr.status}`));
+        }
+      });
+
+      xhr.addEventListener('error', () => {
+        reject(new Error('Network error during segment upload'));
+      });
+
+      xhr.addEventListener('abort', () => {
+        reject(new Error('Segment upload aborted'));
+      });
+
+      xhr.addEventListener('timeout', () => {
+        reject(new Error('Segment upload timeout'));
+      });
+    });
+
+    xhr.open('POST', `${this.getBaseUrl()}/${serverSessionId}/segments`);
+
+    if (this.options.headers) {
+      Object.entries(this.options.headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+    }
+
+    // Set timeout to 2 minutes per segment
+    xhr.timeout = 2 * 60 * 1000;
+
+    xhr.send(formData);
+
+    return uploadPromise;
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response
+   */
+  private async requestJson<T extends { success: boolean; error?: string }>(url: string, body: object): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.options.headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = (await response.json().catch(() => ({ success: response.ok }))) as T;
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+
+    return data;
+  }
+
+  private getBaseUrl(): string {
+    return this.options.endpoint.replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  DEFAULT_TAB_SESSION_IDLE_TIMEOUT,
+  TAB_CHANNEL_NAME,
+  TAB_FLUSH_TIMEOUT,
+  TAB_HEARTBEAT_INTERVAL,
+  TAB_SESSION_RETENTION,
+} from './constants/tabs';
+import type { MultiTabOption, TabActivity, TabStreamInfo } from './types';
+import { getTabSessions, setTabSessions } from './utils/session';
+import { createTabId } from './utils/tabs';
+
+export interface TabSessionConfig {
+  streamId: number; // Local session (traceTime) this tab records into
+  tabId?: string; // Kept across page loads of the tab, a new ID by default
+  sessionId?: number; // Shared session the previous page of the tab joined, rejoined while it exists
+  option?: MultiTabOption;
+  onActivity: (_activity: TabActivity) => void; // Called when the tab is shown or hidden, and once on start
+  onFlushRequest: () => Promise<void>; // Write the queued rows of this tab, another tab is about to read them
+  onCleared?: () => void; // Another tab deleted the stored rows
+}
+
+type TabMessage =
+  | { type: 'flush'; sessionId: number; requestId: string }
+  | { type: 'flushed'; sessionId: number; requestId: string; tabId: string }
+  | { type: 'cleared'; sessionId: number };
+
+/**
+ * Joins the tabs of a user into one shared session
+ * Each tab keeps recording into its own local session (stream), the shared session lists them in
+ * localStorage so any tab can export or upload all of them. Tabs talk over a BroadcastChannel to
+ * write their queued rows before another tab reads them
+ */
+export class TabSession {
+  private config: TabSessionConfig;
+  private tabId: string;
+  private sessionId: number;
+  private idleTimeout: number;
+  private channel?: BroadcastChannel;
+  private heartbeatTimer?: number;
+  private flushWaiters = new Map<string, (_tabId: string) => void>(); // By request ID
+
+  constructor(config: TabSessionConfig) {
+    this.config = config;
+    this.tabId = config.tabId ?? createTabId();
+    this.idleTimeout = config.option?.idleTimeout ?? DEFAULT_TAB_SESSION_IDLE_TIMEOUT;
+    this.sessionId = this.join();
+  }
+
+  /**
+   * Start listening to the other tabs and reporting this tab's visibility
+   */
+  public start(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+    }
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.heartbeatTimer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        this.touch();
+      }
+    }, TAB_HEARTBEAT_INTERVAL);
+
+    this.reportActivity();
+  }
+
+  public stop(): void {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+
+    this.channel?.close();
+    this.channel = undefined;
+    this.flushWaiters.clear();
+  }
+
+  /**
+   * Shared session ID, the local session ID of the tab that started it
+   */
+  public getSessionId(): number {
+    return this.sessionId;
+  }
+
+  public getTabId(): string {
+    return this.tabId;
+  }
+
+  /**
+   * Tabs that recorded into the shared session, in join order
+   */
+  public getStreams(): TabStreamInfo[] {
+    const streams = getTabSessions()[this.sessionId]?.streams ?? [];
+
+    // The registry may have been cleared meanwhile, this tab always belongs to its session
+    if (!streams.some((stream) => stream.streamId === this.config.streamId)) {
+      streams.push({ streamId: this.config.streamId, tabId: this.tabId });
+    }
+
+    return streams;
+  }
+
+  /**
+   * Ask the other tabs of the shared session to write their queued rows
+   * Resolves once all of them answered, or after TAB_FLUSH_TIMEOUT (closed tabs never answer)
+   */
+  public requestFlush(): Promise<void> {
+    const pending = new Set(
+      this.getStreams()
+        .map((stream) => stream.tabId)
+        .filter((tabId) => tabId !== this.tabId),
+    );
+
+    if (!this.channel || pending.size === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      const requestId = createTabId();
+      const done = () => {
+        clearTimeout(timer);
+        this.flushWaiters.delete(requestId);
+        resolve();
+      };
+      const timer = window.setTimeout(done, TAB_FLUSH_TIMEOUT);
+
+      this.flushWaiters.set(requestId, (tabId) => {
+        pending.delete(tabId);
+        if (pending.size === 0) {
+          done();
+        }
+      });
+      this.post({ type: 'flush', sessionId: this.sessionId, requestId });
+    });
+  }
+
+  /**
+   * Tell the other tabs that the stored rows were deleted
+   */
+  public notifyCleared(): void {
+    this.post({ type: 'cleared', sessionId: this.sessionId });
+  }
+
+  /**
+   * Join the shared session of the previous page, else the most recently active one, or start one when all are idle
+   * Sessions past TAB_SESSION_RETENTION are dropped on the way
+   */
+  private join(): number {
+    const now = Date.now();
+    const sessions = getTabSessions();
+    let joined: string | undefined;
+
+    Object.keys(sessions).forEach((sessionId) => {
+      const { lastActive } = sessions[sessionId]!;
+
+      if (now - lastActive > TAB_SESSION_RETENTION) {
+        delete sessions[sessionId];
+      } else if (now - lastActive <= this.idleTimeout && (!joined || lastActive > sessions[joined]!.lastActive)) {
+        joined = sessionId;
+      }
+    });
+
+    const previous = this.config.sessionId === undefined ? undefined : String(this.config.sessionId);
+    const sessionId = (previous && sessions[previous] ? previous : joined) ?? String(this.config.streamId);
+    const entry = sessions[sessionId] ?? { lastActive: now, streams: [] };
+    entry.lastActive = now;
+    entry.streams.push({ streamId: this.config.streamId, tabId: this.tabId });
+    sessions[sessionId] = entry;
+
+    try {
+      setTabSessions(sessions);
+    } catch {
+      // Storage full or unavailable, this tab records on its own
+      return this.config.streamId;
+    }
+
+    return Number(sessionId);
+  }
+
+  /**
+   * Mark the shared session as active
+   */
+  private touch(): void {
+    const sessions = getTabSessions();
+    sessions[this.sessionId] = {
+      streams: this.getStreams(),
+      lastActive: Date.now(),
+    };
+
+    try {
+      setTabSessions(sessions);
+    } catch {
+      // Retried on the next heartbeat
+    }
+  }
+
+  private reportActivity(): void {
+    this.config.onActivity({
+      sessionId: this.sessionId,
+      tabId: this.tabId,
+      streamId: this.config.streamId,
+      state: document.visibilityState === 'visible' ? 'visible' : 'hidden',
+    });
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.touch();
+    }
+    this.reportActivity();
+  };
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (message.sessionId !== this.sessionId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'flush':
+        this.config.onFlushRequest().finally(() => {
+          this.post({ type: 'flushed', sessionId: this.sessionId, requestId: message.requestId, tabId: this.tabId });
+        });
+        break;
+      case 'flushed':
+        this.flushWaiters.get(message.requestId)?.(message.tabId);
+        break;
+      case 'cleared':
+        this.config.onCleared?.();
+        break;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// Session archive (.zip) manifest type definitions
+// See docs/session-api.md for the archive layout
+
+import type { HarEntry } from './har';
+
+export interface ArchiveFileInfo {
+  path: string; // Path of the file inside the zip
+  size: number; // Size of the JSON text in bytes
+  sha256: string; // Hex SHA-256 of the JSON text
+  count: number; // Number of items in the JSON array
+}
+
+export interface ArchiveSessionInfo {
+  id: string; // Local session ID (traceTime)
+  projectName?: string;
+  appId?: number;
+  deviceId?: string;
+  platform?: string;
+  beginTime: number | null; // Timestamp of the first event, null for an empty session
+  endTime: number | null; // Timestamp of the last event
+  urls: string[]; // Pages visited, in order
+}
+
+export interface ArchiveManifest {
+  format: string; // Always ARCHIVE_FORMAT
+  formatVersion: number;
+  recorderVersion: string;
+  createdAt: string; // ISO 8601
+  migratedFrom?: number; // Format version of the archive this manifest was derived from on read
+  session: ArchiveSessionInfo;
+  files: {
+    events: ArchiveFileInfo;
+    network: ArchiveFileInfo;
+  };
+}
+
+// Session metadata written to the manifest, values not known to the writer are left out
+export interface ArchiveMetadata {
+  projectName?: string;
+  appId?: number;
+  deviceId?: string;
+  platform?: string;
+}
+
+export interface SessionArchive {
+  manifest: ArchiveManifest;
+  eventData: any[]; // rrweb eventWithTime[]
+  responseData: HarEntry[];
+}
@@ -1,6 +1,8 @@
 // Type definitions for web-reel
 /* eslint-disable no-unused-vars */
 
+import type { HarEntry } from './har';
+
 // Log levels
 export type LogLevel =
   | 'assert'
@@ -90,6 +92,217 @@ export interface RecorderOption {
   uploadHeaders?: Record<string, string>; // Custom headers for upload requests
   platform?: string; // Platform identifier for session metadata (e.g. 'web', 'mobile')
   jiraId?: string; // Jira ticket ID for session metadata
+  redaction?: RedactionOption | false; // Network traffic redaction, default masks auth/cookie headers. false disables it
+  privacy?: PrivacyOption; // DOM privacy controls passed to rrweb
+  chunkedUpload?: boolean | ChunkedUploadOption; // Upload in resumable segments instead of a single ZIP (no 20MB limit)
+  autoUpload?: boolean | AutoUploadOption; // Continuously upload segments in the background, requires uploadEndpoint
+  errorTrigger?: boolean | ErrorTriggerOption; // Upload the moments around an error automatically, requires uploadEndpoint
+  resourceTiming?: boolean; // Fill request timings/sizes from Resource Timing and record scripts, images and CSS, default: true
+  storage?: StorageOption; // Batching and size budget of the local IndexedDB buffer
+  compression?: CompressionOption; // Where and when recordings are serialized and compressed
+  checkoutEveryNth?: number; // Take a full snapshot every N events (default: 2000, 0 disables)
+  checkoutEveryNms?: number; // Take a full snapshot every N ms (default: off, errorTrigger sets preErrorWindow)
+  multiTab?: boolean | MultiTabOption; // Join the tabs of a user into one shared session, exported and uploaded together (default: false)
+  pageSession?: boolean | PageSessionOption; // Continue the session across page reloads and navigations of a tab (default: false)
+}
+
+// Uncaught error or unhandled rejection recorded on the timeline
+export interface UncaughtErrorInfo {
+  kind: 'error' | 'unhandledrejection';
+  message: string;
+  source?: string; // Script URL
+  line?: number;
+  column?: number;
+  stack?: string;
+  frame?: string; // URL of the same-origin iframe the error happened in
+}
+
+// Error sources that can trigger an automatic capture
+export type ErrorTriggerType = 'console' | 'uncaught' | 'network';
+
+// The error that triggered an automatic capture
+export interface ErrorTriggerInfo {
+  type: ErrorTriggerType;
+  message: string;
+  timestamp: number;
+}
+
+// Error-triggered capture configuration
+export interface ErrorTriggerOption {
+  console?: boolean; // Trigger on console.error (default: true)
+  uncaught?: boolean; // Trigger on window error and unhandledrejection (default: true)
+  network?: boolean | ((_entry: HarEntry) => boolean); // Trigger on failed requests (default: status 0 or >= 500)
+  preErrorWindow?: number; // Milliseconds of recording kept before the error (default: 30000)
+  postErrorWindow?: number; // Milliseconds of recording kept after the error (default: 5000)
+  cooldown?: number; // Minimum delay between two captures in ms (default: 60000)
+  filter?: (_info: ErrorTriggerInfo) => boolean; // Return false to ignore an error
+}
+
+// Background upload configuration
+export interface AutoUploadOption {
+  interval?: number; // Delay between uploads in ms (default: 10000)
+  maxRetryDelay?: number; // Upper bound for the retry backoff in ms (default: 300000)
+}
+
+// Local event storage configuration
+export interface StorageOption {
+  flushInterval?: number; // Delay before queued rows are written to IndexedDB in ms (default: 1000)
+  maxBatchSize?: number; // Queued rows that trigger an immediate write (default: 500)
+  maxSessionBytes?: number; // Approximate render event bytes kept per session, oldest are evicted first (default: 50MB)
+}
+
+// Recording serialization and compression configuration
+export interface CompressionOption {
+  worker?: boolean; // Serialize and compress exports and uploads in a Web Worker when supported (default: true)
+  precompress?: boolean; // Compress full upload segments while recording, requires chunkedUpload or autoUpload (default: false)
+}
+
+// Local event storage statistics
+export interface StorageMetrics {
+  pendingRows: number; // Rows queued in memory, not written yet
+  writes: number; // Batched write transactions
+  failedWrites: number; // Transactions that failed, their rows are dropped
+  skippedRows: number; // Rows IndexedDB could not store (e.g. a console argument that cannot be cloned), the rest of their batch is kept
+  rowsWritten: number;
+  bytesWritten: number; // Approximate, measured as JSON length
+  evictedRows: number; // Render events removed by the session byte budget
+  lastWriteLatency: number; // Duration of the last write transaction in ms
+  averageWriteLatency: number; // In ms
+  maxWriteLatency: number; // In ms
+}
+
+// Multi-tab recording configuration
+export interface MultiTabOption {
+  idleTimeout?: number; // Inactivity in ms after which a new tab starts its own session instead of joining (default: 1800000)
+}
+
+// A tab that recorded into a shared session
+export interface TabStreamInfo {
+  streamId: number; // Local session (traceTime) the tab records into
+  tabId: string;
+}
+
+// Shared session of several tabs, persisted in localStorage by session ID
+export interface TabSessionEntry {
+  lastActive: number; // Last time one of its tabs was visible
+  streams: TabStreamInfo[]; // In join order
+}
+
+// Tab visibility recorded on the timeline ('tab-activity' custom event)
+export interface TabActivity extends TabStreamInfo {
+  sessionId: number; // Shared session ID
+  state: 'visible' | 'hidden';
+}
+
+// Page session configuration
+export interface PageSessionOption {
+  idleTimeout?: number; // Time in ms between leaving a page and loading the next one after which a new session starts (default: 1800000)
+}
+
+// Session of a tab across page loads, persisted in sessionStorage
+export interface PageSessionEntry {
+  sessionId: number; // Local session (traceTime) of its first page
+  tabId: string;
+  pages: number[]; // Local sessions of its page loads, in load order
+  lastActive: number; // Last time one of its pages was shown or left
+  sharedSessionId?: number; // Shared session of the user's tabs the pages joined, rejoined after a reload
+  live?: boolean; // Set while a page records, a copy of sessionStorage in a new tab still has it set
+}
+
+// Page boundary recorded on the timeline ('page-load' custom event)
+export interface PageLoadInfo {
+  sessionId: number; // Page session ID
+  tabId: string;
+  streamId: number; // Local session the page records into
+  index: number; // Position of the page in the session, from 0
+  url: string;
+  navigationType: 'navigate' | 'reload' | 'back_forward' | 'prerender';
+}
+
+// Segmented (multi-part) upload configuration
+export interface ChunkedUploadOption {
+  maxSegmentEvents?: number; // Maximum render events per segment (default: 2000)
+  maxSegmentResponses?: number; // Maximum network entries per segment (default: 500)
+}
+
+// Segmented upload progress, persisted per local session so uploads can resume
+export interface SegmentUploadState {
+  serverSessionId: number; // Session ID returned by the server
+  nextSeq: number; // Sequence number of the next segment
+  lastEventKey: number; // IndexedDB key of the last uploaded render event (-1 for none)
+  lastResponseKey: number; // IndexedDB key of the last uploaded network entry (-1 for none)
+  streams?: TabStreamInfo[]; // Local sessions (tabs and page loads) uploaded into the server session
+}
+
+// Input types that can be masked individually
+export type MaskInputType =
+  | 'color'
+  | 'date'
+  | 'datetime-local'
+  | 'email'
+  | 'month'
+  | 'number'
+  | 'range'
+  | 'search'
+  | 'tel'
+  | 'text'
+  | 'time'
+  | 'url'
+  | 'week'
+  | 'textarea'
+  | 'select'
+  | 'password';
+
+// DOM privacy configuration, mapped onto rrweb record options
+export interface PrivacyOption {
+  maskAllInputs?: boolean; // Mask the value of every input, textarea and select
+  maskInputTypes?: Partial<Record<MaskInputType, boolean>>; // Mask inputs by type, password is always masked
+  maskInputFn?: (_text: string) => string; // Custom input masking, defaults to '*' per character
+  maskTextSelector?: string; // Mask rendered text inside elements matching this CSS selector
+  maskTextClass?: string; // Mask rendered text inside elements with this class (default: 'rr-mask')
+  maskTextFn?: (_text: string) => string; // Custom text masking, defaults to '*' per character
+  blockSelector?: string; // Do not record subtrees matching this CSS selector
+  blockClass?: string; // Do not record subtrees with this class (default: 'rr-block')
+  ignoreClass?: string; // Do not record input events on elements with this class (default: 'rr-ignore')
+}
+
+// Serializable summary of the privacy settings, recorded so the replayer can explain missing data
+export interface PrivacySummary {
+  maskAllInputs: boolean;
+  maskInputTypes: MaskInputType[];
+  maskTextSelector: string | null;
+  maskTextClass: string;
+  blockSelector: string | null;
+  blockClass: string;
+  ignoreClass: string;
+  customMaskText: boolean;
+  customMaskInput: boolean;
+}
+
+// Regex based redaction rule, applied to URLs, header values and bodies
+export interface RedactionRule {
+  name: string; // Rule identifier, recorded in the HAR entry when it fires
+  pattern: RegExp;
+  replacement?: string; // Defaults to RedactionOption.replacement
+}
+
+// Extra redaction applied only to requests whose URL matches
+export interface UrlRedactionPolicy {
+  match: string | RegExp; // URL substring or regex
+  headers?: string[]; // Additional header names to mask (case-insensitive)
+  bodyPaths?: string[]; // Additional JSON paths to mask in request/response bodies
+  rules?: RedactionRule[]; // Additional regex rules
+  dropRequestBody?: boolean; // Replace the whole request body
+  dropResponseBody?: boolean; // Replace the whole response body
+}
+
+// Network redaction configuration
+export interface RedactionOption {
+  headers?: string[]; // Header deny-list (case-insensitive), defaults to DEFAULT_REDACTED_HEADERS
+  bodyPaths?: string[]; // JSON paths to mask, e.g. 'password', 'user.email', 'items[*].token', '*.secret'
+  rules?: RedactionRule[]; // Regex rules applied to URL, header values and bodies
+  urlPolicies?: UrlRedactionPolicy[];
+  replacement?: string; // Defaults to '[REDACTED]'
 }
 
 // Upload flag types
@@ -1,5 +1,5 @@
-import JSZip from 'jszip';
-
+import { createArchiveBlob, pickLatestSession } from './archive';
+import type { ErrorTriggerType } from './types';
 import type { HarEntry } from './types/har';
 
 export interface UploadOptions {
@@ -11,6 +11,11 @@ export interface UploadOptions {
   platform?: string;
   deviceId?: string;
   jiraId?: string;
+  projectName?: string; // Written to the archive manifest
+  appId?: number; // Written to the archive manifest
+  triggerType?: ErrorTriggerType; // Set for error-triggered captures
+  triggerMessage?: string;
+  useWorker?: boolean; // Serialize and compress in a Web Worker when supported (default: true)
 }
 
 export interface UploadResponse {
@@ -27,7 +32,7 @@ export interface UploadResponse {
 
 /**
  * Upload session data to server as ZIP file
- * Compresses event and response data into a ZIP file and uploads via multipart/form-data
+ * Packs the most recent session as a versioned archive and uploads it via multipart/form-data
  */
 export async function uploadSession(
   eventDataMap: { [traceTime: string]: any[] },
@@ -35,43 +40,30 @@ export async function uploadSession(
   options: UploadOptions,
 ): Promise<UploadResponse> {
   try {
-    // Combine event data and response data by session
-    const collection: { [key: string]: { eventData: any[]; responseData: HarEntry[] } } = {};
-
-    Object.keys(eventDataMap).forEach((key) => {
-      collection[key] = {
-        eventData: eventDataMap[key] || [],
-        responseData: responseDataMap[key] || [],
-      };
-    });
-
-    let json: string;
-    try {
-      json = JSON.stringify(collection, null, 2);
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.error('[Upload] JSON.stringify failed:', errorMsg);
-      throw new Error(`Failed to serialize session data: ${errorMsg}`);
+    const session = pickLatestSession(eventDataMap, responseDataMap);
+    if (!session) {
+      throw new Error('No session data to upload');
     }
 
-    // Create zip file
-    const zip = new JSZip();
-    zip.file('data.json', json);
-
     // Generate zip blob with progress tracking
-    const zipBlob = await zip.generateAsync(
+    const zipBlob = await createArchiveBlob(
+      session.sessionId,
+      session.eventData,
+      session.responseData,
       {
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: {
-          level: 9, // Maximum compression
-        },
+        projectName: options.projectName,
+        appId: options.appId,
+        deviceId: options.deviceId,
+        platform: options.platform,
       },
-      (metadata) => {
-        if (options.onProgress && metadata.percent) {
-          // Report compression progress (0-50%)
-          options.onProgress(metadata.percent / 2);
-        }
+      {
+        useWorker: options.useWorker,
+        onProgress: (percent) => {
+          if (options.onProgress && percent) {
+            // Report compression progress (0-50%)
+            options.onProgress(percent / 2);
+          }
+        },
       },
     );
 
@@ -96,6 +88,10 @@ export async function uploadSession(
     if (options.jiraId) {
       formData.append('jira_id', options.jiraId);
     }
+    if (options.triggerType) {
+      formData.append('trigger_type', options.triggerType);
+      formData.append('trigger_message', options.triggerMessage || '');
+    }
 
     // Upload to server with progress tracking using XMLHttpRequest
     const xhr = new XMLHttpRequest();
@@ -0,0 +1,214 @@
+import type { RecordCollection } from '../export';
+
+import { crc32 } from './zip';
+
+export interface EncodedFile {
+  path: string;
+  size: number; // Size of the JSON text in bytes
+  sha256: string; // Hex SHA-256 of the JSON text, empty when Web Crypto is unavailable
+  count: number; // Number of items in the JSON array
+  crc: number; // CRC-32 of the JSON text
+  compressed: Uint8Array<ArrayBuffer>; // Raw deflate of the JSON text
+}
+
+type WorkerRequestBody =
+  | { type: 'archive'; files: Array<{ path: string; items: any[] }> }
+  | { type: 'json'; collection: RecordCollection };
+
+type WorkerRequest = WorkerRequestBody & { id: number };
+
+type WorkerResponse = { id: number; result: any; error?: undefined } | { id: number; error: string };
+
+/**
+ * Serialize items as a JSON array, one item at a time, into UTF-8 chunks of about 64KB
+ * The document is never held as a single string, so long sessions do not hit "Invalid string length"
+ * Runs inside the worker, must not reference anything outside its body
+ */
+function encodeJsonArray(items: any[], encoder: TextEncoder): Uint8Array<ArrayBuffer>[] {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let text = '[';
+
+  items.forEach((item, index) => {
+    text += (index ? ',' : '') + JSON.stringify(item);
+    if (text.length >= 64 * 1024) {
+      chunks.push(encoder.encode(text));
+      text = '';
+    }
+  });
+
+  chunks.push(encoder.encode(text + ']'));
+  return chunks;
+}
+
+interface WorkerHelpers {
+  crc32: typeof crc32;
+  encodeJsonArray: typeof encodeJsonArray;
+}
+
+/**
+ * Worker entry point, answers WorkerRequest messages with WorkerResponse messages
+ * Runs inside the worker, must only use its helpers and browser globals
+ * (transpilers rewrite references to other module functions)
+ */
+function archiveWorkerMain(helpers: WorkerHelpers) {
+  const scope = self as any;
+  const encoder = new TextEncoder();
+
+  const sha256Hex = async (bytes: Uint8Array<ArrayBuffer>): Promise<string> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      return '';
+    }
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  };
+
+  const encodeFile = async (path: string, items: any[]): Promise<EncodedFile> => {
+    const chunks = helpers.encodeJsonArray(items, encoder);
+    const blob = new Blob(chunks);
+    const crc = chunks.reduce((previous, chunk) => helpers.crc32(chunk, previous), 0);
+    const compressed = await new Response(
+      blob.stream().pipeThrough(new CompressionStream('deflate-raw')),
+    ).arrayBuffer();
+
+    return {
+      path,
+      size: blob.size,
+      sha256: await sha256Hex(new Uint8Array(await blob.arrayBuffer())),
+      count: items.length,
+      crc,
+      compressed: new Uint8Array(compressed),
+    };
+  };
+
+  const encodeCollection = (collection: RecordCollection): Blob => {
+    const parts: Array<string | Uint8Array<ArrayBuffer>> = ['{'];
+    Object.keys(collection).forEach((sessionId, index) => {
+      const session = collection[sessionId]!;
+      parts.push(`${index ? ',' : ''}${JSON.stringify(sessionId)}:{"eventData":`);
+      parts.push(...helpers.encodeJsonArray(session.eventData, encoder), ',"responseData":');
+      parts.push(...helpers.encodeJsonArray(session.responseData, encoder), '}');
+    });
+    parts.push('}');
+    return new Blob(parts, { type: 'application/json;charset=utf-8' });
+  };
+
+  scope.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    try {
+      if (request.type === 'archive') {
+        const files: EncodedFile[] = [];
+        for (const file of request.files) {
+          files.push(await encodeFile(file.path, file.items));
+        }
+        scope.postMessage(
+          { id: request.id, result: files },
+          files.map((file) => file.compressed.buffer),
+        );
+      } else {
+        scope.postMessage({ id: request.id, result: encodeCollection(request.collection) });
+      }
+    } catch (error) {
+      scope.postMessage({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (_result: any) => void; reject: (_error: Error) => void }>();
+
+/**
+ * Whether recordings can be serialized and compressed off the main thread
+ * Needs Web Workers and CompressionStream, pages whose CSP forbids blob: workers fail on first use instead
+ */
+export function isArchiveWorkerSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof CompressionStream !== 'undefined' &&
+    typeof URL !== 'undefined' &&
+    typeof URL.createObjectURL === 'function'
+  );
+}
+
+function rejectAll(error: Error): void {
+  pendingRequests.forEach(({ reject }) => reject(error));
+  pendingRequests.clear();
+}
+
+/**
+ * Start the shared worker on first use
+ * The SDK ships as a single bundle, so the worker is built from the source of the functions above
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    // Helpers are passed as function expressions. __name is the helper esbuild's keepNames wraps functions in
+    const source = [
+      'var __name = function (target) { return target; };',
+      `(${String(archiveWorkerMain)})({ crc32: ${String(crc32)}, encodeJsonArray: ${String(encodeJsonArray)} });`,
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    let instance: Worker;
+    try {
+      instance = new Worker(url);
+    } catch (error) {
+      URL.revokeObjectURL(url);
+      throw error;
+    }
+
+    instance.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const pending = pendingRequests.get(response.id);
+      if (!pending) return;
+
+      pendingRequests.delete(response.id);
+      if (response.error !== undefined) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    };
+    instance.onerror = (event) => {
+      // The worker could not start (e.g. CSP) or crashed, the next request starts a new one
+      event.preventDefault();
+      instance.terminate();
+      worker = null;
+      URL.revokeObjectURL(url);
+      rejectAll(new Error(`Archive worker failed: ${event.message || 'worker could not be started'}`));
+    };
+
+    worker = instance;
+  }
+
+  return worker;
+}
+
+function request<T>(message: WorkerRequestBody): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+
+    try {
+      getWorker().postMessage({ ...message, id });
+    } catch (error) {
+      pendingRequests.delete(id);
+      reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+}
+
+/**
+ * Serialize, hash and compress JSON array files in the worker
+ * @returns One encoded file per input, in order
+ */
+export function encodeArchiveFiles(files: Array<{ path: string; items: any[] }>): Promise<EncodedFile[]> {
+  return request<EncodedFile[]>({ type: 'archive', files });
+}
+
+/**
+ * Serialize a record collection to a JSON Blob in the worker
+ */
+export function encodeCollectionJson(collection: RecordCollection): Promise<Blob> {
+  return request<Blob>({ type: 'json', collection });
+}
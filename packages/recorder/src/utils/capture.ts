@@ -0,0 +1,72 @@
+import type { eventWithTime } from 'rrweb/typings/types';
+
+import { FULL_SNAPSHOT_EVENT_TYPE, META_EVENT_TYPE } from '../constants/checkout';
+import type { HarEntry } from '../types/har';
+
+/**
+ * Index of the event a checkout starts at: the FullSnapshot at `index`, or the Meta event recorded right before it
+ */
+function getCheckoutStart(events: Array<{ type: number }>, index: number): number {
+  return index > 0 && events[index - 1]!.type === META_EVENT_TYPE ? index - 1 : index;
+}
+
+/**
+ * Keep at most maxEvents of the most recent events, cut at a checkout so they can still be replayed
+ * When no checkout starts within the last maxEvents, everything from the last checkout is kept instead
+ * @param events - Events in recording order
+ */
+export function truncateEvents<T extends { type: number }>(events: T[], maxEvents: number): T[] {
+  if (events.length <= maxEvents) {
+    return events;
+  }
+
+  const cutIndex = events.length - maxEvents;
+  let lastStart = -1;
+
+  for (let index = 0; index < events.length; index++) {
+    if (events[index]!.type !== FULL_SNAPSHOT_EVENT_TYPE) continue;
+
+    const start = getCheckoutStart(events, index);
+    if (start >= cutIndex) {
+      return events.slice(start);
+    }
+    lastStart = start;
+  }
+
+  // Without any snapshot the events cannot be replayed anyway, fall back to the plain limit
+  return lastStart >= 0 ? events.slice(lastStart) : events.slice(cutIndex);
+}
+
+/**
+ * Select the events and network entries of a capture window
+ * The window is widened back to the last full snapshot before `start`,
+ * so the first event of the capture can always be replayed
+ */
+export function sliceCaptureWindow(
+  events: eventWithTime[],
+  responses: HarEntry[],
+  start: number,
+  end: number,
+): { eventData: eventWithTime[]; responseData: HarEntry[] } {
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+  let snapshotIndex = -1;
+  sorted.forEach((event, index) => {
+    if (event.type === FULL_SNAPSHOT_EVENT_TYPE && (event.timestamp <= start || snapshotIndex === -1)) {
+      snapshotIndex = index;
+    }
+  });
+
+  // Keep the meta event (page URL and viewport) recorded right before the snapshot
+  const firstIndex = getCheckoutStart(sorted, Math.max(snapshotIndex, 0));
+
+  const eventData = sorted.slice(firstIndex).filter((event) => event.timestamp <= end);
+  const windowStart = eventData.length ? Math.min(eventData[0]!.timestamp, start) : start;
+
+  const responseData = responses.filter((entry) => {
+    const startedAt = Date.parse(entry.startedDateTime);
+    return startedAt >= windowStart && startedAt <= end;
+  });
+
+  return { eventData, responseData };
+}
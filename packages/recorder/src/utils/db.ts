@@ -3,10 +3,16 @@ import { IDBPDatabase, openDB } from 'idb';
 export interface ObjectStore {
   name: string;
   indexKeys?: string[];
+  indexes?: ObjectStoreIndex[]; // Named indexes, e.g. compound ones
   keyPath?: string | string[];
   autoIncrement?: boolean;
 }
 
+export interface ObjectStoreIndex {
+  name: string;
+  keyPath: string | string[];
+}
+
 const DEFAULT_DB_OBJECT = {
   name: 'table', // Default table name
 };
@@ -31,19 +37,22 @@ export class IDB {
    */
   async open() {
     this.db = await openDB(this.name, this.version, {
-      upgrade: (db) => {
+      upgrade: (db, _oldVersion, _newVersion, transaction) => {
         this.objectStores.forEach((item) => {
-          if (!db.objectStoreNames.contains(item.name)) {
-            const config = {
-              autoIncrement: item.autoIncrement ?? true,
-              keyPath: item.keyPath,
-            };
-            const objectStore = db.createObjectStore(item.name, config);
-
-            if (item.indexKeys) {
-              item.indexKeys.forEach((k) => objectStore.createIndex(k, k, { unique: false }));
+          const objectStore = db.objectStoreNames.contains(item.name)
+            ? transaction.objectStore(item.name)
+            : db.createObjectStore(item.name, {
+                autoIncrement: item.autoIncrement ?? true,
+                keyPath: item.keyPath,
+              });
+
+          // Indexes added by a newer version are created on existing stores too
+          const indexes = [...(item.indexKeys || []).map((k) => ({ name: k, keyPath: k })), ...(item.indexes || [])];
+          indexes.forEach((index) => {
+            if (!objectStore.indexNames.contains(index.name)) {
+              objectStore.createIndex(index.name, index.keyPath, { unique: false });
             }
-          }
+          });
         });
       },
       terminated: async () => {
@@ -74,6 +83,39 @@ export class IDB {
     return await this.db?.add(tableName, data);
   }
 
+  /**
+   * Add rows to one or more stores in a single transaction
+   * Returns the generated keys in row order, undefined for rows that cannot be stored (values IndexedDB
+   * cannot clone, such as DOM nodes or functions), which are skipped without failing the others.
+   * If the transaction itself fails it is aborted, nothing is stored and the error is thrown
+   */
+  async bulkAdd(rows: Array<{ tableName: string; data: { [key: string]: any } }>): Promise<unknown[]> {
+    const tableNames = [...new Set(rows.map((row) => row.tableName))];
+    const tx = this.db.transaction(tableNames, 'readwrite');
+    const requests = rows.map((row) => {
+      try {
+        return tx.objectStore(row.tableName).add(row.data);
+      } catch {
+        // Cloning throws synchronously and leaves the transaction usable
+        return undefined;
+      }
+    });
+
+    try {
+      const keys = await Promise.all(requests);
+      await tx.done;
+      return keys;
+    } catch (error) {
+      tx.done.catch(() => {});
+      try {
+        tx.abort();
+      } catch {
+        // Already aborted by the failed request
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get data by key
    */
@@ -101,6 +143,46 @@ export class IDB {
     return index.getAll(range);
   }
 
+  /**
+   * Get entries with a primary key greater than afterKey whose index value is one of the given values,
+   * with their primary keys, in key order
+   * Each value is read from its own index range, which is ordered by primary key, so the cursor skips
+   * straight past afterKey and never walks the rows of other sessions
+   */
+  async getEntriesAfterKey(
+    tableName = DEFAULT_DB_OBJECT.name,
+    indexKey: string,
+    indexKeyValues: any[],
+    afterKey?: number,
+    limit?: number,
+  ): Promise<Array<{ key: number; value: any }>> {
+    const tx = this.db.transaction(tableName, 'readonly');
+    const index = tx.store.index(indexKey);
+    const entries: Array<{ key: number; value: any }> = [];
+
+    for (const indexKeyValue of indexKeyValues) {
+      let cursor = await index.openCursor(IDBKeyRange.only(indexKeyValue));
+      let count = 0;
+
+      while (cursor && (limit === undefined || count < limit)) {
+        const key = cursor.primaryKey as number;
+
+        if (afterKey !== undefined && key < afterKey) {
+          cursor = await cursor.continuePrimaryKey(indexKeyValue, afterKey);
+          continue;
+        }
+        if (afterKey === undefined || key > afterKey) {
+          entries.push({ key, value: cursor.value });
+          count++;
+        }
+        cursor = await cursor.continue();
+      }
+    }
+
+    entries.sort((a, b) => a.key - b.key);
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
   /**
    * Group all data by index key
    * Returns a map of { [indexValue]: [data...] }
@@ -201,6 +283,30 @@ export class IDB {
     return count;
   }
 
+  /**
+   * Delete all data whose index value is within a range
+   * Only keys are read, so large rows are not loaded
+   * Returns the number of deleted records
+   */
+  async deleteDataByIndexRange(
+    tableName = DEFAULT_DB_OBJECT.name,
+    indexKey: string,
+    range: IDBKeyRange,
+  ): Promise<number> {
+    const tx = this.db.transaction(tableName, 'readwrite');
+    let cursor = await tx.store.index(indexKey).openKeyCursor(range);
+    let count = 0;
+
+    while (cursor) {
+      tx.store.delete(cursor.primaryKey);
+      count++;
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    return count;
+  }
+
   /**
    * Delete object store (table)
    */
@@ -1,4 +1,4 @@
-import { DB_INDEX_KEY, DB_NAME, DB_TABLE_NAME, RESERVE_DURATION } from '../constants/db';
+import { DB_INDEX_KEY, DB_NAME, DB_TABLE_NAME, DB_TIME_INDEX_KEY, DB_VERSION, RESERVE_DURATION } from '../constants/db';
 
 import { IDB } from './db';
 
@@ -6,8 +6,12 @@ import { IDB } from './db';
  * Initialize IndexedDB with standard schema
  */
 export async function initDB(projectName: string): Promise<IDB> {
-  const db = new IDB(`${DB_NAME}-${projectName}`, 1, [
-    { name: DB_TABLE_NAME.RENDER_EVENT, indexKeys: [DB_INDEX_KEY] },
+  const db = new IDB(`${DB_NAME}-${projectName}`, DB_VERSION, [
+    {
+      name: DB_TABLE_NAME.RENDER_EVENT,
+      indexKeys: [DB_INDEX_KEY],
+      indexes: [{ name: DB_TIME_INDEX_KEY, keyPath: [DB_INDEX_KEY, 'timestamp'] }],
+    },
     { name: DB_TABLE_NAME.RESPONSE_DATA, indexKeys: [DB_INDEX_KEY] },
   ]);
 
@@ -0,0 +1,63 @@
+import type { eventWithTime, recordOptions } from 'rrweb/typings/types';
+
+import { DEFAULT_BLOCK_CLASS, DEFAULT_IGNORE_CLASS, DEFAULT_MASK_TEXT_CLASS } from '../constants/privacy';
+import type { MaskInputType, PrivacyOption, PrivacySummary } from '../types';
+
+type PrivacyRecordOptions = Pick<
+  recordOptions<eventWithTime>,
+  | 'maskAllInputs'
+  | 'maskInputOptions'
+  | 'maskInputFn'
+  | 'maskTextSelector'
+  | 'maskTextClass'
+  | 'maskTextFn'
+  | 'blockSelector'
+  | 'blockClass'
+  | 'ignoreClass'
+>;
+
+/**
+ * Map recorder privacy options onto rrweb record options
+ * rrweb only calls the mask functions for text and input values a rule applies to, onMask reports those
+ */
+export function toRecordPrivacyOptions(privacy: PrivacyOption = {}, onMask?: () => void): PrivacyRecordOptions {
+  return {
+    maskAllInputs: privacy.maskAllInputs ?? false,
+    // Password fields are always masked, whatever the configuration says
+    maskInputOptions: { ...privacy.maskInputTypes, password: true },
+    maskInputFn: (text) => {
+      if (text) onMask?.();
+      return privacy.maskInputFn ? privacy.maskInputFn(text) : '*'.repeat(text.length);
+    },
+    maskTextSelector: privacy.maskTextSelector,
+    maskTextClass: privacy.maskTextClass ?? DEFAULT_MASK_TEXT_CLASS,
+    maskTextFn: (text) => {
+      if (text) onMask?.();
+      return privacy.maskTextFn ? privacy.maskTextFn(text) : text.replace(/[\S]/g, '*');
+    },
+    blockSelector: privacy.blockSelector,
+    blockClass: privacy.blockClass ?? DEFAULT_BLOCK_CLASS,
+    ignoreClass: privacy.ignoreClass ?? DEFAULT_IGNORE_CLASS,
+  };
+}
+
+/**
+ * Build the serializable privacy summary recorded on the timeline
+ */
+export function getPrivacySummary(privacy: PrivacyOption = {}): PrivacySummary {
+  const maskInputTypes = Object.entries({ ...privacy.maskInputTypes, password: true })
+    .filter(([, enabled]) => enabled)
+    .map(([type]) => type as MaskInputType);
+
+  return {
+    maskAllInputs: privacy.maskAllInputs ?? false,
+    maskInputTypes,
+    maskTextSelector: privacy.maskTextSelector ?? null,
+    maskTextClass: privacy.maskTextClass ?? DEFAULT_MASK_TEXT_CLASS,
+    blockSelector: privacy.blockSelector ?? null,
+    blockClass: privacy.blockClass ?? DEFAULT_BLOCK_CLASS,
+    ignoreClass: privacy.ignoreClass ?? DEFAULT_IGNORE_CLASS,
+    customMaskText: !!privacy.maskTextFn,
+    customMaskInput: !!privacy.maskInputFn,
+  };
+}
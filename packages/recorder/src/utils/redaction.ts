@@ -0,0 +1,246 @@
+import { DEFAULT_REDACTED_HEADERS, DEFAULT_REDACTION_REPLACEMENT } from '../constants/redaction';
+import type { RedactionOption, RedactionRule } from '../types';
+import type { HarEntry, HarHeader, HarQueryString } from '../types/har';
+
+/**
+ * Redaction settings resolved for a single request URL
+ */
+interface ResolvedRedaction {
+  headers: Set<string>;
+  bodyPaths: string[][];
+  rules: RedactionRule[];
+  dropRequestBody: boolean;
+  dropResponseBody: boolean;
+  replacement: string;
+}
+
+/**
+ * Split a JSON path like 'items[*].token' into segments: ['items', '*', 'token']
+ */
+export function parseJsonPath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+}
+
+/**
+ * Mask values at the given path segments in place
+ * Returns true if at least one value was replaced
+ */
+function maskJsonPath(target: any, segments: string[], replacement: string): boolean {
+  if (target === null || typeof target !== 'object' || segments.length === 0) {
+    return false;
+  }
+
+  const [segment, ...rest] = segments;
+  const keys = segment === '*' ? Object.keys(target) : [segment!];
+  let masked = false;
+
+  keys.forEach((key) => {
+    if (!(key in target)) return;
+
+    if (rest.length === 0) {
+      target[key] = replacement;
+      masked = true;
+    } else if (maskJsonPath(target[key], rest, replacement)) {
+      masked = true;
+    }
+  });
+
+  return masked;
+}
+
+/**
+ * Apply regex rules to a string and record which ones fired
+ */
+function applyRules(text: string, rules: RedactionRule[], replacement: string, fired: Set<string>): string {
+  return rules.reduce((result, rule) => {
+    // Always match globally and start from a clean lastIndex
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    const pattern = new RegExp(rule.pattern.source, flags);
+
+    if (!pattern.test(result)) {
+      return result;
+    }
+
+    fired.add(`rule:${rule.name}`);
+    pattern.lastIndex = 0;
+    return result.replace(pattern, rule.replacement ?? replacement);
+  }, text);
+}
+
+/**
+ * Redact a request or response body
+ */
+function redactBody(
+  text: string | undefined,
+  location: 'request' | 'response',
+  config: ResolvedRedaction,
+  fired: Set<string>,
+): string | undefined {
+  if (!text) {
+    return text;
+  }
+
+  const drop = location === 'request' ? config.dropRequestBody : config.dropResponseBody;
+  if (drop) {
+    fired.add(`${location}.body`);
+    return config.replacement;
+  }
+
+  let result = text;
+
+  if (config.bodyPaths.length) {
+    try {
+      const json = JSON.parse(text);
+      let masked = false;
+
+      config.bodyPaths.forEach((segments) => {
+        if (maskJsonPath(json, segments, config.replacement)) {
+          fired.add(`${location}.body:${segments.join('.')}`);
+          masked = true;
+        }
+      });
+
+      if (masked) {
+        result = JSON.stringify(json);
+      }
+    } catch {
+      // Not a JSON body, only regex rules apply
+    }
+  }
+
+  return applyRules(result, config.rules, config.replacement, fired);
+}
+
+/**
+ * Redact header values by deny-list and regex rules
+ */
+function redactHeaders(
+  headers: HarHeader[],
+  location: 'request' | 'response',
+  config: ResolvedRedaction,
+  fired: Set<string>,
+): HarHeader[] {
+  return headers.map((header) => {
+    const name = header.name.toLowerCase();
+
+    if (config.headers.has(name)) {
+      fired.add(`${location}.header:${name}`);
+      return { ...header, value: config.replacement };
+    }
+
+    return { ...header, value: applyRules(header.value, config.rules, config.replacement, fired) };
+  });
+}
+
+/**
+ * Redact query string values with regex rules
+ */
+function redactQueryString(
+  queryString: HarQueryString[],
+  config: ResolvedRedaction,
+  fired: Set<string>,
+): HarQueryString[] {
+  return queryString.map((item) => ({
+    ...item,
+    value: applyRules(item.value, config.rules, config.replacement, fired),
+  }));
+}
+
+/**
+ * Redact form fields of a request body like the body itself
+ * A body path naming a top-level field masks that field
+ */
+function redactParams(
+  params: HarQueryString[] | undefined,
+  config: ResolvedRedaction,
+  fired: Set<string>,
+): HarQueryString[] | undefined {
+  if (!params) {
+    return params;
+  }
+
+  return params.map((param) => {
+    if (config.dropRequestBody) {
+      fired.add('request.body');
+      return { ...param, value: config.replacement };
+    }
+
+    const path = config.bodyPaths.find(
+      (segments) => segments.length === 1 && (segments[0] === '*' || segments[0] === param.name),
+    );
+    if (path) {
+      fired.add(`request.body:${path.join('.')}`);
+      return { ...param, value: config.replacement };
+    }
+
+    return { ...param, value: applyRules(param.value, config.rules, config.replacement, fired) };
+  });
+}
+
+/**
+ * Check if a URL matches a policy matcher
+ */
+function matchesUrl(url: string, match: string | RegExp): boolean {
+  return typeof match === 'string' ? url.includes(match) : new RegExp(match.source, match.flags).test(url);
+}
+
+/**
+ * Merge global options with the URL policies matching this request
+ */
+function resolveRedaction(option: RedactionOption, url: string): ResolvedRedaction {
+  const policies = (option.urlPolicies || []).filter((policy) => matchesUrl(url, policy.match));
+
+  const headers = [...(option.headers ?? DEFAULT_REDACTED_HEADERS), ...policies.flatMap((p) => p.headers || [])];
+  const bodyPaths = [...(option.bodyPaths || []), ...policies.flatMap((p) => p.bodyPaths || [])];
+
+  return {
+    headers: new Set(headers.map((name) => name.toLowerCase())),
+    bodyPaths: bodyPaths.map(parseJsonPath).filter((segments) => segments.length > 0),
+    rules: [...(option.rules || []), ...policies.flatMap((p) => p.rules || [])],
+    dropRequestBody: policies.some((p) => p.dropRequestBody),
+    dropResponseBody: policies.some((p) => p.dropResponseBody),
+    replacement: option.replacement ?? DEFAULT_REDACTION_REPLACEMENT,
+  };
+}
+
+/**
+ * Return a redacted copy of a HAR entry
+ * Fired rules are listed in `_redactions` so the replayer can show that a value was masked
+ */
+export function redactHarEntry(entry: HarEntry, option: RedactionOption = {}): HarEntry {
+  const config = resolveRedaction(option, entry.request.url);
+  const fired = new Set<string>(entry._redactions || []);
+
+  const request = {
+    ...entry.request,
+    url: applyRules(entry.request.url, config.rules, config.replacement, fired),
+    headers: redactHeaders(entry.request.headers, 'request', config, fired),
+    queryString: redactQueryString(entry.request.queryString, config, fired),
+    postData: entry.request.postData && {
+      ...entry.request.postData,
+      text: redactBody(entry.request.postData.text, 'request', config, fired),
+      params: redactParams(entry.request.postData.params, config, fired),
+    },
+  };
+
+  const response = {
+    ...entry.response,
+    headers: redactHeaders(entry.response.headers, 'response', config, fired),
+    content: {
+      ...entry.response.content,
+      text: redactBody(entry.response.content.text, 'response', config, fired),
+    },
+  };
+
+  const redacted: HarEntry = { ...entry, request, response };
+
+  if (fired.size > 0) {
+    redacted._redactions = Array.from(fired);
+  }
+
+  return redacted;
+}
@@ -0,0 +1,123 @@
+import type { HarEntry, HarTimings } from '../types/har';
+
+import { getHarQueryString, getISOTimestamp, NOT_AVAILABLE } from './harHelper';
+
+/**
+ * Round a duration to microsecond precision
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Duration between two timing marks, or -1 when the phase did not happen
+ */
+function span(start: number, end: number): number {
+  return start > 0 && end >= start ? round(end - start) : -1;
+}
+
+/**
+ * Absolute (epoch) start time of a resource timing entry
+ */
+export function getResourceStartTime(timing: PerformanceResourceTiming): number {
+  return performance.timeOrigin + timing.startTime;
+}
+
+/**
+ * Cross-origin resources without Timing-Allow-Origin only expose their duration
+ */
+export function hasDetailedTiming(timing: PerformanceResourceTiming): boolean {
+  return timing.requestStart > 0;
+}
+
+/**
+ * Convert resource timing marks to HAR timings
+ * The send phase is not exposed by the browser and is always 0
+ */
+export function getHarTimings(timing: PerformanceResourceTiming): HarTimings {
+  if (!hasDetailedTiming(timing)) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: round(timing.duration), receive: 0 };
+  }
+
+  return {
+    blocked: span(timing.startTime, timing.domainLookupStart),
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: timing.secureConnectionStart > 0 ? span(timing.secureConnectionStart, timing.connectEnd) : -1,
+    send: 0,
+    wait: Math.max(span(timing.requestStart, timing.responseStart), 0),
+    receive: Math.max(span(timing.responseStart, timing.responseEnd), 0),
+  };
+}
+
+/**
+ * Fill timings, sizes and protocol of an intercepted request from its resource timing entry
+ */
+export function applyResourceTiming(entry: HarEntry, timing: PerformanceResourceTiming): HarEntry {
+  if (!hasDetailedTiming(timing)) {
+    return entry;
+  }
+
+  const protocol = timing.nextHopProtocol || entry.response.httpVersion;
+  // A transfer size of 0 with a body means the response came from the cache
+  const fromCache = timing.transferSize === 0 && timing.decodedBodySize > 0;
+
+  return {
+    ...entry,
+    request: { ...entry.request, httpVersion: protocol },
+    response: {
+      ...entry.response,
+      httpVersion: protocol,
+      _transferSize: timing.transferSize,
+      bodySize: fromCache ? 0 : timing.encodedBodySize,
+      headersSize: fromCache ? 0 : Math.max(timing.transferSize - timing.encodedBodySize, 0),
+      content: {
+        ...entry.response.content,
+        size: timing.decodedBodySize || entry.response.content.size,
+      },
+    },
+    timings: getHarTimings(timing),
+  };
+}
+
+/**
+ * Create a HAR entry for a resource the page loaded without XHR or fetch (script, image, stylesheet...)
+ * Resource timing does not expose headers or bodies, and older browsers do not expose the status
+ */
+export function createResourceHarEntry(timing: PerformanceResourceTiming): HarEntry {
+  const protocol = timing.nextHopProtocol || NOT_AVAILABLE;
+  const status = timing.responseStatus || 0;
+  const detailed = hasDetailedTiming(timing);
+
+  return {
+    _type: timing.initiatorType || 'other',
+    startedDateTime: getISOTimestamp(getResourceStartTime(timing)),
+    time: round(timing.duration),
+    request: {
+      method: 'GET',
+      url: timing.name,
+      httpVersion: protocol,
+      cookies: [],
+      headers: [],
+      queryString: getHarQueryString(timing.name),
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      _transferSize: detailed ? timing.transferSize : undefined,
+      // Treat unknown statuses as loaded: the browser only reports resources it finished fetching
+      status: status || 200,
+      statusText: '',
+      httpVersion: protocol,
+      cookies: [],
+      headers: [],
+      content: { size: timing.decodedBodySize, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: detailed ? timing.encodedBodySize : -1,
+      comment: status ? undefined : 'Status not exposed by the browser',
+    },
+    cache: {},
+    timings: getHarTimings(timing),
+  };
+}
@@ -1,4 +1,11 @@
-import { ACTIVE_SESSION_IDS, UPLOADING_SESSION_ID } from '../constants/session';
+import {
+  ACTIVE_SESSION_IDS,
+  PAGE_SESSION,
+  SEGMENT_UPLOAD_STATE_PREFIX,
+  TAB_SESSIONS,
+  UPLOADING_SESSION_ID,
+} from '../constants/session';
+import type { PageSessionEntry, SegmentUploadState, TabSessionEntry } from '../types';
 
 // Cache for active session IDs
 let activeSessionIdsCache: number[] | null = null;
@@ -88,3 +95,98 @@ export function getUploadingSessionId(): number | null {
   const json = localStorage.getItem(UPLOADING_SESSION_ID);
   return json ? Number(json) : null;
 }
+
+/**
+ * Get segmented upload progress for a local session
+ */
+export function getSegmentUploadState(sessionId: number): SegmentUploadState | null {
+  const json = localStorage.getItem(`${SEGMENT_UPLOAD_STATE_PREFIX}${sessionId}`);
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json) as SegmentUploadState;
+  } catch (error) {
+    console.warn('[Session] Failed to parse segment upload state:', error);
+    return null;
+  }
+}
+
+/**
+ * Save segmented upload progress for a local session
+ */
+export function setSegmentUploadState(sessionId: number, state: SegmentUploadState): void {
+  localStorage.setItem(`${SEGMENT_UPLOAD_STATE_PREFIX}${sessionId}`, JSON.stringify(state));
+}
+
+/**
+ * Clear segmented upload progress for a local session
+ */
+export function clearSegmentUploadState(sessionId: number): void {
+  localStorage.removeItem(`${SEGMENT_UPLOAD_STATE_PREFIX}${sessionId}`);
+}
+
+/**
+ * Get local session IDs with a segmented upload in progress
+ */
+export function getSegmentUploadSessionIds(): number[] {
+  const sessionIds: number[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(SEGMENT_UPLOAD_STATE_PREFIX)) {
+      sessionIds.push(Number(key.slice(SEGMENT_UPLOAD_STATE_PREFIX.length)));
+    }
+  }
+
+  return sessionIds.filter((id) => !isNaN(id));
+}
+
+/**
+ * Get the shared sessions of all tabs, by shared session ID
+ */
+export function getTabSessions(): Record<string, TabSessionEntry> {
+  const json = localStorage.getItem(TAB_SESSIONS);
+  if (!json) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(json) || {};
+  } catch (error) {
+    console.warn('[Session] Failed to parse tab sessions:', error);
+    return {};
+  }
+}
+
+/**
+ * Save the shared sessions of all tabs
+ */
+export function setTabSessions(sessions: Record<string, TabSessionEntry>): void {
+  localStorage.setItem(TAB_SESSIONS, JSON.stringify(sessions));
+}
+
+/**
+ * Get the session of this tab from sessionStorage
+ */
+export function getPageSession(): PageSessionEntry | null {
+  const json = sessionStorage.getItem(PAGE_SESSION);
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json) as PageSessionEntry;
+  } catch (error) {
+    console.warn('[Session] Failed to parse page session:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the session of this tab
+ */
+export function setPageSession(entry: PageSessionEntry): void {
+  sessionStorage.setItem(PAGE_SESSION, JSON.stringify(entry));
+}
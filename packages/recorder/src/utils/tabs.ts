@@ -0,0 +1,37 @@
+import type { TabStreamInfo } from '../types';
+import type { HarEntry } from '../types/har';
+
+export interface TabStreamData extends TabStreamInfo {
+  eventData: any[]; // rrweb eventWithTime[]
+  responseData: HarEntry[];
+}
+
+/**
+ * Random ID of a tab (or of a request between tabs)
+ */
+export function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Merge the recordings of several tabs into one session, in timestamp order
+ * Events get a tabId field and network entries a _tabId field, so the replayer can split them again
+ * A single tab is returned as is
+ */
+export function mergeTabStreams(streams: TabStreamData[]): { eventData: any[]; responseData: HarEntry[] } {
+  const recorded = streams.filter((stream) => stream.eventData.length > 0 || stream.responseData.length > 0);
+
+  if (recorded.length <= 1) {
+    return { eventData: recorded[0]?.eventData ?? [], responseData: recorded[0]?.responseData ?? [] };
+  }
+
+  // Sorting is stable, events of one tab keep their recording order
+  const eventData = recorded
+    .flatMap((stream) => stream.eventData.map((event) => ({ ...event, tabId: stream.tabId })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const responseData = recorded
+    .flatMap((stream) => stream.responseData.map((entry) => ({ ...entry, _tabId: stream.tabId })))
+    .sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+  return { eventData, responseData };
+}
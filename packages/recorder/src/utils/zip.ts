@@ -0,0 +1,107 @@
+// Largest size a zip without the ZIP64 extension can describe
+const MAX_ZIP_SIZE = 0xffffffff;
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array<ArrayBuffer>; // Stored or raw-deflated bytes
+  method: 0 | 8; // 0: stored, 8: deflate
+  crc: number; // CRC-32 of the uncompressed bytes
+  size: number; // Uncompressed size
+}
+
+/**
+ * CRC-32 of some bytes, pass the previous result to continue over several chunks
+ * The table is built per call so the function stays self-contained, the archive worker embeds its source
+ */
+export function crc32(bytes: Uint8Array, previous: number = 0): number {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+
+  let crc = previous ^ -1;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (crc >>> 8) ^ table[(crc ^ bytes[i]!) & 0xff]!;
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+/**
+ * DOS time and date fields of a zip header
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write already compressed entries into a zip file
+ * Only the headers are built here, entry data is referenced by the Blob without copying
+ * @throws Error if the archive needs ZIP64 (entries or archive above 4GB)
+ */
+export function createZipBlob(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: Array<ArrayBuffer | Uint8Array<ArrayBuffer>> = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    if (entry.size > MAX_ZIP_SIZE || offset > MAX_ZIP_SIZE) {
+      throw new Error(`Zip entry ${entry.path} is too large, archives are limited to 4GB`);
+    }
+
+    const name = encoder.encode(entry.path);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, entry.method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed to extract
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, entry.method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, entry.crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // Offset of the local header, other fields stay 0
+
+    parts.push(local.buffer, name, entry.data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  if (offset + centralSize > MAX_ZIP_SIZE) {
+    throw new Error('Zip archive is too large, archives are limited to 4GB');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Offset of the central directory
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+}
@@ -1,5 +1,7 @@
 import { defineConfig } from 'tsup';
 
+import { version } from './package.json';
+
 export default defineConfig({
   entry: ['src/index.ts'],
   format: ['cjs', 'esm'],
@@ -24,6 +26,8 @@ export default defineConfig({
     options.define = {
       global: 'globalThis',
       Buffer: 'globalThis.Buffer',
+      // Recorder version written into exported archives
+      __RECORDER_VERSION__: JSON.stringify(version),
     };
     // Inject buffer polyfill
     options.inject = ['./buffer-shim.js'];
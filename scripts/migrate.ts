@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+
+/**
+ * Database Migration Script
+ * Applies pending schema migrations to the configured database (Postgres or SQLite),
+ * or reverts the last applied one
+ *
+ * Usage:
+ *   npm run db:migrate    Apply pending migrations, existing data is kept
+ *   npm run db:rollback   Revert the most recent migration (asks for confirmation)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+
+import dotenv from 'dotenv';
+
+import { getDatabaseConfig } from '../src/config/database';
+import { getDb, type SessionRepository } from '../src/lib/db';
+import { MIGRATIONS } from '../src/lib/db/migrations';
+
+// Get __dirname equivalent in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables from .env.local
+const envLocalPath = path.join(__dirname, '..', '.env.local');
+if (fs.existsSync(envLocalPath)) {
+  dotenv.config({ path: envLocalPath });
+} else {
+  // Try .env as fallback
+  dotenv.config();
+}
+
+// ANSI color codes for terminal output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+function log(message: string, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function error(message: string) {
+  log(`❌ ${message}`, colors.red);
+}
+
+function success(message: string) {
+  log(`✅ ${message}`, colors.green);
+}
+
+function warn(message: string) {
+  log(`⚠️  ${message}`, colors.yellow);
+}
+
+function info(message: string) {
+  log(`ℹ️  ${message}`, colors.cyan);
+}
+
+function askQuestion(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Apply pending migrations
+ */
+async function migrate(db: SessionRepository) {
+  const applied = await db.migrate();
+
+  if (applied.length === 0) {
+    success('Schema is up to date, no pending migrations');
+  } else {
+    applied.forEach((migration) => success(`Applied ${migration.version} ${migration.name}`));
+  }
+}
+
+/**
+ * Revert the most recent migration after confirmation
+ */
+async function rollback(db: SessionRepository) {
+  const pending = new Set((await db.pendingMigrations()).map((migration) => migration.version));
+  const latest = MIGRATIONS.filter((migration) => !pending.has(migration.version)).pop();
+
+  if (!latest) {
+    info('No migration is applied, nothing to roll back.');
+    return;
+  }
+
+  warn(`This will revert migration ${latest.version} ${latest.name}.`);
+  warn('Tables and columns added by it are dropped, with their data!\n');
+
+  const answer = await askQuestion('Do you want to continue? Type "yes" to proceed: ');
+
+  if (answer.toLowerCase() !== 'yes') {
+    info('Operation cancelled by user.');
+    await db.close();
+    process.exit(0);
+  }
+
+  log('');
+  const reverted = await db.rollback();
+  if (reverted) {
+    success(`Reverted ${reverted.version} ${reverted.name}`);
+  }
+}
+
+async function main() {
+  const command = process.argv[2] === 'rollback' ? 'rollback' : 'migrate';
+
+  log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━', colors.blue);
+  log('  Web Reel Database Migration', colors.blue);
+  log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n', colors.blue);
+
+  const config = getDatabaseConfig();
+
+  if (config.backend === 'memory') {
+    info('DATABASE_BACKEND=memory has no schema, nothing to do.');
+    process.exit(0);
+  }
+
+  if (config.backend === 'postgres') {
+    // Mask password in URL for display
+    info(`Database: Postgres ${config.url!.replace(/:([^:@]+)@/, ':****@')}\n`);
+  } else {
+    info(`Database: SQLite ${path.resolve(config.sqlitePath)}\n`);
+  }
+
+  const db = getDb();
+
+  try {
+    if (command === 'rollback') {
+      await rollback(db);
+    } else {
+      await migrate(db);
+    }
+
+    log('');
+    success('✨ Database migration completed successfully!');
+    log('');
+  } catch (err: any) {
+    log('');
+    error('Database migration failed:');
+    error(err.message);
+
+    if (err.code) {
+      error(`Error code: ${err.code}`);
+    }
+
+    log('');
+    info('Common issues:');
+    info('  1. Check that DATABASE_URL (or SQLITE_PATH) is correct');
+    info('  2. Ensure your database server is running');
+    info('  3. Verify network connectivity to Neon');
+    info('  4. Check that SSL mode is configured correctly');
+
+    await db.close();
+    process.exit(1);
+  }
+
+  await db.close();
+  process.exit(0);
+}
+
+// Run the script
+main().catch((err) => {
+  error('Unexpected error:');
+  console.error(err);
+  process.exit(1);
+});
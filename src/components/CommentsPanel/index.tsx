@@ -0,0 +1,236 @@
+import { AimOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Button, Empty, Input, Popconfirm, Space, Spin, Tag, Tooltip, Typography, message } from 'antd';
+import dayjs from 'dayjs';
+import { useCallback, useEffect, useState } from 'react';
+
+import { TRIAGE_AUTHOR_KEY } from '@/constants';
+import type { CreateSessionCommentResponse, ListSessionCommentsResponse } from '@/types/session';
+import { formatReplayOffset } from '@/utils/replayAnnotations';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+export type CommentItem = NonNullable<ListSessionCommentsResponse['comments']>[number];
+
+interface CommentsPanelProps {
+  sessionId: string | number;
+  getCurrentOffset: () => number; // Current replay offset in ms
+  onSelect: (_comment: CommentItem) => void; // Seek to a comment
+  onPickNode?: () => Promise<number | null>; // Let the user pick an element in the replay
+  onCommentsChange?: (_comments: CommentItem[]) => void;
+}
+
+export default function CommentsPanel({
+  sessionId,
+  getCurrentOffset,
+  onSelect,
+  onPickNode,
+  onCommentsChange,
+}: CommentsPanelProps) {
+  const [comments, setComments] = useState<CommentItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [picking, setPicking] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [draft, setDraft] = useState('');
+  const [nodeId, setNodeId] = useState<number | null>(null);
+
+  // Remember the comment author between sessions
+  useEffect(() => {
+    setAuthor(localStorage.getItem(TRIAGE_AUTHOR_KEY) || '');
+  }, []);
+
+  const updateComments = useCallback(
+    (next: CommentItem[]) => {
+      const sorted = [...next].sort((a, b) => a.offset_ms - b.offset_ms || a.id - b.id);
+      setComments(sorted);
+      onCommentsChange?.(sorted);
+    },
+    [onCommentsChange],
+  );
+
+  useEffect(() => {
+    const loadComments = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/comments`);
+        const data: ListSessionCommentsResponse = await response.json();
+
+        if (!data.success || !data.comments) {
+          throw new Error(data.error || 'Failed to load comments');
+        }
+
+        updateComments(data.comments);
+      } catch (error) {
+        console.error('[Comments] Failed to load comments:', error);
+        message.error('Failed to load comments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const handlePickNode = async () => {
+    if (!onPickNode) return;
+
+    setPicking(true);
+    message.info('Click an element in the replay (Esc to cancel)');
+    try {
+      const picked = await onPickNode();
+      if (picked !== null) {
+        setNodeId(picked);
+      }
+    } finally {
+      setPicking(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!draft.trim()) return;
+
+    setPosting(true);
+    try {
+      localStorage.setItem(TRIAGE_AUTHOR_KEY, author.trim());
+
+      const response = await fetch(`/api/sessions/${sessionId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          offset_ms: Math.round(getCurrentOffset()),
+          node_id: nodeId ?? undefined,
+          body: draft,
+          author: author.trim() || undefined,
+        }),
+      });
+      const data: CreateSessionCommentResponse = await response.json();
+
+      if (!data.success || !data.comment) {
+        throw new Error(data.error || 'Failed to add comment');
+      }
+
+      updateComments([...comments, data.comment]);
+      setDraft('');
+      setNodeId(null);
+    } catch (error) {
+      console.error('[Comments] Failed to add comment:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to add comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDeleteComment = async (commentId: number) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/comments/${commentId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete comment');
+      }
+
+      updateComments(comments.filter((comment) => comment.id !== commentId));
+    } catch (error) {
+      console.error('[Comments] Failed to delete comment:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to delete comment');
+    }
+  };
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ flex: 1, overflow: 'auto', padding: '0 12px' }}>
+        <Spin spinning={loading}>
+          {comments.length === 0 ? (
+            <Empty
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+              description="No comments yet. Pause the replay and add one below."
+              style={{ marginTop: 40 }}
+            />
+          ) : (
+            comments.map((comment) => (
+              <div
+                key={comment.id}
+                onClick={() => onSelect(comment)}
+                style={{
+                  marginTop: 12,
+                  padding: '8px 12px',
+                  background: '#fafafa',
+                  borderRadius: 4,
+                  border: '1px solid #f0f0f0',
+                  cursor: 'pointer',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <Tag color="purple" style={{ marginRight: 0 }}>
+                    {formatReplayOffset(comment.offset_ms)}
+                  </Tag>
+                  {comment.node_id !== null && (
+                    <Tooltip title={`Points at node #${comment.node_id}`}>
+                      <AimOutlined style={{ color: '#722ed1' }} />
+                    </Tooltip>
+                  )}
+                  <Text strong>{comment.author || 'Anonymous'}</Text>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {dayjs(comment.created_at).format('YYYY-MM-DD HH:mm')}
+                  </Text>
+                  <Popconfirm
+                    title="Delete this comment?"
+                    onConfirm={(e) => {
+                      e?.stopPropagation();
+                      handleDeleteComment(comment.id);
+                    }}
+                    onCancel={(e) => e?.stopPropagation()}
+                    okText="Delete"
+                    okButtonProps={{ danger: true }}
+                  >
+                    <Button
+                      type="link"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={(e) => e.stopPropagation()}
+                      style={{ marginLeft: 'auto' }}
+                    />
+                  </Popconfirm>
+                </div>
+                <Paragraph style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap' }}>{comment.body}</Paragraph>
+              </div>
+            ))
+          )}
+        </Spin>
+      </div>
+
+      <div style={{ padding: 12, borderTop: '1px solid #f0f0f0', background: '#fafafa' }}>
+        <TextArea
+          autoSize={{ minRows: 2, maxRows: 6 }}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Comment at the current replay position..."
+        />
+        <Space style={{ marginTop: 8 }} wrap>
+          <Input
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Your name"
+            style={{ width: 160 }}
+          />
+          {onPickNode && (
+            <Button icon={<AimOutlined />} loading={picking} onClick={handlePickNode}>
+              {nodeId !== null ? `Node #${nodeId}` : 'Pick Element'}
+            </Button>
+          )}
+          {nodeId !== null && (
+            <Button type="link" size="small" onClick={() => setNodeId(null)}>
+              Clear
+            </Button>
+          )}
+          <Button type="primary" loading={posting} disabled={!draft.trim()} onClick={handleAddComment}>
+            Comment
+          </Button>
+        </Space>
+      </div>
+    </div>
+  );
+}
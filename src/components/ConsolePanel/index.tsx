@@ -1,4 +1,5 @@
-import { Button, Descriptions, Drawer, Empty, Pagination, Switch, Typography } from 'antd';
+import { LinkOutlined } from '@ant-design/icons';
+import { Button, Descriptions, Drawer, Empty, Pagination, Switch, Tag, Tooltip, Typography } from 'antd';
 import React, { useEffect, useRef, useState } from 'react';
 
 import { LEVEL_COLOR_MAP } from '@/constants';
@@ -14,6 +15,8 @@ interface ConsolePanelProps {
   autoScroll?: boolean;
   currentTime?: number;
   onSeekToTime?: (_timestamp: number) => void;
+  focusIndex?: number; // Index of a log to scroll to and highlight, e.g. from a deep link
+  onCopyLink?: (_index: number, _timestamp: number) => void;
 }
 
 /**
@@ -94,14 +97,24 @@ function parseCSSText(cssText: string): React.CSSProperties {
   return styles as React.CSSProperties;
 }
 
+/**
+ * Label for logs recorded from window 'error' / 'unhandledrejection'
+ */
+function getUncaughtLabel(log: LogInfo): string {
+  return log.uncaught?.kind === 'unhandledrejection' ? 'Unhandled rejection' : 'Uncaught';
+}
+
 interface LogItemProps {
   log: LogInfo;
+  index: number;
   highlight: boolean;
+  focused: boolean;
   onSeekToTime?: (_timestamp: number) => void;
+  onCopyLink?: (_index: number, _timestamp: number) => void;
   onClick: () => void;
 }
 
-function LogItem({ log, highlight, onSeekToTime, onClick }: LogItemProps) {
+function LogItem({ log, index, highlight, focused, onSeekToTime, onCopyLink, onClick }: LogItemProps) {
   const backgroundColor = LEVEL_COLOR_MAP[log.level] || '#fff';
 
   // Parse formatted log content
@@ -109,12 +122,37 @@ function LogItem({ log, highlight, onSeekToTime, onClick }: LogItemProps) {
 
   return (
     <div
-      className={`console-log-item ${highlight ? 'console-log-item-highlight' : ''}`}
+      className={`console-log-item ${highlight ? 'console-log-item-highlight' : ''} ${focused ? 'console-log-item-focused' : ''}`}
       style={{ backgroundColor, cursor: 'pointer' }}
+      data-log-index={index}
       onClick={onClick}
     >
       <div className="console-log-header">
         <span className="console-log-level">[{log.level.toUpperCase()}]</span>
+        {log.uncaught && (
+          <Tag color="red" style={{ marginLeft: 8 }}>
+            {getUncaughtLabel(log)}
+          </Tag>
+        )}
+        {log.frame && (
+          <Tooltip title={log.frame}>
+            <Tag style={{ marginLeft: 8 }}>iframe</Tag>
+          </Tooltip>
+        )}
+        {log.timestamp && onCopyLink && (
+          <Tooltip title="Copy link to this log">
+            <Button
+              type="link"
+              size="small"
+              icon={<LinkOutlined />}
+              onClick={(e) => {
+                e.stopPropagation();
+                onCopyLink(index, log.timestamp!);
+              }}
+              style={{ marginLeft: 'auto', padding: 0, height: 'auto' }}
+            />
+          </Tooltip>
+        )}
         {log.timestamp && onSeekToTime && (
           <Button
             type="link"
@@ -123,7 +161,7 @@ function LogItem({ log, highlight, onSeekToTime, onClick }: LogItemProps) {
               e.stopPropagation();
               onSeekToTime(log.timestamp!);
             }}
-            style={{ marginLeft: 'auto', padding: 0, height: 'auto' }}
+            style={{ marginLeft: onCopyLink ? 8 : 'auto', padding: 0, height: 'auto' }}
           >
             Seek →
           </Button>
@@ -167,6 +205,21 @@ function LogDetail({ log, visible, onClose }: LogDetailProps) {
           {log.timestamp && (
             <Descriptions.Item label="Timestamp">{new Date(log.timestamp).toLocaleString()}</Descriptions.Item>
           )}
+          {log.uncaught && <Descriptions.Item label="Type">{getUncaughtLabel(log)}</Descriptions.Item>}
+          {log.frame && (
+            <Descriptions.Item label="Frame">
+              <Text code copyable>
+                {log.frame}
+              </Text>
+            </Descriptions.Item>
+          )}
+          {log.uncaught?.source && (
+            <Descriptions.Item label="Source">
+              <Text code copyable>
+                {`${log.uncaught.source}:${log.uncaught.line ?? 0}:${log.uncaught.column ?? 0}`}
+              </Text>
+            </Descriptions.Item>
+          )}
         </Descriptions>
       </div>
 
@@ -192,11 +245,38 @@ function LogDetail({ log, visible, onClose }: LogDetailProps) {
           ))}
         </div>
       </div>
+
+      {log.uncaught?.stack && (
+        <div style={{ marginTop: 16 }}>
+          <Typography.Title level={5}>Stack Trace</Typography.Title>
+          <pre
+            style={{
+              padding: 12,
+              background: '#fafafa',
+              borderRadius: 4,
+              border: '1px solid #f0f0f0',
+              maxHeight: 400,
+              overflow: 'auto',
+              fontSize: 12,
+              margin: 0,
+            }}
+          >
+            {log.uncaught.stack}
+          </pre>
+        </div>
+      )}
     </Drawer>
   );
 }
 
-export default function ConsolePanel({ logs, autoScroll = true, currentTime, onSeekToTime }: ConsolePanelProps) {
+export default function ConsolePanel({
+  logs,
+  autoScroll = true,
+  currentTime,
+  onSeekToTime,
+  focusIndex,
+  onCopyLink,
+}: ConsolePanelProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [selectedLog, setSelectedLog] = useState<LogInfo | null>(null);
   const [drawerVisible, setDrawerVisible] = useState(false);
@@ -210,6 +290,22 @@ export default function ConsolePanel({ logs, autoScroll = true, currentTime, onS
     }
   }, [logs, autoScroll]);
 
+  // Open the page holding the focused log
+  useEffect(() => {
+    if (focusIndex === undefined || focusIndex >= logs.length) return;
+
+    setShowErrorsOnly(false);
+    setCurrentPage(Math.floor(focusIndex / PAGE_SIZE) + 1);
+  }, [focusIndex, logs.length]);
+
+  // Scroll the focused log into view once its page is rendered
+  useEffect(() => {
+    if (focusIndex === undefined || !containerRef.current) return;
+
+    const element = containerRef.current.querySelector(`[data-log-index="${focusIndex}"]`);
+    element?.scrollIntoView({ block: 'center' });
+  }, [focusIndex, currentPage, showErrorsOnly, logs]);
+
   // Check if a log should be highlighted based on current time
   const isHighlighted = (log: LogInfo) => {
     if (!currentTime || !log.timestamp) return false;
@@ -293,15 +389,23 @@ export default function ConsolePanel({ logs, autoScroll = true, currentTime, onS
             style={{ marginTop: 40 }}
           />
         ) : (
-          paginatedLogs.map((log, index) => (
-            <LogItem
-              key={startIndex + index}
-              log={log}
-              highlight={isHighlighted(log)}
-              onSeekToTime={onSeekToTime}
-              onClick={() => handleLogClick(log)}
-            />
-          ))
+          paginatedLogs.map((log, index) => {
+            // Links point at the position in the unfiltered list
+            const logIndex = showErrorsOnly ? logs.indexOf(log) : startIndex + index;
+
+            return (
+              <LogItem
+                key={startIndex + index}
+                log={log}
+                index={logIndex}
+                highlight={isHighlighted(log)}
+                focused={logIndex === focusIndex}
+                onSeekToTime={onSeekToTime}
+                onCopyLink={onCopyLink}
+                onClick={() => handleLogClick(log)}
+              />
+            );
+          })
         )}
       </div>
 
@@ -1,8 +1,45 @@
-import { CopyOutlined } from '@ant-design/icons';
-import { Button, Descriptions, Drawer, Empty, Pagination, Space, Switch, Tag, Typography, message } from 'antd';
-import { useState } from 'react';
+import {
+  CopyOutlined,
+  DownloadOutlined,
+  EyeInvisibleOutlined,
+  FieldTimeOutlined,
+  LinkOutlined,
+  SearchOutlined,
+  TableOutlined,
+  UnorderedListOutlined,
+} from '@ant-design/icons';
+import {
+  Button,
+  Descriptions,
+  Drawer,
+  Empty,
+  Input,
+  InputNumber,
+  Pagination,
+  Segmented,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import type { TableColumnsType } from 'antd';
+import { useEffect, useRef, useState } from 'react';
 
-import type { HarEntry } from '@/types/har';
+import type { HarEntry, HarTimings } from '@/types/har';
+import {
+  EMPTY_NETWORK_FILTERS,
+  STATUS_CLASS_OPTIONS,
+  getRequestType,
+  getStatusClass,
+  getWaterfallRange,
+  hasActiveFilters,
+  isRequestInFlight,
+  matchesNetworkFilters,
+  type NetworkFilters,
+} from '@/utils/networkFilter';
 
 import './styles.css';
 
@@ -13,6 +50,9 @@ interface NetworkPanelProps {
   requests: HarEntry[];
   currentTime?: number;
   onSeekToTime?: (_timestamp: number) => void;
+  focusIndex?: number; // Index of a request to scroll to and highlight, e.g. from a deep link
+  onCopyLink?: (_index: number, _timestamp: number) => void;
+  onExportHar?: () => void; // Download all requests as a HAR 1.2 file
 }
 
 function getStatusColor(status: number): string {
@@ -37,6 +77,30 @@ function getEntryName(url: string): string {
   }
 }
 
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// HAR timing phases in the order they happen; -1 or missing means the phase did not apply
+const TIMING_PHASES: { key: keyof HarTimings; label: string }[] = [
+  { key: 'blocked', label: 'Queueing / Stalled' },
+  { key: 'dns', label: 'DNS Lookup' },
+  { key: 'connect', label: 'Initial Connection' },
+  { key: 'ssl', label: 'SSL / TLS' },
+  { key: 'send', label: 'Request Sent' },
+  { key: 'wait', label: 'Waiting (TTFB)' },
+  { key: 'receive', label: 'Content Download' },
+];
+
+/**
+ * Whether the entry carries a real timing breakdown (recorders without resource timing only set zeros)
+ */
+function hasTimingBreakdown(timings: HarTimings): boolean {
+  return TIMING_PHASES.some(({ key }) => key !== 'send' && Number(timings[key]) > 0);
+}
+
 function copyToClipboard(text: string) {
   navigator.clipboard.writeText(text).then(
     () => message.success('Copied to clipboard'),
@@ -46,23 +110,43 @@ function copyToClipboard(text: string) {
 
 interface RequestItemProps {
   entry: HarEntry;
+  index: number;
   highlight: boolean;
+  focused: boolean;
   onDetailClick: (_entry: HarEntry) => void;
   onSeekToTime?: (_timestamp: number) => void;
+  onCopyLink?: (_index: number, _timestamp: number) => void;
 }
 
-function RequestItem({ entry, highlight, onDetailClick, onSeekToTime }: RequestItemProps) {
+function RequestItem({ entry, index, highlight, focused, onDetailClick, onSeekToTime, onCopyLink }: RequestItemProps) {
   const name = getEntryName(entry.request.url);
   const statusColor = getStatusColor(entry.response.status);
   const requestTime = Date.parse(entry.startedDateTime);
 
   return (
-    <div className={`network-item ${highlight ? 'network-item-highlight' : ''}`} onClick={() => onDetailClick(entry)}>
+    <div
+      className={`network-item ${highlight ? 'network-item-highlight' : ''} ${focused ? 'network-item-focused' : ''}`}
+      data-entry-index={index}
+      onClick={() => onDetailClick(entry)}
+    >
       <div className="network-item-header">
         <Text strong className="network-item-name" title={entry.request.url}>
           {name}
         </Text>
         <Space size="small">
+          {onCopyLink && (
+            <Tooltip title="Copy link to this request">
+              <Button
+                type="link"
+                size="small"
+                icon={<LinkOutlined />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCopyLink(index, requestTime);
+                }}
+              />
+            </Tooltip>
+          )}
           {onSeekToTime && (
             <Button
               type="link"
@@ -88,6 +172,13 @@ function RequestItem({ entry, highlight, onDetailClick, onSeekToTime }: RequestI
         <Text type="secondary">
           <Text strong>Time:</Text> {entry.time.toFixed(0)}ms
         </Text>
+        {entry._redactions && entry._redactions.length > 0 && (
+          <Tooltip title={`Masked by: ${entry._redactions.join(', ')}`}>
+            <Tag icon={<EyeInvisibleOutlined />} color="purple">
+              Masked
+            </Tag>
+          </Tooltip>
+        )}
       </Space>
     </div>
   );
@@ -123,9 +214,50 @@ function RequestDetail({ entry, visible, onClose }: RequestDetailProps) {
             </Descriptions.Item>
             <Descriptions.Item label="Time">{entry.time.toFixed(2)} ms</Descriptions.Item>
             <Descriptions.Item label="Started">{new Date(entry.startedDateTime).toLocaleString()}</Descriptions.Item>
+            {entry._type && <Descriptions.Item label="Type">{entry._type}</Descriptions.Item>}
+            {entry.response.httpVersion && entry.response.httpVersion !== 'NOT_AVAILABLE' && (
+              <Descriptions.Item label="Protocol">{entry.response.httpVersion}</Descriptions.Item>
+            )}
+            {entry.response._transferSize !== undefined && (
+              <Descriptions.Item label="Size">
+                {entry.response._transferSize === 0 && entry.response.content.size > 0
+                  ? `${formatSize(entry.response.content.size)} (from cache)`
+                  : `${formatSize(entry.response._transferSize)} transferred, ${formatSize(entry.response.content.size)} resource`}
+              </Descriptions.Item>
+            )}
+            {entry._redactions && entry._redactions.length > 0 && (
+              <Descriptions.Item label="Masked">
+                <Space size={[4, 4]} wrap>
+                  {entry._redactions.map((rule) => (
+                    <Tag key={rule} color="purple">
+                      {rule}
+                    </Tag>
+                  ))}
+                </Space>
+                <div>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    These values were masked by the recorder before upload.
+                  </Text>
+                </div>
+              </Descriptions.Item>
+            )}
           </Descriptions>
         </div>
 
+        {/* Timing */}
+        {entry.timings && hasTimingBreakdown(entry.timings) && (
+          <div>
+            <Typography.Title level={5}>Timing</Typography.Title>
+            <Descriptions column={1} size="small" bordered>
+              {TIMING_PHASES.filter(({ key }) => Number(entry.timings[key]) >= 0).map(({ key, label }) => (
+                <Descriptions.Item key={key} label={label}>
+                  {Number(entry.timings[key]).toFixed(2)} ms
+                </Descriptions.Item>
+              ))}
+            </Descriptions>
+          </div>
+        )}
+
         {/* Request Headers */}
         <div>
           <Typography.Title level={5}>Request Headers</Typography.Title>
@@ -196,15 +328,79 @@ function RequestDetail({ entry, visible, onClose }: RequestDetailProps) {
   );
 }
 
-export default function NetworkPanel({ requests, currentTime, onSeekToTime }: NetworkPanelProps) {
+interface IndexedRequest {
+  entry: HarEntry;
+  index: number; // Position in the time-sorted list, used by deep links
+}
+
+interface WaterfallBarProps {
+  entry: HarEntry;
+  range: { start: number; end: number };
+  currentTime?: number;
+}
+
+/**
+ * Request bar positioned on the session's network timeline, with a cursor at the player position
+ */
+function WaterfallBar({ entry, range, currentTime }: WaterfallBarProps) {
+  const span = range.end - range.start;
+  const start = Date.parse(entry.startedDateTime);
+  const left = ((start - range.start) / span) * 100;
+  const width = Math.min(Math.max((entry.time / span) * 100, 0.5), 100 - left);
+  const cursor =
+    currentTime && currentTime >= range.start && currentTime <= range.end
+      ? ((currentTime - range.start) / span) * 100
+      : null;
+
+  return (
+    <Tooltip title={`Started at +${(start - range.start).toFixed(0)}ms, took ${entry.time.toFixed(0)}ms`}>
+      <div className="network-waterfall">
+        <div
+          className={`network-waterfall-bar network-waterfall-bar-${getStatusClass(entry.response.status)}`}
+          style={{ left: `${left}%`, width: `${width}%` }}
+        />
+        {cursor !== null && <div className="network-waterfall-cursor" style={{ left: `${cursor}%` }} />}
+      </div>
+    </Tooltip>
+  );
+}
+
+export default function NetworkPanel({
+  requests,
+  currentTime,
+  onSeekToTime,
+  focusIndex,
+  onCopyLink,
+  onExportHar,
+}: NetworkPanelProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
   const [selectedEntry, setSelectedEntry] = useState<HarEntry | null>(null);
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
-  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [filters, setFilters] = useState<NetworkFilters>(EMPTY_NETWORK_FILTERS);
+  const [viewMode, setViewMode] = useState<'list' | 'table'>('list');
 
   // Sort requests by time
   const sortedRequests = [...requests].sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
 
+  // Open the page holding the focused request
+  useEffect(() => {
+    if (focusIndex === undefined || focusIndex >= requests.length) return;
+
+    setFilters(EMPTY_NETWORK_FILTERS);
+    setCurrentPage(Math.floor(focusIndex / PAGE_SIZE) + 1);
+  }, [focusIndex, requests.length]);
+
+  // Scroll the focused request into view once its page is rendered
+  useEffect(() => {
+    if (focusIndex === undefined || !contentRef.current) return;
+
+    const element = contentRef.current.querySelector(
+      `[data-entry-index="${focusIndex}"], tr[data-row-key="${focusIndex}"]`,
+    );
+    element?.scrollIntoView({ block: 'center' });
+  }, [focusIndex, currentPage, filters, viewMode, requests]);
+
   const handleDetailClick = (entry: HarEntry) => {
     setSelectedEntry(entry);
     setDrawerVisible(true);
@@ -218,9 +414,9 @@ export default function NetworkPanel({ requests, currentTime, onSeekToTime }: Ne
     setCurrentPage(page);
   };
 
-  const handleFilterToggle = (checked: boolean) => {
-    setShowErrorsOnly(checked);
-    setCurrentPage(1); // Reset to first page when toggling filter
+  const updateFilters = (changes: Partial<NetworkFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setCurrentPage(1); // Reset to first page when changing filters
   };
 
   // Find highlighted request based on current time
@@ -231,10 +427,15 @@ export default function NetworkPanel({ requests, currentTime, onSeekToTime }: Ne
     return timeDiff < 2000; // Within 2 seconds
   };
 
-  // Apply filtering
-  const filteredRequests = showErrorsOnly
-    ? sortedRequests.filter((entry) => entry.response.status >= 400)
-    : sortedRequests;
+  // Filter options come from the recorded requests
+  const methodOptions = Array.from(new Set(sortedRequests.map((entry) => entry.request.method.toUpperCase()))).sort();
+  const typeOptions = Array.from(new Set(sortedRequests.map(getRequestType))).sort();
+
+  // Apply filtering, keeping each request's position in the unfiltered list
+  const filtersActive = hasActiveFilters(filters);
+  const filteredRequests = sortedRequests
+    .map((entry, index): IndexedRequest => ({ entry, index }))
+    .filter(({ entry }) => matchesNetworkFilters(entry, filters));
 
   // Calculate paginated requests
   const totalRequests = filteredRequests.length;
@@ -242,30 +443,184 @@ export default function NetworkPanel({ requests, currentTime, onSeekToTime }: Ne
   const endIndex = startIndex + PAGE_SIZE;
   const paginatedRequests = filteredRequests.slice(startIndex, endIndex);
 
+  // Waterfall positions are relative to all requests so bars don't move when filtering
+  const waterfallRange = getWaterfallRange(sortedRequests);
+
+  const columns: TableColumnsType<IndexedRequest> = [
+    {
+      title: 'Name',
+      key: 'name',
+      ellipsis: true,
+      render: (_, { entry }) => <span title={entry.request.url}>{getEntryName(entry.request.url)}</span>,
+      sorter: (a, b) => getEntryName(a.entry.request.url).localeCompare(getEntryName(b.entry.request.url)),
+    },
+    {
+      title: 'Method',
+      key: 'method',
+      width: 80,
+      render: (_, { entry }) => entry.request.method,
+      sorter: (a, b) => a.entry.request.method.localeCompare(b.entry.request.method),
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      width: 80,
+      render: (_, { entry }) => <Tag color={getStatusColor(entry.response.status)}>{entry.response.status}</Tag>,
+      sorter: (a, b) => a.entry.response.status - b.entry.response.status,
+    },
+    {
+      title: 'Type',
+      key: 'type',
+      width: 70,
+      render: (_, { entry }) => getRequestType(entry),
+      sorter: (a, b) => getRequestType(a.entry).localeCompare(getRequestType(b.entry)),
+    },
+    {
+      title: 'Time',
+      key: 'time',
+      width: 80,
+      render: (_, { entry }) => `${entry.time.toFixed(0)}ms`,
+      sorter: (a, b) => a.entry.time - b.entry.time,
+    },
+    {
+      title: 'Waterfall',
+      key: 'waterfall',
+      width: '30%',
+      render: (_, { entry }) =>
+        waterfallRange && <WaterfallBar entry={entry} range={waterfallRange} currentTime={currentTime} />,
+      sorter: (a, b) => a.index - b.index,
+    },
+    {
+      key: 'actions',
+      width: 64,
+      render: (_, { entry, index }) => (
+        <Space size={0}>
+          {onCopyLink && (
+            <Button
+              type="link"
+              size="small"
+              icon={<LinkOutlined />}
+              title="Copy link to this request"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCopyLink(index, Date.parse(entry.startedDateTime));
+              }}
+            />
+          )}
+          {onSeekToTime && (
+            <Button
+              type="link"
+              size="small"
+              icon={<FieldTimeOutlined />}
+              title="Seek to this request"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSeekToTime(Date.parse(entry.startedDateTime));
+              }}
+            />
+          )}
+        </Space>
+      ),
+    },
+  ];
+
   return (
     <div className="network-panel">
-      {/* Filter Control */}
-      <div
-        style={{
-          padding: '8px 12px',
-          borderBottom: '1px solid #f0f0f0',
-          background: '#fafafa',
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-        }}
-      >
-        <Text type="secondary" style={{ fontSize: 12 }}>
-          {showErrorsOnly ? `Showing ${totalRequests} error(s)` : `Showing all ${totalRequests} request(s)`}
-        </Text>
-        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-          <Text style={{ fontSize: 13 }}>Show Errors Only</Text>
-          <Switch checked={showErrorsOnly} onChange={handleFilterToggle} size="small" />
+      {/* Filter Controls */}
+      <div className="network-toolbar">
+        <div className="network-toolbar-row">
+          <Input
+            size="small"
+            allowClear
+            prefix={<SearchOutlined />}
+            placeholder="Filter by URL"
+            value={filters.text}
+            onChange={(e) => updateFilters({ text: e.target.value })}
+            style={{ flex: 1 }}
+          />
+          <Segmented
+            size="small"
+            value={viewMode}
+            onChange={(value) => setViewMode(value as 'list' | 'table')}
+            options={[
+              { value: 'list', icon: <UnorderedListOutlined />, title: 'List' },
+              { value: 'table', icon: <TableOutlined />, title: 'Table & waterfall' },
+            ]}
+          />
+        </div>
+        <div className="network-toolbar-row">
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="Method"
+            maxTagCount="responsive"
+            value={filters.methods}
+            onChange={(methods) => updateFilters({ methods })}
+            options={methodOptions.map((method) => ({ value: method, label: method }))}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="Status"
+            maxTagCount="responsive"
+            value={filters.statusClasses}
+            onChange={(statusClasses) => updateFilters({ statusClasses })}
+            options={STATUS_CLASS_OPTIONS}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <Select
+            size="small"
+            mode="multiple"
+            allowClear
+            placeholder="Type"
+            maxTagCount="responsive"
+            value={filters.types}
+            onChange={(types) => updateFilters({ types })}
+            options={typeOptions.map((type) => ({ value: type, label: type }))}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <InputNumber
+            size="small"
+            min={0}
+            placeholder="Min time"
+            addonAfter="ms"
+            value={filters.minDuration}
+            onChange={(minDuration) => updateFilters({ minDuration })}
+            style={{ width: 130 }}
+          />
+        </div>
+        <div className="network-toolbar-row">
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {filtersActive
+              ? `Showing ${totalRequests} of ${sortedRequests.length} request(s)`
+              : `Showing all ${totalRequests} request(s)`}
+          </Text>
+          <Space size={0}>
+            {filtersActive && (
+              <Button type="link" size="small" onClick={() => updateFilters(EMPTY_NETWORK_FILTERS)}>
+                Clear filters
+              </Button>
+            )}
+            {onExportHar && (
+              <Button
+                type="link"
+                size="small"
+                icon={<DownloadOutlined />}
+                disabled={sortedRequests.length === 0}
+                onClick={onExportHar}
+              >
+                Export HAR
+              </Button>
+            )}
+          </Space>
         </div>
       </div>
 
       {/* Pagination */}
-      {totalRequests > PAGE_SIZE && (
+      {viewMode === 'list' && totalRequests > PAGE_SIZE && (
         <div style={{ padding: '8px 8px 4px', borderBottom: '1px solid #f0f0f0', background: '#fafafa' }}>
           <Pagination
             current={currentPage}
@@ -279,20 +634,46 @@ export default function NetworkPanel({ requests, currentTime, onSeekToTime }: Ne
         </div>
       )}
 
-      <div className="network-panel-content">
+      <div ref={contentRef} className="network-panel-content">
         {filteredRequests.length === 0 ? (
           <Empty
-            description={showErrorsOnly ? 'No error requests found' : 'No network requests recorded'}
+            description={filtersActive ? 'No requests match the filters' : 'No network requests recorded'}
             style={{ marginTop: 40 }}
           />
+        ) : viewMode === 'table' ? (
+          <Table<IndexedRequest>
+            size="small"
+            rowKey="index"
+            columns={columns}
+            dataSource={filteredRequests}
+            pagination={{
+              current: currentPage,
+              pageSize: PAGE_SIZE,
+              onChange: handlePageChange,
+              showSizeChanger: false,
+              hideOnSinglePage: true,
+              size: 'small',
+            }}
+            rowClassName={({ entry, index }) =>
+              [
+                'network-row',
+                currentTime && isRequestInFlight(entry, currentTime) ? 'network-row-in-flight' : '',
+                index === focusIndex ? 'network-row-focused' : '',
+              ].join(' ')
+            }
+            onRow={({ entry }) => ({ onClick: () => handleDetailClick(entry) })}
+          />
         ) : (
-          paginatedRequests.map((entry, index) => (
+          paginatedRequests.map(({ entry, index }) => (
             <RequestItem
-              key={`${entry.startedDateTime}-${startIndex + index}`}
+              key={`${entry.startedDateTime}-${index}`}
               entry={entry}
+              index={index}
               highlight={isHighlighted(entry)}
+              focused={index === focusIndex}
               onDetailClick={handleDetailClick}
               onSeekToTime={onSeekToTime}
+              onCopyLink={onCopyLink}
             />
           ))
         )}
@@ -0,0 +1,306 @@
+import { DeleteOutlined, MessageOutlined } from '@ant-design/icons';
+import { Button, Empty, Form, Input, Popconfirm, Select, Space, Spin, Typography, message } from 'antd';
+import dayjs from 'dayjs';
+import { useCallback, useEffect, useState } from 'react';
+
+import { TRIAGE_AUTHOR_KEY, TRIAGE_STATUS_OPTIONS } from '@/constants';
+import type {
+  CreateSessionNoteResponse,
+  GetSessionResponse,
+  ListSessionNotesResponse,
+  SessionTriageStatus,
+  UpdateSessionResponse,
+} from '@/types/session';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+export interface SessionTriageFields {
+  tags: string[];
+  triage_status: SessionTriageStatus;
+  assignee: string | null;
+}
+
+type NoteItem = NonNullable<ListSessionNotesResponse['notes']>[number];
+
+interface NoteThread extends NoteItem {
+  replies: NoteThread[];
+}
+
+interface SessionTriagePanelProps {
+  sessionId: string | number;
+  onChange?: (_fields: SessionTriageFields) => void; // Called after triage fields are saved
+}
+
+/**
+ * Nest notes under their parent, keeping creation order
+ */
+function buildThreads(notes: NoteItem[]): NoteThread[] {
+  const byId = new Map<number, NoteThread>();
+  const roots: NoteThread[] = [];
+
+  notes.forEach((note) => byId.set(note.id, { ...note, replies: [] }));
+  byId.forEach((note) => {
+    const parent = note.parent_id !== null ? byId.get(note.parent_id) : undefined;
+    (parent ? parent.replies : roots).push(note);
+  });
+
+  return roots;
+}
+
+export default function SessionTriagePanel({ sessionId, onChange }: SessionTriagePanelProps) {
+  const [form] = Form.useForm<SessionTriageFields>();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [notes, setNotes] = useState<NoteItem[]>([]);
+  const [author, setAuthor] = useState('');
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  // Remember the note author between sessions
+  useEffect(() => {
+    setAuthor(localStorage.getItem(TRIAGE_AUTHOR_KEY) || '');
+  }, []);
+
+  const loadTriage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [sessionResponse, notesResponse] = await Promise.all([
+        fetch(`/api/sessions/${sessionId}`),
+        fetch(`/api/sessions/${sessionId}/notes`),
+      ]);
+      const sessionResult: GetSessionResponse = await sessionResponse.json();
+      const notesResult: ListSessionNotesResponse = await notesResponse.json();
+
+      if (!sessionResult.success || !sessionResult.session) {
+        throw new Error(sessionResult.error || 'Failed to load session');
+      }
+
+      form.setFieldsValue({
+        tags: sessionResult.session.tags,
+        triage_status: sessionResult.session.triage_status,
+        assignee: sessionResult.session.assignee,
+      });
+      setNotes(notesResult.notes || []);
+    } catch (error) {
+      console.error('[Triage] Failed to load triage data:', error);
+      message.error('Failed to load triage data');
+    } finally {
+      setLoading(false);
+    }
+  }, [form, sessionId]);
+
+  useEffect(() => {
+    loadTriage();
+  }, [loadTriage]);
+
+  const handleSave = async (values: SessionTriageFields) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tags: values.tags || [],
+          triage_status: values.triage_status,
+          assignee: values.assignee || '',
+        }),
+      });
+      const data: UpdateSessionResponse = await response.json();
+
+      if (!data.success || !data.session) {
+        throw new Error(data.error || 'Failed to update session');
+      }
+
+      const fields = {
+        tags: data.session.tags,
+        triage_status: data.session.triage_status,
+        assignee: data.session.assignee,
+      };
+      form.setFieldsValue(fields);
+      onChange?.(fields);
+      message.success('Triage updated');
+    } catch (error) {
+      console.error('[Triage] Failed to update session:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to update session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddNote = async (body: string, parentId?: number) => {
+    if (!body.trim()) return;
+
+    setPosting(true);
+    try {
+      localStorage.setItem(TRIAGE_AUTHOR_KEY, author.trim());
+
+      const response = await fetch(`/api/sessions/${sessionId}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, author: author.trim() || undefined, parent_id: parentId }),
+      });
+      const data: CreateSessionNoteResponse = await response.json();
+
+      if (!data.success || !data.note) {
+        throw new Error(data.error || 'Failed to add note');
+      }
+
+      setNotes((prev) => [...prev, data.note!]);
+      if (parentId) {
+        setReplyTo(null);
+        setReplyDraft('');
+      } else {
+        setDraft('');
+      }
+    } catch (error) {
+      console.error('[Triage] Failed to add note:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to add note');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: number) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/notes/${noteId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete note');
+      }
+
+      // Replies are deleted with their parent
+      const removed = new Set([noteId]);
+      notes.forEach((note) => {
+        if (note.parent_id !== null && removed.has(note.parent_id)) removed.add(note.id);
+      });
+      setNotes((prev) => prev.filter((note) => !removed.has(note.id)));
+    } catch (error) {
+      console.error('[Triage] Failed to delete note:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to delete note');
+    }
+  };
+
+  const renderThread = (note: NoteThread, depth = 0) => (
+    <div key={note.id} style={{ marginLeft: depth ? 24 : 0, marginTop: 12 }}>
+      <div style={{ padding: '8px 12px', background: '#fafafa', borderRadius: 4, border: '1px solid #f0f0f0' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <Text strong>{note.author || 'Anonymous'}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {dayjs(note.created_at).format('YYYY-MM-DD HH:mm')}
+          </Text>
+          <Space size={0} style={{ marginLeft: 'auto' }}>
+            <Button
+              type="link"
+              size="small"
+              icon={<MessageOutlined />}
+              onClick={() => {
+                setReplyTo(note.id);
+                setReplyDraft('');
+              }}
+            >
+              Reply
+            </Button>
+            <Popconfirm
+              title="Delete this note?"
+              description={note.replies.length > 0 ? 'Replies are deleted too.' : undefined}
+              onConfirm={() => handleDeleteNote(note.id)}
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+            >
+              <Button type="link" size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          </Space>
+        </div>
+        <Paragraph style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap' }}>{note.body}</Paragraph>
+      </div>
+
+      {replyTo === note.id && (
+        <div style={{ marginLeft: 24, marginTop: 8 }}>
+          <TextArea
+            autoSize={{ minRows: 2, maxRows: 6 }}
+            value={replyDraft}
+            onChange={(e) => setReplyDraft(e.target.value)}
+            placeholder="Write a reply..."
+            autoFocus
+          />
+          <Space style={{ marginTop: 8 }}>
+            <Button
+              type="primary"
+              size="small"
+              loading={posting}
+              disabled={!replyDraft.trim()}
+              onClick={() => handleAddNote(replyDraft, note.id)}
+            >
+              Reply
+            </Button>
+            <Button size="small" onClick={() => setReplyTo(null)}>
+              Cancel
+            </Button>
+          </Space>
+        </div>
+      )}
+
+      {note.replies.map((reply) => renderThread(reply, depth + 1))}
+    </div>
+  );
+
+  const threads = buildThreads(notes);
+
+  return (
+    <Spin spinning={loading}>
+      <div style={{ padding: 16 }}>
+        <Form form={form} layout="vertical" onFinish={handleSave}>
+          <Form.Item label="Status" name="triage_status">
+            <Select options={TRIAGE_STATUS_OPTIONS.map(({ value, label }) => ({ value, label }))} />
+          </Form.Item>
+          <Form.Item label="Assignee" name="assignee">
+            <Input placeholder="Unassigned" allowClear />
+          </Form.Item>
+          <Form.Item label="Tags" name="tags">
+            <Select mode="tags" placeholder="Add tags" tokenSeparators={[',']} open={false} />
+          </Form.Item>
+          <Form.Item>
+            <Button type="primary" htmlType="submit" loading={saving}>
+              Save
+            </Button>
+          </Form.Item>
+        </Form>
+
+        <Typography.Title level={5}>Notes ({notes.length})</Typography.Title>
+        {threads.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No notes yet" />
+        ) : (
+          threads.map((note) => renderThread(note))
+        )}
+
+        <div style={{ marginTop: 16 }}>
+          <Input
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Your name"
+            style={{ marginBottom: 8, maxWidth: 240 }}
+          />
+          <TextArea
+            autoSize={{ minRows: 3, maxRows: 8 }}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a note..."
+          />
+          <Button
+            type="primary"
+            style={{ marginTop: 8 }}
+            loading={posting && replyTo === null}
+            disabled={!draft.trim()}
+            onClick={() => handleAddNote(draft)}
+          >
+            Add Note
+          </Button>
+        </div>
+      </div>
+    </Spin>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Database Configuration
+ *
+ * Session metadata is stored in one of:
+ * - postgres: Postgres, e.g. Neon (default when DATABASE_URL is set)
+ * - sqlite: a local SQLite file, for local development and self-hosting on a single server
+ * - memory: in-process storage, lost on restart (tests)
+ *
+ * Server side only, the values below are read from .env.local
+ */
+
+export type DatabaseBackend = 'postgres' | 'sqlite' | 'memory';
+
+export const DATABASE_BACKENDS: DatabaseBackend[] = ['postgres', 'sqlite', 'memory'];
+
+export interface DatabaseConfig {
+  backend: DatabaseBackend;
+  url?: string; // Postgres connection string
+  sqlitePath: string; // Database file of the sqlite backend
+}
+
+// Default database file of the sqlite backend, relative to the working directory
+const DEFAULT_SQLITE_PATH = '.data/web-reel.sqlite';
+
+/**
+ * Read the database configuration from environment variables
+ * Without DATABASE_BACKEND, Postgres is used when DATABASE_URL is set and SQLite otherwise
+ * @throws Error if the backend is unknown or its required variables are missing
+ */
+export function getDatabaseConfig(): DatabaseConfig {
+  const backend = (process.env.DATABASE_BACKEND ||
+    (process.env.DATABASE_URL ? 'postgres' : 'sqlite')) as DatabaseBackend;
+
+  if (!DATABASE_BACKENDS.includes(backend)) {
+    throw new Error(`Invalid DATABASE_BACKEND "${backend}" (must be one of: ${DATABASE_BACKENDS.join(', ')})`);
+  }
+
+  if (backend === 'postgres' && !process.env.DATABASE_URL) {
+    throw new Error('DATABASE_BACKEND=postgres requires DATABASE_URL to be set');
+  }
+
+  return {
+    backend,
+    url: process.env.DATABASE_URL,
+    sqlitePath: process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Storage Configuration
+ *
+ * Session files are stored in one of:
+ * - vercel-blob: Vercel Blob (default, needs BLOB_READ_WRITE_TOKEN)
+ * - filesystem: a local directory, for self-hosting on a single server
+ * - s3: any S3-compatible object storage (AWS S3, MinIO, Cloudflare R2...)
+ *
+ * Server side only, the values below are read from .env.local
+ */
+
+export type StorageBackend = 'vercel-blob' | 'filesystem' | 's3';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['vercel-blob', 'filesystem', 's3'];
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // Address the bucket as endpoint/bucket instead of bucket.endpoint (MinIO)
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  directory: string; // Root directory of the filesystem backend
+  s3?: S3StorageConfig;
+}
+
+// Default root directory of the filesystem backend, relative to the working directory
+const DEFAULT_STORAGE_DIR = '.data/storage';
+
+/**
+ * Read the storage configuration from environment variables
+ * @throws Error if the backend is unknown or its required variables are missing
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = (process.env.STORAGE_BACKEND || 'vercel-blob') as StorageBackend;
+
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Invalid STORAGE_BACKEND "${backend}" (must be one of: ${STORAGE_BACKENDS.join(', ')})`);
+  }
+
+  const config: StorageConfig = {
+    backend,
+    directory: process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR,
+  };
+
+  if (backend === 's3') {
+    const missing = ['S3_ENDPOINT', 'S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(
+      (name) => !process.env[name],
+    );
+    if (missing.length > 0) {
+      throw new Error(`STORAGE_BACKEND=s3 requires ${missing.join(', ')} to be set`);
+    }
+
+    config.s3 = {
+      endpoint: process.env.S3_ENDPOINT!.replace(/\/+$/, ''),
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET!,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    };
+  }
+
+  return config;
+}
@@ -1,6 +1,7 @@
 // General constants
 
 import { EAppId, LogLevel } from '@/types';
+import type { SessionTriageStatus } from '@/types/session';
 
 // rrweb original attribute name for patching
 export const ORIGINAL_ATTRIBUTE_NAME = '__rrweb_original__';
@@ -47,3 +48,35 @@ export const REPLAYER_SEARCH_HISTORY = 'replayer_search_history';
 
 // Maximum search history count
 export const MAX_SEARCH_HISTORY_COUNT = 5;
+
+// Custom event tag carrying the recorder's privacy settings
+export const PRIVACY_EVENT_TAG = 'privacy-config';
+
+// Custom event tag marking the error that triggered an automatic capture
+export const ERROR_TRIGGER_EVENT_TAG = 'error-trigger';
+
+// Custom event tag carrying an uncaught error or unhandled rejection
+export const UNCAUGHT_ERROR_EVENT_TAG = 'uncaught-error';
+
+// Creator written into HAR files exported from the replayer
+export const HAR_CREATOR = { name: 'Web Reel Replayer', version: '1.0' };
+
+// Class added to blocked regions in the replay so they can be highlighted
+export const BLOCKED_REGION_CLASS = 'web-reel-blocked';
+
+// Session triage statuses with display labels and tag colors
+export const TRIAGE_STATUS_OPTIONS: Array<{ value: SessionTriageStatus; label: string; color: string }> = [
+  { value: 'new', label: 'New', color: 'blue' },
+  { value: 'investigating', label: 'Investigating', color: 'orange' },
+  { value: 'resolved', label: 'Resolved', color: 'green' },
+  { value: 'ignored', label: 'Ignored', color: 'default' },
+];
+
+// Note and comment author name localStorage key
+export const TRIAGE_AUTHOR_KEY = 'triage_author';
+
+// Custom event tag recording when a tab was shown or hidden
+export const TAB_ACTIVITY_EVENT_TAG = 'tab-activity';
+
+// Custom event tag marking the start of a page load
+export const PAGE_LOAD_EVENT_TAG = 'page-load';
@@ -0,0 +1,91 @@
+/**
+ * Database singleton for session metadata
+ * The backend is chosen by DATABASE_BACKEND (or DATABASE_URL), see src/config/database.ts
+ */
+
+import { createMemoryRepository } from './memory';
+import { createPostgresRepository } from './postgres';
+import { createSqliteRepository } from './sqlite';
+import type { SessionRepository } from './types';
+
+import { getDatabaseConfig } from '@/config/database';
+
+export type {
+  NewSession,
+  NewSessionComment,
+  NewSessionNote,
+  NewSessionSegment,
+  SessionChanges,
+  SessionRepository,
+} from './types';
+export type { Migration } from './migrations';
+export { MAX_INDEX_ENTRIES } from './search';
+
+/**
+ * Members that work on an outdated schema, all other methods wait for the schema check
+ */
+const SCHEMA_CHECK_EXEMPT = new Set<string | symbol>(['backend', 'migrate', 'rollback', 'pendingMigrations', 'close']);
+
+/**
+ * Refuse to serve while migrations are pending
+ * A failed check is retried on the next call, so running db:migrate needs no restart
+ */
+function withSchemaCheck(repository: SessionRepository): SessionRepository {
+  let schemaCheck: Promise<void> | null = null;
+
+  const checkSchema = (): Promise<void> => {
+    if (!schemaCheck) {
+      schemaCheck = repository.pendingMigrations().then((pending) => {
+        if (pending.length > 0) {
+          const names = pending.map((migration) => `${migration.version} ${migration.name}`).join(', ');
+          throw new Error(`Database schema is out of date (pending migrations: ${names}), run \`npm run db:migrate\``);
+        }
+      });
+      schemaCheck.catch(() => {
+        schemaCheck = null;
+      });
+    }
+    return schemaCheck;
+  };
+
+  // Start checking as soon as the database is opened
+  void checkSchema();
+
+  return new Proxy(repository, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || SCHEMA_CHECK_EXEMPT.has(property)) {
+        return value;
+      }
+
+      return async (...args: unknown[]) => {
+        await checkSchema();
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+// Singleton database instance
+let dbInstance: SessionRepository | null = null;
+
+/**
+ * Get the database of the configured backend
+ * Until pending migrations are applied, every query fails with an error asking to run db:migrate
+ */
+export const getDb = (): SessionRepository => {
+  if (!dbInstance) {
+    const config = getDatabaseConfig();
+
+    if (config.backend === 'postgres') {
+      dbInstance = createPostgresRepository(config.url!);
+    } else if (config.backend === 'sqlite') {
+      dbInstance = createSqliteRepository(config.sqlitePath);
+    } else {
+      dbInstance = createMemoryRepository();
+    }
+
+    dbInstance = withSchemaCheck(dbInstance);
+  }
+  return dbInstance;
+};
@@ -0,0 +1,255 @@
+/**
+ * In-memory session repository, for tests
+ * Data lives in the server process and is lost on restart, rows are copied so callers cannot mutate them
+ */
+
+import { buildSearchText, mergeSessionIndex, parseSearchQuery } from './search';
+import type { SessionRepository } from './types';
+
+import type {
+  Session,
+  SessionComment,
+  SessionIndexData,
+  SessionMetadata,
+  SessionNote,
+  SessionSegment,
+} from '@/types/session';
+
+interface StoredIndex extends SessionIndexData {
+  search_text: string;
+}
+
+const copy = <T extends object>(row: T): T => structuredClone(row);
+
+export function createMemoryRepository(): SessionRepository {
+  const sessions = new Map<number, Session>();
+  let segments: SessionSegment[] = [];
+  const indexes = new Map<number, StoredIndex>();
+  let notes: SessionNote[] = [];
+  let comments: SessionComment[] = [];
+  const nextIds = { session: 1, segment: 1, note: 1, comment: 1 };
+
+  const segmentsOf = (sessionId: number) =>
+    segments.filter((segment) => segment.session_id === sessionId).sort((a, b) => a.seq - b.seq);
+
+  const toMetadata = (session: Session): SessionMetadata => {
+    const index = indexes.get(session.id);
+    const { blob_url: _blobUrl, ...columns } = session;
+
+    return {
+      ...columns,
+      note_count: notes.filter((note) => note.session_id === session.id).length,
+      begin_time: index?.begin_time ?? null,
+      end_time: index?.end_time ?? null,
+      duration_ms: index?.begin_time && index.end_time ? index.end_time.getTime() - index.begin_time.getTime() : null,
+      failed_request_count: index?.failed_urls.length ?? 0,
+    };
+  };
+
+  /**
+   * Same semantics as the SQL filters of the other backends
+   */
+  const matches = (session: Session, filters: Parameters<SessionRepository['listSessions']>[0]): boolean => {
+    const index = indexes.get(session.id);
+    const contains = (values: string[] | undefined, text: string) =>
+      !!values?.some((value) => value.toLowerCase().includes(text.toLowerCase()));
+
+    if (filters.jira_id && session.jira_id !== filters.jira_id) return false;
+    if (filters.platform && session.platform !== filters.platform) return false;
+    if (filters.device_id && session.device_id !== filters.device_id) return false;
+    if (filters.tag && !session.tags.includes(filters.tag)) return false;
+    if (filters.triage_status && session.triage_status !== filters.triage_status) return false;
+    if (filters.assignee && session.assignee !== filters.assignee) return false;
+
+    if (filters.q) {
+      const { include, exclude } = parseSearchQuery(filters.q);
+      if (!index) return false;
+      if (!include.every((word) => index.search_text.includes(` ${word} `))) return false;
+      if (exclude.some((word) => index.search_text.includes(` ${word} `))) return false;
+    }
+
+    if (filters.url && !contains(index && [...index.urls, ...index.failed_urls], filters.url)) return false;
+    if (filters.error && !contains(index?.error_messages, filters.error)) return false;
+    if (filters.status !== undefined && !index?.status_codes.includes(filters.status)) return false;
+
+    // Sessions overlapping the time range, unindexed sessions fall back to created_at
+    if (filters.from && (index?.end_time ?? session.created_at) < filters.from) return false;
+    if (filters.to && (index?.begin_time ?? session.created_at) > filters.to) return false;
+
+    return true;
+  };
+
+  return {
+    backend: 'memory',
+
+    // No schema, so there is nothing to migrate
+    async migrate() {
+      return [];
+    },
+
+    async rollback() {
+      return null;
+    },
+
+    async pendingMigrations() {
+      return [];
+    },
+
+    async close() {},
+
+    async createSession(data) {
+      const now = new Date();
+      const session: Session = {
+        ...data,
+        id: nextIds.session++,
+        segment_count: 0,
+        tags: [],
+        triage_status: 'new',
+        assignee: null,
+        created_at: now,
+        updated_at: now,
+      };
+
+      sessions.set(session.id, session);
+      return copy(session);
+    },
+
+    async getSession(id) {
+      const session = sessions.get(id);
+      return session ? copy(session) : null;
+    },
+
+    async listSessions(params) {
+      const { limit = 50, offset = 0, sort_by = 'created_at', sort_order = 'desc' } = params;
+      const direction = sort_order === 'asc' ? 1 : -1;
+
+      const matching = [...sessions.values()]
+        .filter((session) => matches(session, params))
+        .sort((a, b) => (Number(a[sort_by]) - Number(b[sort_by]) || a.id - b.id) * direction);
+
+      return {
+        sessions: matching.slice(offset, offset + limit).map((session) => copy(toMetadata(session))),
+        total: matching.length,
+      };
+    },
+
+    async updateSession(id, changes) {
+      const session = sessions.get(id);
+      if (!session) return null;
+
+      Object.entries(changes).forEach(([column, value]) => {
+        if (value !== undefined) Object.assign(session, { [column]: copy({ value }).value });
+      });
+      session.updated_at = new Date();
+
+      return copy(session);
+    },
+
+    async deleteSession(id) {
+      if (!sessions.delete(id)) return false;
+
+      // Same as ON DELETE CASCADE
+      segments = segments.filter((segment) => segment.session_id !== id);
+      indexes.delete(id);
+      notes = notes.filter((note) => note.session_id !== id);
+      comments = comments.filter((comment) => comment.session_id !== id);
+      return true;
+    },
+
+    async getSegment(sessionId, seq) {
+      const segment = segments.find((row) => row.session_id === sessionId && row.seq === seq);
+      return segment ? copy(segment) : null;
+    },
+
+    async saveSegment(data) {
+      const existing = segments.findIndex((row) => row.session_id === data.session_id && row.seq === data.seq);
+      const segment: SessionSegment = {
+        ...data,
+        id: existing >= 0 ? segments[existing]!.id : nextIds.segment++,
+        created_at: new Date(),
+      };
+
+      if (existing >= 0) {
+        segments[existing] = segment;
+      } else {
+        segments.push(segment);
+      }
+
+      // Keep session totals in sync with its segments, a re-sent seq replaces its counts
+      const session = sessions.get(data.session_id);
+      if (session) {
+        const rows = segmentsOf(data.session_id);
+        const sum = (column: 'file_size' | 'event_count' | 'request_count' | 'error_count') =>
+          rows.reduce((total, row) => total + row[column], 0);
+
+        Object.assign(session, {
+          segment_count: rows.length,
+          file_size: sum('file_size'),
+          event_count: sum('event_count'),
+          request_count: sum('request_count'),
+          error_count: sum('error_count'),
+          first_url: rows.find((row) => row.first_url)?.first_url ?? null,
+          updated_at: new Date(),
+        });
+      }
+
+      return copy(segment);
+    },
+
+    async listSegments(sessionId) {
+      return segmentsOf(sessionId).map(copy);
+    },
+
+    async saveSessionIndex(sessionId, data, merge) {
+      const index = mergeSessionIndex(merge ? (indexes.get(sessionId) ?? null) : null, data);
+      indexes.set(sessionId, { ...index, search_text: buildSearchText(index) });
+    },
+
+    async getNote(sessionId, noteId) {
+      const note = notes.find((row) => row.id === noteId && row.session_id === sessionId);
+      return note ? copy(note) : null;
+    },
+
+    async listNotes(sessionId) {
+      // Created in id order, so id order is creation order
+      return notes.filter((note) => note.session_id === sessionId).map(copy);
+    },
+
+    async createNote(data) {
+      const note: SessionNote = { ...data, id: nextIds.note++, created_at: new Date() };
+      notes.push(note);
+      return copy(note);
+    },
+
+    async deleteNote(sessionId, noteId) {
+      if (!notes.some((note) => note.id === noteId && note.session_id === sessionId)) return false;
+
+      // Same as ON DELETE CASCADE on parent_id, replies of replies included
+      const deleted = new Set([noteId]);
+      notes.forEach((note) => {
+        if (note.parent_id !== null && deleted.has(note.parent_id)) deleted.add(note.id);
+      });
+      notes = notes.filter((note) => !deleted.has(note.id));
+      return true;
+    },
+
+    async listComments(sessionId) {
+      return comments
+        .filter((comment) => comment.session_id === sessionId)
+        .sort((a, b) => a.offset_ms - b.offset_ms || a.id - b.id)
+        .map(copy);
+    },
+
+    async createComment(data) {
+      const comment: SessionComment = { ...data, id: nextIds.comment++, created_at: new Date() };
+      comments.push(comment);
+      return copy(comment);
+    },
+
+    async deleteComment(sessionId, commentId) {
+      const count = comments.length;
+      comments = comments.filter((comment) => !(comment.id === commentId && comment.session_id === sessionId));
+      return comments.length < count;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Migrations runner
+ * Applied versions are recorded in the schema_migrations table, so running it again only applies new migrations
+ */
+/* eslint-disable no-unused-vars */
+
+import { MIGRATIONS, type Migration, type SqlDialect } from './migrations';
+
+/**
+ * Database operations the runner needs, implemented by each SQL backend
+ */
+export interface MigrationTarget {
+  dialect: SqlDialect;
+
+  /**
+   * Create the schema_migrations table if missing
+   */
+  createTable(): Promise<void>;
+
+  /**
+   * Versions already applied, empty if the schema_migrations table does not exist yet
+   */
+  appliedVersions(): Promise<number[]>;
+
+  /**
+   * Run the up SQL of a migration and record its version, in a single transaction
+   */
+  apply(migration: Migration, sql: string): Promise<void>;
+
+  /**
+   * Run the down SQL of a migration and remove its version, in a single transaction
+   */
+  revert(migration: Migration, sql: string): Promise<void>;
+}
+
+/**
+ * SQL of the schema_migrations table, the same for both dialects
+ */
+export const SCHEMA_MIGRATIONS_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+)
+`;
+
+/**
+ * Migrations not applied to the database yet, in version order
+ */
+export async function getPendingMigrations(target: MigrationTarget): Promise<Migration[]> {
+  const applied = new Set(await target.appliedVersions());
+  return MIGRATIONS.filter((migration) => !applied.has(migration.version));
+}
+
+/**
+ * Apply pending migrations in version order
+ * @returns Applied migrations
+ * @throws Error if a migration fails, earlier migrations of the run stay applied
+ */
+export async function runMigrations(target: MigrationTarget): Promise<Migration[]> {
+  await target.createTable();
+  const pending = await getPendingMigrations(target);
+
+  for (const migration of pending) {
+    try {
+      await target.apply(migration, migration[target.dialect].up);
+    } catch (error) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Revert the most recently applied migration
+ * @returns Reverted migration, null if no migration is applied
+ * @throws Error if the applied version is unknown to this code (applied by a newer release) or the revert fails
+ */
+export async function rollbackMigration(target: MigrationTarget): Promise<Migration | null> {
+  const applied = await target.appliedVersions();
+  if (applied.length === 0) return null;
+
+  const version = Math.max(...applied);
+  const migration = MIGRATIONS.find((candidate) => candidate.version === version);
+
+  if (!migration) {
+    throw new Error(`Migration ${version} is not known to this release, roll back with the release that added it`);
+  }
+
+  try {
+    await target.revert(migration, migration[target.dialect].down);
+  } catch (error) {
+    throw new Error(
+      `Rollback of migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  return migration;
+}
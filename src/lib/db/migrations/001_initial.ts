@@ -1,13 +1,18 @@
--- Web Reel Sessions Table
--- Stores uploaded replay session files and metadata
+/**
+ * Initial schema: the sessions table as created by the former db:init script
+ * Objects are created only if missing, so databases set up by db:init are adopted and upgraded by the later migrations
+ */
 
--- Drop existing tables and triggers if they exist
-DROP TRIGGER IF EXISTS update_sessions_updated_at ON sessions;
-DROP FUNCTION IF EXISTS update_updated_at_column();
-DROP TABLE IF EXISTS sessions;
+import type { Migration } from './index';
 
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  postgres: {
+    up: `
 -- Create sessions table
-CREATE TABLE sessions (
+CREATE TABLE IF NOT EXISTS sessions (
     id SERIAL PRIMARY KEY,
     blob_url TEXT NOT NULL,                     -- Vercel Blob public URL
     file_size INTEGER NOT NULL,                 -- File size in bytes
@@ -19,9 +24,9 @@ CREATE TABLE sessions (
 );
 
 -- Create indexes for common queries
-CREATE INDEX idx_sessions_jira_id ON sessions(jira_id) WHERE jira_id IS NOT NULL;
-CREATE INDEX idx_sessions_device_id ON sessions(device_id) WHERE device_id IS NOT NULL;
-CREATE INDEX idx_sessions_created_at ON sessions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_jira_id ON sessions(jira_id) WHERE jira_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_device_id ON sessions(device_id) WHERE device_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at DESC);
 
 -- Create function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -33,6 +38,7 @@ END;
 $$ language 'plpgsql';
 
 -- Create trigger to call the function before any UPDATE
+DROP TRIGGER IF EXISTS update_sessions_updated_at ON sessions;
 CREATE TRIGGER update_sessions_updated_at
     BEFORE UPDATE ON sessions
     FOR EACH ROW
@@ -45,3 +51,34 @@ COMMENT ON COLUMN sessions.file_size IS 'Size of the session file in bytes';
 COMMENT ON COLUMN sessions.jira_id IS 'Associated Jira ticket ID';
 COMMENT ON COLUMN sessions.platform IS 'Platform where session was recorded (e.g., web, mobile)';
 COMMENT ON COLUMN sessions.device_id IS 'Device identifier for the session';
+`,
+    down: `
+DROP TRIGGER IF EXISTS update_sessions_updated_at ON sessions;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+DROP TABLE IF EXISTS sessions;
+`,
+  },
+
+  sqlite: {
+    up: `
+-- Timestamps are stored as ISO 8601 text (UTC)
+CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    blob_url TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    jira_id TEXT,
+    platform TEXT,
+    device_id TEXT,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL,
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_jira_id ON sessions(jira_id) WHERE jira_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_device_id ON sessions(device_id) WHERE device_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at DESC);
+`,
+    down: `
+DROP TABLE IF EXISTS sessions;
+`,
+  },
+};
@@ -0,0 +1,112 @@
+/**
+ * Segmented uploads: upload state on sessions and the session_segments table
+ * SQLite cannot change a column's NOT NULL constraint, so blob_url is relaxed by rebuilding the sessions table
+ */
+
+import type { Migration } from './index';
+
+export const segmentedUploads: Migration = {
+  version: 2,
+  name: 'segmented_uploads',
+
+  postgres: {
+    up: `
+ALTER TABLE sessions
+    ALTER COLUMN blob_url DROP NOT NULL,
+    ADD COLUMN upload_status VARCHAR(20) DEFAULT 'complete' NOT NULL, -- 'open' while segments are still being uploaded
+    ADD COLUMN segment_count INTEGER DEFAULT 0 NOT NULL;     -- Number of uploaded segments (0 for single-file uploads)
+
+-- Create session segments table (multi-part uploads)
+CREATE TABLE session_segments (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,                        -- Segment order, starting at 0
+    blob_url TEXT NOT NULL,                      -- Download URL of the segment zip file
+    file_size INTEGER NOT NULL,                  -- Segment size in bytes
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    UNIQUE (session_id, seq)
+);
+
+COMMENT ON COLUMN sessions.blob_url IS 'Download URL of the session zip file (Vercel Blob URL or /api/files/... for other backends)';
+COMMENT ON COLUMN sessions.upload_status IS 'Upload state: open (segments pending) or complete';
+COMMENT ON COLUMN sessions.segment_count IS 'Number of uploaded segments for multi-part uploads';
+COMMENT ON TABLE session_segments IS 'Stores the ordered segment files of multi-part session uploads';
+`,
+    down: `
+DROP TABLE session_segments;
+
+-- Segmented sessions have no file of their own once their segments are gone
+DELETE FROM sessions WHERE blob_url IS NULL;
+
+ALTER TABLE sessions
+    DROP COLUMN segment_count,
+    DROP COLUMN upload_status,
+    ALTER COLUMN blob_url SET NOT NULL;
+
+COMMENT ON COLUMN sessions.blob_url IS 'Vercel Blob public URL for the session zip file';
+`,
+  },
+
+  sqlite: {
+    up: `
+CREATE TABLE sessions_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    blob_url TEXT,
+    file_size INTEGER NOT NULL,
+    jira_id TEXT,
+    platform TEXT,
+    device_id TEXT,
+    upload_status TEXT DEFAULT 'complete' NOT NULL,
+    segment_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL,
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+INSERT INTO sessions_new (id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at)
+    SELECT id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at FROM sessions;
+
+DROP TABLE sessions;
+ALTER TABLE sessions_new RENAME TO sessions;
+
+CREATE INDEX idx_sessions_jira_id ON sessions(jira_id) WHERE jira_id IS NOT NULL;
+CREATE INDEX idx_sessions_device_id ON sessions(device_id) WHERE device_id IS NOT NULL;
+CREATE INDEX idx_sessions_created_at ON sessions(created_at DESC);
+
+CREATE TABLE session_segments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    blob_url TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL,
+    UNIQUE (session_id, seq)
+);
+`,
+    down: `
+DROP TABLE session_segments;
+
+CREATE TABLE sessions_old (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    blob_url TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    jira_id TEXT,
+    platform TEXT,
+    device_id TEXT,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL,
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+-- Segmented sessions have no file of their own once their segments are gone
+INSERT INTO sessions_old (id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at)
+    SELECT id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at FROM sessions
+    WHERE blob_url IS NOT NULL;
+
+DROP TABLE sessions;
+ALTER TABLE sessions_old RENAME TO sessions;
+
+CREATE INDEX idx_sessions_jira_id ON sessions(jira_id) WHERE jira_id IS NOT NULL;
+CREATE INDEX idx_sessions_device_id ON sessions(device_id) WHERE device_id IS NOT NULL;
+CREATE INDEX idx_sessions_created_at ON sessions(created_at DESC);
+`,
+  },
+};
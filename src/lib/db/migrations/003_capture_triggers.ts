@@ -0,0 +1,37 @@
+/**
+ * Automatic capture: the error that triggered an upload
+ */
+
+import type { Migration } from './index';
+
+export const captureTriggers: Migration = {
+  version: 3,
+  name: 'capture_triggers',
+
+  postgres: {
+    up: `
+ALTER TABLE sessions
+    ADD COLUMN trigger_type VARCHAR(20),  -- Error that triggered an automatic capture (console, uncaught, network)
+    ADD COLUMN trigger_message TEXT;      -- Message of the triggering error
+
+COMMENT ON COLUMN sessions.trigger_type IS 'Source of the error that triggered an automatic capture, NULL for manual uploads';
+COMMENT ON COLUMN sessions.trigger_message IS 'Message of the error that triggered an automatic capture';
+`,
+    down: `
+ALTER TABLE sessions
+    DROP COLUMN trigger_message,
+    DROP COLUMN trigger_type;
+`,
+  },
+
+  sqlite: {
+    up: `
+ALTER TABLE sessions ADD COLUMN trigger_type TEXT;
+ALTER TABLE sessions ADD COLUMN trigger_message TEXT;
+`,
+    down: `
+ALTER TABLE sessions DROP COLUMN trigger_message;
+ALTER TABLE sessions DROP COLUMN trigger_type;
+`,
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Session search: the session_index table, extracted from the recording at upload time
+ */
+
+import type { Migration } from './index';
+
+export const sessionIndex: Migration = {
+  version: 4,
+  name: 'session_index',
+
+  postgres: {
+    up: `
+CREATE TABLE session_index (
+    session_id INTEGER PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    urls TEXT[] DEFAULT '{}' NOT NULL,           -- Visited page URLs
+    error_messages TEXT[] DEFAULT '{}' NOT NULL, -- Console errors, uncaught errors and unhandled rejections
+    failed_urls TEXT[] DEFAULT '{}' NOT NULL,    -- URLs of requests that failed (status 0 or >= 400)
+    status_codes INTEGER[] DEFAULT '{}' NOT NULL, -- Status codes of failed requests
+    begin_time TIMESTAMP,                        -- First recorded event
+    end_time TIMESTAMP,                          -- Last recorded event
+    duration_ms INTEGER GENERATED ALWAYS AS ((EXTRACT(EPOCH FROM (end_time - begin_time)) * 1000)::INTEGER) STORED,
+    search_vector TSVECTOR,                      -- Full-text search over URLs and error messages
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_session_index_search ON session_index USING GIN(search_vector);
+CREATE INDEX idx_session_index_status_codes ON session_index USING GIN(status_codes);
+CREATE INDEX idx_session_index_time ON session_index(begin_time, end_time);
+
+COMMENT ON TABLE session_index IS 'Searchable data extracted from session recordings (URLs, errors, failed requests, time range)';
+`,
+    down: `
+DROP TABLE session_index;
+`,
+  },
+
+  sqlite: {
+    up: `
+-- Arrays are stored as JSON text
+CREATE TABLE session_index (
+    session_id INTEGER PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    urls TEXT DEFAULT '[]' NOT NULL,
+    error_messages TEXT DEFAULT '[]' NOT NULL,
+    failed_urls TEXT DEFAULT '[]' NOT NULL,
+    status_codes TEXT DEFAULT '[]' NOT NULL,
+    begin_time TEXT,
+    end_time TEXT,
+    search_text TEXT DEFAULT '' NOT NULL,        -- Lowercase words of the URLs and error messages, space separated
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+CREATE INDEX idx_session_index_time ON session_index(begin_time, end_time);
+`,
+    down: `
+DROP TABLE session_index;
+`,
+  },
+};
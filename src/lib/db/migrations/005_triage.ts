@@ -0,0 +1,53 @@
+/**
+ * Triage: tags, status and assignee of a session
+ */
+
+import type { Migration } from './index';
+
+export const triage: Migration = {
+  version: 5,
+  name: 'triage',
+
+  postgres: {
+    up: `
+ALTER TABLE sessions
+    ADD COLUMN tags TEXT[] DEFAULT '{}' NOT NULL,           -- Free-form triage tags
+    ADD COLUMN triage_status VARCHAR(20) DEFAULT 'new' NOT NULL, -- new, investigating, resolved, ignored
+    ADD COLUMN assignee VARCHAR(255);                       -- Person triaging the session
+
+CREATE INDEX idx_sessions_tags ON sessions USING GIN(tags);
+CREATE INDEX idx_sessions_triage_status ON sessions(triage_status);
+
+COMMENT ON COLUMN sessions.tags IS 'Free-form tags used for triage';
+COMMENT ON COLUMN sessions.triage_status IS 'Triage state: new, investigating, resolved or ignored';
+COMMENT ON COLUMN sessions.assignee IS 'Person responsible for triaging the session';
+`,
+    down: `
+DROP INDEX idx_sessions_triage_status;
+DROP INDEX idx_sessions_tags;
+
+ALTER TABLE sessions
+    DROP COLUMN assignee,
+    DROP COLUMN triage_status,
+    DROP COLUMN tags;
+`,
+  },
+
+  sqlite: {
+    up: `
+-- Tags are stored as JSON text
+ALTER TABLE sessions ADD COLUMN tags TEXT DEFAULT '[]' NOT NULL;
+ALTER TABLE sessions ADD COLUMN triage_status TEXT DEFAULT 'new' NOT NULL;
+ALTER TABLE sessions ADD COLUMN assignee TEXT;
+
+CREATE INDEX idx_sessions_triage_status ON sessions(triage_status);
+`,
+    down: `
+DROP INDEX idx_sessions_triage_status;
+
+ALTER TABLE sessions DROP COLUMN assignee;
+ALTER TABLE sessions DROP COLUMN triage_status;
+ALTER TABLE sessions DROP COLUMN tags;
+`,
+  },
+};
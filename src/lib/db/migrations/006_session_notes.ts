@@ -0,0 +1,48 @@
+/**
+ * Threaded triage notes
+ */
+
+import type { Migration } from './index';
+
+export const sessionNotes: Migration = {
+  version: 6,
+  name: 'session_notes',
+
+  postgres: {
+    up: `
+CREATE TABLE session_notes (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES session_notes(id) ON DELETE CASCADE, -- Note being replied to (NULL for top-level notes)
+    author VARCHAR(255),                         -- Free-form author name
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_session_notes_session_id ON session_notes(session_id, created_at);
+
+COMMENT ON TABLE session_notes IS 'Threaded triage notes attached to sessions';
+`,
+    down: `
+DROP TABLE session_notes;
+`,
+  },
+
+  sqlite: {
+    up: `
+CREATE TABLE session_notes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES session_notes(id) ON DELETE CASCADE,
+    author TEXT,
+    body TEXT NOT NULL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+CREATE INDEX idx_session_notes_session_id ON session_notes(session_id, created_at);
+`,
+    down: `
+DROP TABLE session_notes;
+`,
+  },
+};
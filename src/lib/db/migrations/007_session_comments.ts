@@ -0,0 +1,50 @@
+/**
+ * Replay comments, anchored to a replay offset and optionally a DOM node
+ */
+
+import type { Migration } from './index';
+
+export const sessionComments: Migration = {
+  version: 7,
+  name: 'session_comments',
+
+  postgres: {
+    up: `
+CREATE TABLE session_comments (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    offset_ms INTEGER NOT NULL CHECK (offset_ms >= 0), -- Replay offset from the first event
+    node_id INTEGER,                             -- Optional rrweb node ID the comment points at
+    author VARCHAR(255),                         -- Free-form author name
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_session_comments_session_id ON session_comments(session_id, offset_ms);
+
+COMMENT ON TABLE session_comments IS 'Reviewer comments anchored to a replay offset and optionally a DOM node';
+`,
+    down: `
+DROP TABLE session_comments;
+`,
+  },
+
+  sqlite: {
+    up: `
+CREATE TABLE session_comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    offset_ms INTEGER NOT NULL CHECK (offset_ms >= 0),
+    node_id INTEGER,
+    author TEXT,
+    body TEXT NOT NULL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) NOT NULL
+);
+
+CREATE INDEX idx_session_comments_session_id ON session_comments(session_id, offset_ms);
+`,
+    down: `
+DROP TABLE session_comments;
+`,
+  },
+};
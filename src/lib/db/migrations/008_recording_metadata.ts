@@ -0,0 +1,74 @@
+/**
+ * Recording metadata derived by server-side validation: counts, first page and browser of sessions and segments
+ */
+
+import type { Migration } from './index';
+
+export const recordingMetadata: Migration = {
+  version: 8,
+  name: 'recording_metadata',
+
+  postgres: {
+    up: `
+ALTER TABLE sessions
+    ADD COLUMN event_count INTEGER DEFAULT 0 NOT NULL,   -- rrweb events in the recording (sum of segments)
+    ADD COLUMN request_count INTEGER DEFAULT 0 NOT NULL, -- Recorded network requests (sum of segments)
+    ADD COLUMN error_count INTEGER DEFAULT 0 NOT NULL,   -- Console errors, uncaught errors and unhandled rejections
+    ADD COLUMN first_url TEXT,                           -- Page the recording starts on
+    ADD COLUMN user_agent TEXT;                          -- User-Agent of the upload request (the recording browser)
+
+ALTER TABLE session_segments
+    ADD COLUMN event_count INTEGER DEFAULT 0 NOT NULL,   -- rrweb events in the segment
+    ADD COLUMN request_count INTEGER DEFAULT 0 NOT NULL, -- Network requests in the segment
+    ADD COLUMN error_count INTEGER DEFAULT 0 NOT NULL,   -- Error events in the segment
+    ADD COLUMN first_url TEXT;                           -- First page URL in the segment
+
+COMMENT ON COLUMN sessions.event_count IS 'Number of rrweb events, derived from the recording at upload time';
+COMMENT ON COLUMN sessions.request_count IS 'Number of recorded network requests, derived at upload time';
+COMMENT ON COLUMN sessions.error_count IS 'Number of console errors, uncaught errors and unhandled rejections, derived at upload time';
+COMMENT ON COLUMN sessions.first_url IS 'URL of the first recorded page';
+COMMENT ON COLUMN sessions.user_agent IS 'User-Agent header of the upload request';
+`,
+    down: `
+ALTER TABLE session_segments
+    DROP COLUMN first_url,
+    DROP COLUMN error_count,
+    DROP COLUMN request_count,
+    DROP COLUMN event_count;
+
+ALTER TABLE sessions
+    DROP COLUMN user_agent,
+    DROP COLUMN first_url,
+    DROP COLUMN error_count,
+    DROP COLUMN request_count,
+    DROP COLUMN event_count;
+`,
+  },
+
+  sqlite: {
+    up: `
+ALTER TABLE sessions ADD COLUMN event_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE sessions ADD COLUMN request_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE sessions ADD COLUMN error_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE sessions ADD COLUMN first_url TEXT;
+ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+
+ALTER TABLE session_segments ADD COLUMN event_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE session_segments ADD COLUMN request_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE session_segments ADD COLUMN error_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE session_segments ADD COLUMN first_url TEXT;
+`,
+    down: `
+ALTER TABLE session_segments DROP COLUMN first_url;
+ALTER TABLE session_segments DROP COLUMN error_count;
+ALTER TABLE session_segments DROP COLUMN request_count;
+ALTER TABLE session_segments DROP COLUMN event_count;
+
+ALTER TABLE sessions DROP COLUMN user_agent;
+ALTER TABLE sessions DROP COLUMN first_url;
+ALTER TABLE sessions DROP COLUMN error_count;
+ALTER TABLE sessions DROP COLUMN request_count;
+ALTER TABLE sessions DROP COLUMN event_count;
+`,
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * Segment snapshots: whether a segment holds a full snapshot, checked when a segmented session is completed
+ */
+
+import type { Migration } from './index';
+
+export const segmentSnapshots: Migration = {
+  version: 9,
+  name: 'segment_snapshots',
+
+  postgres: {
+    up: `
+ALTER TABLE session_segments
+    ADD COLUMN has_full_snapshot BOOLEAN DEFAULT FALSE NOT NULL; -- Segment holds a full snapshot (type 2) event
+
+-- Segments stored before this migration were not checked, keep their sessions completable
+UPDATE session_segments SET has_full_snapshot = TRUE;
+`,
+    down: `
+ALTER TABLE session_segments DROP COLUMN has_full_snapshot;
+`,
+  },
+
+  sqlite: {
+    up: `
+ALTER TABLE session_segments ADD COLUMN has_full_snapshot INTEGER DEFAULT 0 NOT NULL;
+
+-- Segments stored before this migration were not checked, keep their sessions completable
+UPDATE session_segments SET has_full_snapshot = 1;
+`,
+    down: `
+ALTER TABLE session_segments DROP COLUMN has_full_snapshot;
+`,
+  },
+};
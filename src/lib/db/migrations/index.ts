@@ -0,0 +1,49 @@
+/**
+ * Schema migrations, applied in version order by `npm run db:migrate` and reverted by `npm run db:rollback`
+ * Files are numbered by version. Never edit a released migration, add a new one with the next version instead
+ */
+
+import { initialSchema } from './001_initial';
+import { segmentedUploads } from './002_segmented_uploads';
+import { captureTriggers } from './003_capture_triggers';
+import { sessionIndex } from './004_session_index';
+import { triage } from './005_triage';
+import { sessionNotes } from './006_session_notes';
+import { sessionComments } from './007_session_comments';
+import { recordingMetadata } from './008_recording_metadata';
+import { segmentSnapshots } from './009_segment_snapshots';
+
+/**
+ * SQL dialects with a schema (the memory backend has none)
+ */
+export type SqlDialect = 'postgres' | 'sqlite';
+
+/**
+ * SQL of one migration for one dialect
+ */
+export interface MigrationSql {
+  up: string; // Applied by db:migrate
+  down: string; // Reverts up, applied by db:rollback
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  postgres: MigrationSql;
+  sqlite: MigrationSql;
+}
+
+/**
+ * All migrations, sorted by version
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  segmentedUploads,
+  captureTriggers,
+  sessionIndex,
+  triage,
+  sessionNotes,
+  sessionComments,
+  recordingMetadata,
+  segmentSnapshots,
+];
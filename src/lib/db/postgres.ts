@@ -0,0 +1,520 @@
+/**
+ * Postgres session repository (Neon or any Postgres 12+)
+ * Uses pg-promise library for connection management and queries
+ */
+
+import pgPromise from 'pg-promise';
+
+import {
+  getPendingMigrations,
+  type MigrationTarget,
+  rollbackMigration,
+  runMigrations,
+  SCHEMA_MIGRATIONS_TABLE_SQL,
+} from './migrate';
+import { escapeLikePattern, MAX_INDEX_ENTRIES } from './search';
+import type { SessionChanges, SessionRepository } from './types';
+
+import type {
+  Session,
+  SessionComment,
+  SessionMetadata,
+  SessionNote,
+  SessionSegment,
+  SessionSortField,
+} from '@/types/session';
+
+/**
+ * Columns returned for a full Session row
+ */
+const SESSION_COLUMNS =
+  'id, blob_url, file_size, jira_id, platform, device_id, upload_status, segment_count, trigger_type, trigger_message, tags, triage_status, assignee, event_count, request_count, error_count, first_url, user_agent, created_at, updated_at';
+
+/**
+ * Columns returned for a SessionSegment row
+ */
+const SEGMENT_COLUMNS =
+  'id, session_id, seq, blob_url, file_size, event_count, request_count, error_count, first_url, has_full_snapshot, created_at';
+
+/**
+ * Sortable columns, mapped to SQL to keep ORDER BY out of user input
+ */
+const SORT_COLUMNS: Record<SessionSortField, string> = {
+  created_at: 's.created_at',
+  file_size: 's.file_size',
+};
+
+/**
+ * Characters treated as word separators for full-text search
+ * Splits URLs into path segments, so 'checkout' matches '/shop/checkout?step=2'
+ */
+const SEARCH_SEPARATOR_PATTERN = '[/?=&#._:]+';
+
+// Initialize pg-promise
+const pgp = pgPromise({
+  error(error, e) {
+    if (e.cn) {
+      // A connection-related error;
+      console.error('[DB] Connection error:', error);
+    }
+  },
+});
+
+export function createPostgresRepository(url: string): SessionRepository {
+  const db = pgp(url);
+
+  const migrationTarget: MigrationTarget = {
+    dialect: 'postgres',
+
+    async createTable() {
+      await db.none(SCHEMA_MIGRATIONS_TABLE_SQL);
+    },
+
+    async appliedVersions() {
+      const { exists } = await db.one<{ exists: boolean }>(
+        "SELECT to_regclass('schema_migrations') IS NOT NULL AS exists",
+      );
+      if (!exists) return [];
+
+      const rows = await db.manyOrNone<{ version: number }>('SELECT version FROM schema_migrations');
+      return rows.map((row) => row.version);
+    },
+
+    async apply(migration, sql) {
+      await db.tx(async (t) => {
+        await t.none(sql);
+        await t.none('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+      });
+    },
+
+    async revert(migration, sql) {
+      await db.tx(async (t) => {
+        await t.none(sql);
+        await t.none('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+    },
+  };
+
+  return {
+    backend: 'postgres',
+
+    migrate() {
+      return runMigrations(migrationTarget);
+    },
+
+    rollback() {
+      return rollbackMigration(migrationTarget);
+    },
+
+    pendingMigrations() {
+      return getPendingMigrations(migrationTarget);
+    },
+
+    async close() {
+      await db.$pool.end();
+    },
+
+    createSession(data) {
+      return db.one<Session>(
+        `
+        INSERT INTO sessions (
+          blob_url, file_size, jira_id, platform, device_id, upload_status, trigger_type, trigger_message,
+          event_count, request_count, error_count, first_url, user_agent
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING ${SESSION_COLUMNS}
+      `,
+        [
+          data.blob_url,
+          data.file_size,
+          data.jira_id,
+          data.platform,
+          data.device_id,
+          data.upload_status,
+          data.trigger_type,
+          data.trigger_message,
+          data.event_count,
+          data.request_count,
+          data.error_count,
+          data.first_url,
+          data.user_agent,
+        ],
+      );
+    },
+
+    getSession(id) {
+      return db.oneOrNone<Session>(`SELECT ${SESSION_COLUMNS} FROM sessions WHERE id = $1`, [id]);
+    },
+
+    async listSessions(params) {
+      const {
+        limit = 50,
+        offset = 0,
+        jira_id,
+        platform,
+        device_id,
+        q,
+        url,
+        error,
+        status,
+        from,
+        to,
+        tag,
+        triage_status,
+        assignee,
+        sort_by = 'created_at',
+        sort_order = 'desc',
+      } = params;
+
+      // Build WHERE clauses dynamically
+      const conditions: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      if (jira_id) {
+        conditions.push(`s.jira_id = $${paramIndex++}`);
+        values.push(jira_id);
+      }
+
+      if (platform) {
+        conditions.push(`s.platform = $${paramIndex++}`);
+        values.push(platform);
+      }
+
+      if (device_id) {
+        conditions.push(`s.device_id = $${paramIndex++}`);
+        values.push(device_id);
+      }
+
+      if (tag) {
+        conditions.push(`$${paramIndex++} = ANY(s.tags)`);
+        values.push(tag);
+      }
+
+      if (triage_status) {
+        conditions.push(`s.triage_status = $${paramIndex++}`);
+        values.push(triage_status);
+      }
+
+      if (assignee) {
+        conditions.push(`s.assignee = $${paramIndex++}`);
+        values.push(assignee);
+      }
+
+      // Uses the same separators as the stored search vector
+      if (q) {
+        conditions.push(
+          `si.search_vector @@ websearch_to_tsquery('simple', regexp_replace($${paramIndex++}, '${SEARCH_SEPARATOR_PATTERN}', ' ', 'g'))`,
+        );
+        values.push(q);
+      }
+
+      if (url) {
+        conditions.push(`EXISTS (SELECT 1 FROM unnest(si.urls || si.failed_urls) AS u WHERE u ILIKE $${paramIndex++})`);
+        values.push(`%${escapeLikePattern(url)}%`);
+      }
+
+      if (error) {
+        conditions.push(`EXISTS (SELECT 1 FROM unnest(si.error_messages) AS m WHERE m ILIKE $${paramIndex++})`);
+        values.push(`%${escapeLikePattern(error)}%`);
+      }
+
+      if (status !== undefined) {
+        conditions.push(`$${paramIndex++} = ANY(si.status_codes)`);
+        values.push(status);
+      }
+
+      // Sessions overlapping the time range, unindexed sessions fall back to created_at
+      if (from) {
+        conditions.push(`COALESCE(si.end_time, s.created_at) >= $${paramIndex++}`);
+        values.push(from);
+      }
+
+      if (to) {
+        conditions.push(`COALESCE(si.begin_time, s.created_at) <= $${paramIndex++}`);
+        values.push(to);
+      }
+
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      // Get total count
+      const countQuery = `
+        SELECT COUNT(*) as count
+        FROM sessions s
+        LEFT JOIN session_index si ON si.session_id = s.id
+        ${whereClause}
+      `;
+      const countResult = await db.one<{ count: string }>(countQuery, values);
+      const total = parseInt(countResult.count, 10);
+
+      // Get sessions with metadata (file_size is already stored in DB)
+      const query = `
+        SELECT
+          s.id,
+          s.jira_id,
+          s.platform,
+          s.device_id,
+          s.created_at,
+          s.updated_at,
+          s.file_size,
+          s.upload_status,
+          s.segment_count,
+          s.trigger_type,
+          s.trigger_message,
+          s.tags,
+          s.triage_status,
+          s.assignee,
+          (SELECT COUNT(*) FROM session_notes n WHERE n.session_id = s.id)::INTEGER AS note_count,
+          s.event_count,
+          s.request_count,
+          s.error_count,
+          s.first_url,
+          s.user_agent,
+          si.begin_time,
+          si.end_time,
+          si.duration_ms,
+          COALESCE(cardinality(si.failed_urls), 0) AS failed_request_count
+        FROM sessions s
+        LEFT JOIN session_index si ON si.session_id = s.id
+        ${whereClause}
+        ORDER BY ${SORT_COLUMNS[sort_by]} ${sort_order === 'asc' ? 'ASC' : 'DESC'}, s.id ${sort_order === 'asc' ? 'ASC' : 'DESC'}
+        LIMIT $${paramIndex++}
+        OFFSET $${paramIndex}
+      `;
+
+      const sessions = await db.manyOrNone<SessionMetadata>(query, [...values, limit, offset]);
+
+      return {
+        sessions: sessions || [],
+        total,
+      };
+    },
+
+    updateSession(id, changes) {
+      // Column names come from SessionChanges keys, never from user input
+      const columns = (Object.keys(changes) as (keyof SessionChanges)[]).filter(
+        (column) => changes[column] !== undefined,
+      );
+      const setClauses = columns.map(
+        (column, index) => `${column} = $${index + 1}${column === 'tags' ? '::text[]' : ''}`,
+      );
+
+      // updated_at will be automatically updated by the trigger
+      return db.oneOrNone<Session>(
+        `
+        UPDATE sessions
+        SET ${setClauses.join(', ')}
+        WHERE id = $${columns.length + 1}
+        RETURNING ${SESSION_COLUMNS}
+      `,
+        [...columns.map((column) => changes[column]), id],
+      );
+    },
+
+    async deleteSession(id) {
+      // Segments, index, notes and comments are removed by ON DELETE CASCADE
+      const result = await db.oneOrNone<{ id: number }>('DELETE FROM sessions WHERE id = $1 RETURNING id', [id]);
+      return !!result;
+    },
+
+    getSegment(sessionId, seq) {
+      return db.oneOrNone<SessionSegment>(
+        `SELECT ${SEGMENT_COLUMNS} FROM session_segments WHERE session_id = $1 AND seq = $2`,
+        [sessionId, seq],
+      );
+    },
+
+    saveSegment(data) {
+      return db.tx(async (t) => {
+        const row = await t.one<SessionSegment>(
+          `
+          INSERT INTO session_segments (session_id, seq, blob_url, file_size, event_count, request_count, error_count, first_url, has_full_snapshot)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (session_id, seq)
+          DO UPDATE SET
+            blob_url = EXCLUDED.blob_url,
+            file_size = EXCLUDED.file_size,
+            event_count = EXCLUDED.event_count,
+            request_count = EXCLUDED.request_count,
+            error_count = EXCLUDED.error_count,
+            first_url = EXCLUDED.first_url,
+            has_full_snapshot = EXCLUDED.has_full_snapshot,
+            created_at = NOW()
+          RETURNING ${SEGMENT_COLUMNS}
+        `,
+          [
+            data.session_id,
+            data.seq,
+            data.blob_url,
+            data.file_size,
+            data.event_count,
+            data.request_count,
+            data.error_count,
+            data.first_url,
+            data.has_full_snapshot,
+          ],
+        );
+
+        // Keep session totals in sync with its segments, a re-sent seq replaces its counts
+        await t.none(
+          `
+          UPDATE sessions
+          SET
+            segment_count = totals.segment_count,
+            file_size = totals.file_size,
+            event_count = totals.event_count,
+            request_count = totals.request_count,
+            error_count = totals.error_count,
+            first_url = (
+              SELECT first_url FROM session_segments
+              WHERE session_id = $1 AND first_url IS NOT NULL
+              ORDER BY seq ASC
+              LIMIT 1
+            )
+          FROM (
+            SELECT
+              COUNT(*) AS segment_count,
+              COALESCE(SUM(file_size), 0) AS file_size,
+              COALESCE(SUM(event_count), 0) AS event_count,
+              COALESCE(SUM(request_count), 0) AS request_count,
+              COALESCE(SUM(error_count), 0) AS error_count
+            FROM session_segments
+            WHERE session_id = $1
+          ) AS totals
+          WHERE id = $1
+        `,
+          [data.session_id],
+        );
+
+        return row;
+      });
+    },
+
+    listSegments(sessionId) {
+      return db.manyOrNone<SessionSegment>(
+        `SELECT ${SEGMENT_COLUMNS} FROM session_segments WHERE session_id = $1 ORDER BY seq ASC`,
+        [sessionId],
+      );
+    },
+
+    async saveSessionIndex(sessionId, data, merge) {
+      const mergeArray = (column: string) =>
+        merge
+          ? `(ARRAY(SELECT DISTINCT unnest(session_index.${column} || EXCLUDED.${column})))[1:${MAX_INDEX_ENTRIES}]`
+          : `EXCLUDED.${column}`;
+
+      await db.tx(async (t) => {
+        await t.none(
+          `
+          INSERT INTO session_index (session_id, urls, error_messages, failed_urls, status_codes, begin_time, end_time)
+          VALUES ($1, $2::text[], $3::text[], $4::text[], $5::integer[], $6, $7)
+          ON CONFLICT (session_id)
+          DO UPDATE SET
+            urls = ${mergeArray('urls')},
+            error_messages = ${mergeArray('error_messages')},
+            failed_urls = ${mergeArray('failed_urls')},
+            status_codes = ${mergeArray('status_codes')},
+            begin_time = ${merge ? 'LEAST(session_index.begin_time, EXCLUDED.begin_time)' : 'EXCLUDED.begin_time'},
+            end_time = ${merge ? 'GREATEST(session_index.end_time, EXCLUDED.end_time)' : 'EXCLUDED.end_time'},
+            updated_at = NOW()
+        `,
+          [
+            sessionId,
+            data.urls.slice(0, MAX_INDEX_ENTRIES),
+            data.error_messages.slice(0, MAX_INDEX_ENTRIES),
+            data.failed_urls.slice(0, MAX_INDEX_ENTRIES),
+            data.status_codes,
+            data.begin_time,
+            data.end_time,
+          ],
+        );
+
+        // Rebuild the search vector from the stored (possibly merged) lists
+        await t.none(
+          `
+          UPDATE session_index
+          SET search_vector = to_tsvector(
+            'simple',
+            regexp_replace(array_to_string(urls || error_messages || failed_urls, ' '), $2, ' ', 'g')
+          )
+          WHERE session_id = $1
+        `,
+          [sessionId, SEARCH_SEPARATOR_PATTERN],
+        );
+      });
+    },
+
+    getNote(sessionId, noteId) {
+      return db.oneOrNone<SessionNote>(
+        'SELECT id, session_id, parent_id, author, body, created_at FROM session_notes WHERE id = $1 AND session_id = $2',
+        [noteId, sessionId],
+      );
+    },
+
+    listNotes(sessionId) {
+      return db.manyOrNone<SessionNote>(
+        `
+        SELECT id, session_id, parent_id, author, body, created_at
+        FROM session_notes
+        WHERE session_id = $1
+        ORDER BY created_at ASC, id ASC
+      `,
+        [sessionId],
+      );
+    },
+
+    createNote(data) {
+      return db.one<SessionNote>(
+        `
+        INSERT INTO session_notes (session_id, parent_id, author, body)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, session_id, parent_id, author, body, created_at
+      `,
+        [data.session_id, data.parent_id, data.author, data.body],
+      );
+    },
+
+    async deleteNote(sessionId, noteId) {
+      // Replies are removed by ON DELETE CASCADE
+      const result = await db.oneOrNone<{ id: number }>(
+        'DELETE FROM session_notes WHERE id = $1 AND session_id = $2 RETURNING id',
+        [noteId, sessionId],
+      );
+      return !!result;
+    },
+
+    listComments(sessionId) {
+      return db.manyOrNone<SessionComment>(
+        `
+        SELECT id, session_id, offset_ms, node_id, author, body, created_at
+        FROM session_comments
+        WHERE session_id = $1
+        ORDER BY offset_ms ASC, id ASC
+      `,
+        [sessionId],
+      );
+    },
+
+    createComment(data) {
+      return db.one<SessionComment>(
+        `
+        INSERT INTO session_comments (session_id, offset_ms, node_id, author, body)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, session_id, offset_ms, node_id, author, body, created_at
+      `,
+        [data.session_id, data.offset_ms, data.node_id, data.author, data.body],
+      );
+    },
+
+    async deleteComment(sessionId, commentId) {
+      const result = await db.oneOrNone<{ id: number }>(
+        'DELETE FROM session_comments WHERE id = $1 AND session_id = $2 RETURNING id',
+        [commentId, sessionId],
+      );
+      return !!result;
+    },
+  };
+}
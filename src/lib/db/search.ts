@@ -0,0 +1,86 @@
+/**
+ * Search index helpers shared by the database backends
+ * Postgres merges and searches in SQL, the SQLite and memory backends use these instead
+ */
+
+import type { SessionIndexData } from '@/types/session';
+
+/**
+ * Maximum entries kept per indexed list
+ */
+export const MAX_INDEX_ENTRIES = 500;
+
+/**
+ * Escape LIKE wildcards so user input is matched literally (with ESCAPE '\')
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Split text into lowercase words
+ * Every non-alphanumeric character separates words, so 'checkout' matches '/shop/checkout?step=2'
+ */
+export function toSearchWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Build the stored search text of an index: its distinct words, space separated and space delimited
+ * so a word is matched with LIKE '% word %'
+ */
+export function buildSearchText(data: SessionIndexData): string {
+  const words = new Set(
+    [...data.urls, ...data.error_messages, ...data.failed_urls].flatMap((text) => toSearchWords(text)),
+  );
+  return words.size > 0 ? ` ${[...words].join(' ')} ` : '';
+}
+
+/**
+ * Parse a search string: sessions must contain every word, words of terms prefixed with '-' must be absent
+ * A simplified version of Postgres websearch_to_tsquery (no OR, quotes are ignored)
+ */
+export function parseSearchQuery(q: string): { include: string[]; exclude: string[] } {
+  const include = new Set<string>();
+  const exclude = new Set<string>();
+
+  q.split(/\s+/).forEach((term) => {
+    const words = toSearchWords(term);
+    words.forEach((word) => (term.startsWith('-') ? exclude : include).add(word));
+  });
+
+  return { include: [...include], exclude: [...exclude] };
+}
+
+/**
+ * Merge the index of a new segment into the stored index
+ * Lists are de-duplicated and capped, the time range is widened
+ */
+export function mergeSessionIndex(existing: SessionIndexData | null, data: SessionIndexData): SessionIndexData {
+  const mergeList = <T>(stored: T[], added: T[]): T[] =>
+    [...new Set([...stored, ...added])].slice(0, MAX_INDEX_ENTRIES);
+  const base: SessionIndexData = existing || {
+    urls: [],
+    error_messages: [],
+    failed_urls: [],
+    status_codes: [],
+    begin_time: null,
+    end_time: null,
+  };
+  const times = (a: Date | null, b: Date | null) => [a, b].filter((time): time is Date => !!time).map(Number);
+
+  const beginTimes = times(base.begin_time, data.begin_time);
+  const endTimes = times(base.end_time, data.end_time);
+
+  return {
+    urls: mergeList(base.urls, data.urls),
+    error_messages: mergeList(base.error_messages, data.error_messages),
+    failed_urls: mergeList(base.failed_urls, data.failed_urls),
+    status_codes: mergeList(base.status_codes, data.status_codes),
+    begin_time: beginTimes.length > 0 ? new Date(Math.min(...beginTimes)) : null,
+    end_time: endTimes.length > 0 ? new Date(Math.max(...endTimes)) : null,
+  };
+}
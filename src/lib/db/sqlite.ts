@@ -0,0 +1,491 @@
+/**
+ * SQLite session repository, for local development and self-hosting on a single server
+ * Arrays are stored as JSON text and timestamps as ISO 8601 text, rows are converted back on read
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+
+import Database from 'better-sqlite3';
+
+import {
+  getPendingMigrations,
+  type MigrationTarget,
+  rollbackMigration,
+  runMigrations,
+  SCHEMA_MIGRATIONS_TABLE_SQL,
+} from './migrate';
+import { buildSearchText, escapeLikePattern, mergeSessionIndex, parseSearchQuery } from './search';
+import type { SessionChanges, SessionRepository } from './types';
+
+import type {
+  Session,
+  SessionComment,
+  SessionIndexData,
+  SessionMetadata,
+  SessionNote,
+  SessionSegment,
+  SessionSortField,
+} from '@/types/session';
+
+type Row = Record<string, any>;
+
+/**
+ * Sortable columns, mapped to SQL to keep ORDER BY out of user input
+ */
+const SORT_COLUMNS: Record<SessionSortField, string> = {
+  created_at: 's.created_at',
+  file_size: 's.file_size',
+};
+
+const toDate = (value: string | null): Date | null => (value ? new Date(value) : null);
+
+const toSession = (row: Row): Session =>
+  ({
+    ...row,
+    tags: JSON.parse(row.tags),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  }) as Session;
+
+/**
+ * Notes and comments only need created_at converted
+ */
+const withCreatedAt = <T>(row: Row): T => ({ ...row, created_at: new Date(row.created_at) }) as T;
+
+const toSegment = (row: Row): SessionSegment => ({
+  ...withCreatedAt<SessionSegment>(row),
+  has_full_snapshot: Boolean(row.has_full_snapshot),
+});
+
+const toSessionMetadata = (row: Row): SessionMetadata => {
+  const beginTime = toDate(row.begin_time);
+  const endTime = toDate(row.end_time);
+
+  return {
+    ...row,
+    tags: JSON.parse(row.tags),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    begin_time: beginTime,
+    end_time: endTime,
+    duration_ms: beginTime && endTime ? endTime.getTime() - beginTime.getTime() : null,
+  } as SessionMetadata;
+};
+
+export function createSqliteRepository(filename: string): SessionRepository {
+  mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  // Required for ON DELETE CASCADE, off by default in SQLite
+  db.pragma('foreign_keys = ON');
+
+  const getSession = (id: number): Session | null => {
+    const row = db.prepare('SELECT * FROM sessions WHERE id = ?').get(id) as Row | undefined;
+    return row ? toSession(row) : null;
+  };
+
+  const migrationTarget: MigrationTarget = {
+    dialect: 'sqlite',
+
+    async createTable() {
+      db.exec(SCHEMA_MIGRATIONS_TABLE_SQL);
+    },
+
+    async appliedVersions() {
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+        .get();
+      if (!table) return [];
+
+      const rows = db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[];
+      return rows.map((row) => row.version);
+    },
+
+    async apply(migration, sql) {
+      db.transaction(() => {
+        db.exec(sql);
+        db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(
+          migration.version,
+          migration.name,
+        );
+      })();
+    },
+
+    async revert(migration, sql) {
+      db.transaction(() => {
+        db.exec(sql);
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+      })();
+    },
+  };
+
+  return {
+    backend: 'sqlite',
+
+    migrate() {
+      return runMigrations(migrationTarget);
+    },
+
+    rollback() {
+      return rollbackMigration(migrationTarget);
+    },
+
+    pendingMigrations() {
+      return getPendingMigrations(migrationTarget);
+    },
+
+    async close() {
+      db.close();
+    },
+
+    async createSession(data) {
+      const row = db
+        .prepare(
+          `
+          INSERT INTO sessions (
+            blob_url, file_size, jira_id, platform, device_id, upload_status, trigger_type, trigger_message,
+            event_count, request_count, error_count, first_url, user_agent
+          )
+          VALUES (
+            @blob_url, @file_size, @jira_id, @platform, @device_id, @upload_status, @trigger_type, @trigger_message,
+            @event_count, @request_count, @error_count, @first_url, @user_agent
+          )
+          RETURNING *
+        `,
+        )
+        .get(data) as Row;
+
+      return toSession(row);
+    },
+
+    async getSession(id) {
+      return getSession(id);
+    },
+
+    async listSessions(params) {
+      const {
+        limit = 50,
+        offset = 0,
+        jira_id,
+        platform,
+        device_id,
+        q,
+        url,
+        error,
+        status,
+        from,
+        to,
+        tag,
+        triage_status,
+        assignee,
+        sort_by = 'created_at',
+        sort_order = 'desc',
+      } = params;
+
+      const conditions: string[] = [];
+      const values: unknown[] = [];
+
+      if (jira_id) {
+        conditions.push('s.jira_id = ?');
+        values.push(jira_id);
+      }
+
+      if (platform) {
+        conditions.push('s.platform = ?');
+        values.push(platform);
+      }
+
+      if (device_id) {
+        conditions.push('s.device_id = ?');
+        values.push(device_id);
+      }
+
+      if (tag) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(s.tags) WHERE value = ?)');
+        values.push(tag);
+      }
+
+      if (triage_status) {
+        conditions.push('s.triage_status = ?');
+        values.push(triage_status);
+      }
+
+      if (assignee) {
+        conditions.push('s.assignee = ?');
+        values.push(assignee);
+      }
+
+      // Whole-word matching on the stored search text, unindexed sessions never match
+      if (q) {
+        const { include, exclude } = parseSearchQuery(q);
+        conditions.push('si.session_id IS NOT NULL');
+        include.forEach((word) => {
+          conditions.push('si.search_text LIKE ?');
+          values.push(`% ${word} %`);
+        });
+        exclude.forEach((word) => {
+          conditions.push('si.search_text NOT LIKE ?');
+          values.push(`% ${word} %`);
+        });
+      }
+
+      if (url) {
+        conditions.push(
+          `EXISTS (SELECT 1 FROM (SELECT value FROM json_each(si.urls) UNION ALL SELECT value FROM json_each(si.failed_urls)) WHERE value LIKE ? ESCAPE '\\')`,
+        );
+        values.push(`%${escapeLikePattern(url)}%`);
+      }
+
+      if (error) {
+        conditions.push(`EXISTS (SELECT 1 FROM json_each(si.error_messages) WHERE value LIKE ? ESCAPE '\\')`);
+        values.push(`%${escapeLikePattern(error)}%`);
+      }
+
+      if (status !== undefined) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(si.status_codes) WHERE value = ?)');
+        values.push(status);
+      }
+
+      // Sessions overlapping the time range, unindexed sessions fall back to created_at
+      if (from) {
+        conditions.push('COALESCE(si.end_time, s.created_at) >= ?');
+        values.push(from.toISOString());
+      }
+
+      if (to) {
+        conditions.push('COALESCE(si.begin_time, s.created_at) <= ?');
+        values.push(to.toISOString());
+      }
+
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const direction = sort_order === 'asc' ? 'ASC' : 'DESC';
+
+      const { count } = db
+        .prepare(
+          `
+          SELECT COUNT(*) AS count
+          FROM sessions s
+          LEFT JOIN session_index si ON si.session_id = s.id
+          ${whereClause}
+        `,
+        )
+        .get(...values) as { count: number };
+
+      const rows = db
+        .prepare(
+          `
+          SELECT
+            s.id, s.jira_id, s.platform, s.device_id, s.created_at, s.updated_at, s.file_size, s.upload_status,
+            s.segment_count, s.trigger_type, s.trigger_message, s.tags, s.triage_status, s.assignee,
+            (SELECT COUNT(*) FROM session_notes n WHERE n.session_id = s.id) AS note_count,
+            s.event_count, s.request_count, s.error_count, s.first_url, s.user_agent,
+            si.begin_time,
+            si.end_time,
+            COALESCE(json_array_length(si.failed_urls), 0) AS failed_request_count
+          FROM sessions s
+          LEFT JOIN session_index si ON si.session_id = s.id
+          ${whereClause}
+          ORDER BY ${SORT_COLUMNS[sort_by]} ${direction}, s.id ${direction}
+          LIMIT ? OFFSET ?
+        `,
+        )
+        .all(...values, limit, offset) as Row[];
+
+      return { sessions: rows.map(toSessionMetadata), total: count };
+    },
+
+    async updateSession(id, changes) {
+      const columns = (Object.keys(changes) as (keyof SessionChanges)[]).filter(
+        (column) => changes[column] !== undefined,
+      );
+      const setClauses = [...columns.map((column) => `${column} = @${column}`), 'updated_at = @updated_at'];
+
+      const row = db.prepare(`UPDATE sessions SET ${setClauses.join(', ')} WHERE id = @id RETURNING *`).get({
+        ...changes,
+        tags: changes.tags && JSON.stringify(changes.tags),
+        updated_at: new Date().toISOString(),
+        id,
+      }) as Row | undefined;
+
+      return row ? toSession(row) : null;
+    },
+
+    async deleteSession(id) {
+      // Segments, index, notes and comments are removed by ON DELETE CASCADE
+      return db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+    },
+
+    async getSegment(sessionId, seq) {
+      const row = db.prepare('SELECT * FROM session_segments WHERE session_id = ? AND seq = ?').get(sessionId, seq) as
+        | Row
+        | undefined;
+      return row ? toSegment(row) : null;
+    },
+
+    async saveSegment(data) {
+      const row = db.transaction(() => {
+        const now = new Date().toISOString();
+        const segment = db
+          .prepare(
+            `
+            INSERT INTO session_segments (session_id, seq, blob_url, file_size, event_count, request_count, error_count, first_url, has_full_snapshot)
+            VALUES (@session_id, @seq, @blob_url, @file_size, @event_count, @request_count, @error_count, @first_url, @has_full_snapshot)
+            ON CONFLICT (session_id, seq)
+            DO UPDATE SET
+              blob_url = excluded.blob_url,
+              file_size = excluded.file_size,
+              event_count = excluded.event_count,
+              request_count = excluded.request_count,
+              error_count = excluded.error_count,
+              first_url = excluded.first_url,
+              has_full_snapshot = excluded.has_full_snapshot,
+              created_at = @now
+            RETURNING *
+          `,
+          )
+          .get({ ...data, has_full_snapshot: data.has_full_snapshot ? 1 : 0, now }) as Row;
+
+        // Keep session totals in sync with its segments, a re-sent seq replaces its counts
+        db.prepare(
+          `
+          UPDATE sessions
+          SET
+            segment_count = (SELECT COUNT(*) FROM session_segments WHERE session_id = @id),
+            file_size = (SELECT COALESCE(SUM(file_size), 0) FROM session_segments WHERE session_id = @id),
+            event_count = (SELECT COALESCE(SUM(event_count), 0) FROM session_segments WHERE session_id = @id),
+            request_count = (SELECT COALESCE(SUM(request_count), 0) FROM session_segments WHERE session_id = @id),
+            error_count = (SELECT COALESCE(SUM(error_count), 0) FROM session_segments WHERE session_id = @id),
+            first_url = (
+              SELECT first_url FROM session_segments
+              WHERE session_id = @id AND first_url IS NOT NULL
+              ORDER BY seq ASC
+              LIMIT 1
+            ),
+            updated_at = @now
+          WHERE id = @id
+        `,
+        ).run({ id: data.session_id, now });
+
+        return segment;
+      })();
+
+      return toSegment(row);
+    },
+
+    async listSegments(sessionId) {
+      const rows = db
+        .prepare('SELECT * FROM session_segments WHERE session_id = ? ORDER BY seq ASC')
+        .all(sessionId) as Row[];
+      return rows.map(toSegment);
+    },
+
+    async saveSessionIndex(sessionId, data, merge) {
+      db.transaction(() => {
+        let existing: SessionIndexData | null = null;
+
+        if (merge) {
+          const row = db.prepare('SELECT * FROM session_index WHERE session_id = ?').get(sessionId) as Row | undefined;
+          existing = row
+            ? {
+                urls: JSON.parse(row.urls),
+                error_messages: JSON.parse(row.error_messages),
+                failed_urls: JSON.parse(row.failed_urls),
+                status_codes: JSON.parse(row.status_codes),
+                begin_time: toDate(row.begin_time),
+                end_time: toDate(row.end_time),
+              }
+            : null;
+        }
+
+        const index = mergeSessionIndex(existing, data);
+
+        db.prepare(
+          `
+          INSERT INTO session_index (session_id, urls, error_messages, failed_urls, status_codes, begin_time, end_time, search_text, updated_at)
+          VALUES (@session_id, @urls, @error_messages, @failed_urls, @status_codes, @begin_time, @end_time, @search_text, @updated_at)
+          ON CONFLICT (session_id)
+          DO UPDATE SET
+            urls = excluded.urls,
+            error_messages = excluded.error_messages,
+            failed_urls = excluded.failed_urls,
+            status_codes = excluded.status_codes,
+            begin_time = excluded.begin_time,
+            end_time = excluded.end_time,
+            search_text = excluded.search_text,
+            updated_at = excluded.updated_at
+        `,
+        ).run({
+          session_id: sessionId,
+          urls: JSON.stringify(index.urls),
+          error_messages: JSON.stringify(index.error_messages),
+          failed_urls: JSON.stringify(index.failed_urls),
+          status_codes: JSON.stringify(index.status_codes),
+          begin_time: index.begin_time?.toISOString() ?? null,
+          end_time: index.end_time?.toISOString() ?? null,
+          search_text: buildSearchText(index),
+          updated_at: new Date().toISOString(),
+        });
+      })();
+    },
+
+    async getNote(sessionId, noteId) {
+      const row = db.prepare('SELECT * FROM session_notes WHERE id = ? AND session_id = ?').get(noteId, sessionId) as
+        | Row
+        | undefined;
+      return row ? withCreatedAt<SessionNote>(row) : null;
+    },
+
+    async listNotes(sessionId) {
+      const rows = db
+        .prepare('SELECT * FROM session_notes WHERE session_id = ? ORDER BY created_at ASC, id ASC')
+        .all(sessionId) as Row[];
+      return rows.map((row) => withCreatedAt<SessionNote>(row));
+    },
+
+    async createNote(data) {
+      const row = db
+        .prepare(
+          `
+          INSERT INTO session_notes (session_id, parent_id, author, body)
+          VALUES (@session_id, @parent_id, @author, @body)
+          RETURNING *
+        `,
+        )
+        .get(data) as Row;
+      return withCreatedAt<SessionNote>(row);
+    },
+
+    async deleteNote(sessionId, noteId) {
+      // Replies are removed by ON DELETE CASCADE
+      return db.prepare('DELETE FROM session_notes WHERE id = ? AND session_id = ?').run(noteId, sessionId).changes > 0;
+    },
+
+    async listComments(sessionId) {
+      const rows = db
+        .prepare('SELECT * FROM session_comments WHERE session_id = ? ORDER BY offset_ms ASC, id ASC')
+        .all(sessionId) as Row[];
+      return rows.map((row) => withCreatedAt<SessionComment>(row));
+    },
+
+    async createComment(data) {
+      const row = db
+        .prepare(
+          `
+          INSERT INTO session_comments (session_id, offset_ms, node_id, author, body)
+          VALUES (@session_id, @offset_ms, @node_id, @author, @body)
+          RETURNING *
+        `,
+        )
+        .get(data) as Row;
+      return withCreatedAt<SessionComment>(row);
+    },
+
+    async deleteComment(sessionId, commentId) {
+      return (
+        db.prepare('DELETE FROM session_comments WHERE id = ? AND session_id = ?').run(commentId, sessionId).changes > 0
+      );
+    },
+  };
+}
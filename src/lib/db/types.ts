@@ -0,0 +1,162 @@
+/**
+ * Session repository interface
+ * Every database backend stores the same entities, business rules stay in src/services/session.ts
+ */
+/* eslint-disable no-unused-vars */
+
+import type { Migration } from './migrations';
+
+import type { DatabaseBackend } from '@/config/database';
+import type {
+  ListSessionsParams,
+  Session,
+  SessionComment,
+  SessionIndexData,
+  SessionMetadata,
+  SessionNote,
+  SessionSegment,
+} from '@/types/session';
+
+/**
+ * Columns set when a session is created, the others take their defaults
+ */
+export type NewSession = Pick<
+  Session,
+  | 'blob_url'
+  | 'file_size'
+  | 'jira_id'
+  | 'platform'
+  | 'device_id'
+  | 'upload_status'
+  | 'trigger_type'
+  | 'trigger_message'
+  | 'event_count'
+  | 'request_count'
+  | 'error_count'
+  | 'first_url'
+  | 'user_agent'
+>;
+
+/**
+ * Columns that can be changed on an existing session
+ */
+export type SessionChanges = Partial<
+  Pick<
+    Session,
+    | 'blob_url'
+    | 'file_size'
+    | 'jira_id'
+    | 'platform'
+    | 'device_id'
+    | 'upload_status'
+    | 'tags'
+    | 'triage_status'
+    | 'assignee'
+    | 'event_count'
+    | 'request_count'
+    | 'error_count'
+    | 'first_url'
+  >
+>;
+
+export type NewSessionSegment = Omit<SessionSegment, 'id' | 'created_at'>;
+
+export type NewSessionNote = Omit<SessionNote, 'id' | 'created_at'>;
+
+export type NewSessionComment = Omit<SessionComment, 'id' | 'created_at'>;
+
+export interface SessionRepository {
+  readonly backend: DatabaseBackend;
+
+  /**
+   * Apply pending schema migrations
+   * @returns Migrations applied by this call (empty when the schema is up to date)
+   */
+  migrate(): Promise<Migration[]>;
+
+  /**
+   * Revert the most recently applied migration
+   * @returns Reverted migration, null if no migration is applied
+   */
+  rollback(): Promise<Migration | null>;
+
+  /**
+   * Migrations the code expects that are not applied to the database yet
+   */
+  pendingMigrations(): Promise<Migration[]>;
+
+  /**
+   * Release the connection, the repository cannot be used afterwards
+   */
+  close(): Promise<void>;
+
+  createSession(data: NewSession): Promise<Session>;
+
+  /**
+   * @returns The session, null if it does not exist
+   */
+  getSession(id: number): Promise<Session | null>;
+
+  /**
+   * List sessions matching all given filters
+   * Full-text search (q) uses Postgres text search, other backends match whole words
+   */
+  listSessions(params: ListSessionsParams): Promise<{ sessions: SessionMetadata[]; total: number }>;
+
+  /**
+   * @returns The updated session, null if it does not exist
+   */
+  updateSession(id: number, changes: SessionChanges): Promise<Session | null>;
+
+  /**
+   * Delete a session with its segments, index, notes and comments
+   * @returns False if the session does not exist
+   */
+  deleteSession(id: number): Promise<boolean>;
+
+  getSegment(sessionId: number, seq: number): Promise<SessionSegment | null>;
+
+  /**
+   * Insert a segment, or replace the one with the same seq,
+   * and recompute the session totals from its segments in the same transaction
+   */
+  saveSegment(data: NewSessionSegment): Promise<SessionSegment>;
+
+  /**
+   * @returns Segments sorted by seq
+   */
+  listSegments(sessionId: number): Promise<SessionSegment[]>;
+
+  /**
+   * Store the search index of a session
+   * @param merge Merge into the existing index instead of replacing it (segmented uploads)
+   */
+  saveSessionIndex(sessionId: number, data: SessionIndexData, merge: boolean): Promise<void>;
+
+  getNote(sessionId: number, noteId: number): Promise<SessionNote | null>;
+
+  /**
+   * @returns Notes sorted by creation time
+   */
+  listNotes(sessionId: number): Promise<SessionNote[]>;
+
+  createNote(data: NewSessionNote): Promise<SessionNote>;
+
+  /**
+   * Delete a note and its replies
+   * @returns False if the note does not exist in the session
+   */
+  deleteNote(sessionId: number, noteId: number): Promise<boolean>;
+
+  /**
+   * @returns Comments sorted by replay offset
+   */
+  listComments(sessionId: number): Promise<SessionComment[]>;
+
+  createComment(data: NewSessionComment): Promise<SessionComment>;
+
+  /**
+   * @returns False if the comment does not exist in the session
+   */
+  deleteComment(sessionId: number, commentId: number): Promise<boolean>;
+}
@@ -0,0 +1,64 @@
+/**
+ * Local filesystem storage adapter
+ * Files are written under the configured directory and served by the /api/files route
+ */
+
+import { mkdir, open, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { assertValidKey, fromFileUrl, toFileUrl, withRandomSuffix } from './storageKey';
+import type { StorageAdapter } from './types';
+
+export function createFilesystemStorage(directory: string): StorageAdapter {
+  const root = path.resolve(directory);
+
+  const resolveKey = (key: string): string => {
+    assertValidKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    backend: 'filesystem',
+
+    async put(key, body) {
+      const storedKey = withRandomSuffix(key);
+      const filePath = resolveKey(storedKey);
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+
+      return toFileUrl(storedKey);
+    },
+
+    async del(urls) {
+      for (const url of urls) {
+        const key = fromFileUrl(url);
+        if (key) {
+          await rm(resolveKey(key), { force: true });
+        }
+      }
+    },
+
+    async size(key) {
+      try {
+        return (await stat(resolveKey(key))).size;
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async read(key, range) {
+      const file = await open(resolveKey(key), 'r');
+      try {
+        const start = range?.start ?? 0;
+        const end = range?.end ?? (await file.stat()).size - 1;
+        const buffer = Buffer.alloc(Math.max(end - start + 1, 0));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    },
+  };
+}
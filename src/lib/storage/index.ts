@@ -0,0 +1,32 @@
+/**
+ * Storage singleton for session files
+ * The backend is chosen by STORAGE_BACKEND, see src/config/storage.ts
+ */
+
+import { createFilesystemStorage } from './filesystem';
+import { createS3Storage } from './s3';
+import type { StorageAdapter } from './types';
+import { createVercelBlobStorage } from './vercelBlob';
+
+import { getStorageConfig } from '@/config/storage';
+
+export type { ByteRange, StorageAdapter } from './types';
+export { FILE_ROUTE_PREFIX } from './storageKey';
+
+// Singleton storage instance
+let storageInstance: StorageAdapter | null = null;
+
+export const getStorage = (): StorageAdapter => {
+  if (!storageInstance) {
+    const config = getStorageConfig();
+
+    if (config.backend === 'filesystem') {
+      storageInstance = createFilesystemStorage(config.directory);
+    } else if (config.backend === 's3') {
+      storageInstance = createS3Storage(config.s3!);
+    } else {
+      storageInstance = createVercelBlobStorage();
+    }
+  }
+  return storageInstance;
+};
@@ -0,0 +1,140 @@
+/**
+ * S3-compatible storage adapter (AWS S3, MinIO, Cloudflare R2...)
+ * Requests are signed with AWS Signature Version 4, objects stay private and are served by the /api/files route
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+import { assertValidKey, fromFileUrl, toFileUrl, withRandomSuffix } from './storageKey';
+import type { ByteRange, StorageAdapter } from './types';
+
+import type { S3StorageConfig } from '@/config/storage';
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * URI-encode a path segment as required by SigV4 (RFC 3986, '~' unreserved)
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function createS3Storage(config: S3StorageConfig): StorageAdapter {
+  const endpoint = new URL(config.endpoint);
+
+  /**
+   * Host and path of an object, in path-style (endpoint/bucket/key) or virtual-hosted style (bucket.endpoint/key)
+   */
+  const objectLocation = (key: string): { host: string; path: string } => {
+    assertValidKey(key);
+    const encodedKey = key.split('/').map(encodeSegment).join('/');
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+
+    return config.forcePathStyle
+      ? { host: endpoint.host, path: `${basePath}/${encodeSegment(config.bucket)}/${encodedKey}` }
+      : { host: `${config.bucket}.${endpoint.host}`, path: `${basePath}/${encodedKey}` };
+  };
+
+  /**
+   * Send a signed request for one object
+   */
+  const request = async (
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+    key: string,
+    options: { body?: Buffer; range?: ByteRange } = {},
+  ): Promise<Response> => {
+    const { host, path } = objectLocation(key);
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+    const amzDate = new Date()
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (options.range) {
+      headers.range = `bytes=${options.range.start}-${options.range.end}`;
+    }
+
+    // fetch sets the Host header itself, it is only added for signing
+    const signedHeaders: Record<string, string> = { ...headers, host };
+    const signedHeaderNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      '', // No query string
+      signedHeaderNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), 's3'),
+      'aws4_request',
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(`${endpoint.protocol}//${host}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+      },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+  };
+
+  const fail = async (action: string, key: string, response: Response): Promise<never> => {
+    // HEAD responses have no body, others carry an XML error document
+    const detail = action === 'HEAD' ? '' : (await response.text()).slice(0, 500);
+    throw new Error(`S3 ${action} ${key} failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+  };
+
+  return {
+    backend: 's3',
+
+    async put(key, body) {
+      const storedKey = withRandomSuffix(key);
+      const response = await request('PUT', storedKey, { body });
+      if (!response.ok) await fail('PUT', storedKey, response);
+      return toFileUrl(storedKey);
+    },
+
+    async del(urls) {
+      for (const url of urls) {
+        const key = fromFileUrl(url);
+        if (!key) continue;
+
+        // Deleting a missing object succeeds with 204
+        const response = await request('DELETE', key);
+        if (!response.ok) await fail('DELETE', key, response);
+      }
+    },
+
+    async size(key) {
+      const response = await request('HEAD', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('HEAD', key, response);
+      return parseInt(response.headers.get('content-length') || '0', 10);
+    },
+
+    async read(key, range) {
+      const response = await request('GET', key, { range });
+      if (!response.ok) await fail('GET', key, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Storage key helpers shared by the adapters and the /api/files route
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * Route serving files of backends without public URLs (filesystem, S3)
+ */
+export const FILE_ROUTE_PREFIX = '/api/files/';
+
+/**
+ * Add a random suffix before the extension, e.g. session-1.zip -> session-1-k3j9x0a2b4c6d8e1.zip
+ */
+export function withRandomSuffix(key: string): string {
+  const suffix = randomBytes(8).toString('hex');
+  const dot = key.lastIndexOf('.');
+  return dot > key.lastIndexOf('/') ? `${key.slice(0, dot)}-${suffix}${key.slice(dot)}` : `${key}-${suffix}`;
+}
+
+/**
+ * Check that a key only names a file inside the storage root
+ * @throws Error if the key is empty or contains '..' / absolute path segments
+ */
+export function assertValidKey(key: string): void {
+  const segments = key.split('/');
+  if (!key || key.startsWith('/') || segments.some((segment) => !segment || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+  if (!/^[\w./-]+$/.test(key)) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+}
+
+/**
+ * Download URL of a file served through the /api/files route
+ */
+export function toFileUrl(key: string): string {
+  return `${FILE_ROUTE_PREFIX}${key}`;
+}
+
+/**
+ * Storage key of a URL returned by toFileUrl
+ * @returns The key, or null for URLs of another backend
+ */
+export function fromFileUrl(url: string): string | null {
+  return url.startsWith(FILE_ROUTE_PREFIX) ? url.slice(FILE_ROUTE_PREFIX.length) : null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Storage adapter interface
+ * Every backend stores session files under a key like sessions/session-123/segment-0-<suffix>.zip
+ */
+/* eslint-disable no-unused-vars */
+
+import type { StorageBackend } from '@/config/storage';
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+
+  /**
+   * Store a file, a random suffix is added to the key so URLs cannot be guessed
+   * @returns URL the file is downloaded from, stored in the blob_url column
+   */
+  put(key: string, body: Buffer): Promise<string>;
+
+  /**
+   * Delete files by the URLs returned from put
+   */
+  del(urls: string[]): Promise<void>;
+
+  /**
+   * Size of a stored file in bytes, null if it does not exist
+   * Only implemented by backends served through the /api/files route
+   */
+  size?(key: string): Promise<number | null>;
+
+  /**
+   * Read a stored file, or part of it
+   * Only implemented by backends served through the /api/files route
+   */
+  read?(key: string, range?: ByteRange): Promise<Buffer>;
+}
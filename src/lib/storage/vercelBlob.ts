@@ -0,0 +1,28 @@
+/**
+ * Vercel Blob storage adapter
+ * Files get public URLs on the Vercel Blob CDN, which downloads them directly with Range support
+ */
+
+import { del, put } from '@vercel/blob';
+
+import type { StorageAdapter } from './types';
+
+export function createVercelBlobStorage(): StorageAdapter {
+  return {
+    backend: 'vercel-blob',
+
+    async put(key, body) {
+      const blob = await put(key, body, {
+        access: 'public',
+        addRandomSuffix: true,
+      });
+      return blob.url;
+    },
+
+    async del(urls) {
+      if (urls.length > 0) {
+        await del(urls);
+      }
+    },
+  };
+}
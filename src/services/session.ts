@@ -1,15 +1,24 @@
 /**
  * Session Service Layer
- * Handles all database operations for replay sessions
+ * Business rules for replay sessions (limits, validation, storage, indexing)
+ * Rows are read and written through the session repository of the configured database backend
  */
 
-import { put, del } from '@vercel/blob';
-
-import { db } from '@/lib/db';
+import { getDb, type SessionChanges } from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+import { indexSessionArchive } from '@/services/sessionIndex';
+import { hasFullSnapshot, validateSessionUpload } from '@/services/sessionValidation';
 import type {
   Session,
   SessionMetadata,
+  SessionSegment,
   CreateSessionRequest,
+  CreateSegmentedSessionRequest,
+  CreateSessionCommentRequest,
+  CreateSessionNoteRequest,
+  SessionComment,
+  SessionNote,
+  UploadSegmentRequest,
   UpdateSessionRequest,
   ListSessionsParams,
 } from '@/types/session';
@@ -19,11 +28,22 @@ import type {
  */
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB in bytes
 
+/**
+ * Stored user agents are truncated to keep rows small
+ */
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * Maximum number of tags per session and characters per tag
+ */
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
 /**
  * Create a new session in the database
  * @param data Session data including file and metadata
  * @returns Created session
- * @throws Error if file size exceeds limit or database operation fails
+ * @throws Error if file size exceeds limit, the archive is invalid or database operation fails
  */
 export async function createSession(data: CreateSessionRequest): Promise<Session> {
   // Validate file size
@@ -33,27 +53,29 @@ export async function createSession(data: CreateSessionRequest): Promise<Session
     );
   }
 
-  // Upload file to Vercel Blob
+  // Reject corrupt recordings before they reach storage
+  const { archive, stats } = await validateSessionUpload(data.file, { requireFullSnapshot: true });
+
+  // Upload file to the configured storage backend
   const timestamp = Date.now();
-  const blob = await put(`sessions/session-${timestamp}.zip`, data.file, {
-    access: 'public',
-    addRandomSuffix: true,
-  });
+  const fileUrl = await getStorage().put(`sessions/session-${timestamp}.zip`, data.file);
 
   // Store metadata in database
-  const query = `
-    INSERT INTO sessions (blob_url, file_size, jira_id, platform, device_id)
-    VALUES ($1, $2, $3, $4, $5)
-    RETURNING id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at
-  `;
-
-  const session = await db.one<Session>(query, [
-    blob.url,
-    data.file.length,
-    data.jira_id || null,
-    data.platform || null,
-    data.device_id || null,
-  ]);
+  const session = await getDb().createSession({
+    blob_url: fileUrl,
+    file_size: data.file.length,
+    jira_id: data.jira_id || null,
+    platform: data.platform || null,
+    device_id: data.device_id || null,
+    upload_status: 'complete',
+    trigger_type: data.trigger_type || null,
+    trigger_message: data.trigger_message || null,
+    ...stats,
+    user_agent: data.user_agent?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+  });
+
+  // Extract URLs, errors and failed requests for search
+  await indexSessionArchive(session.id, archive);
 
   return session;
 }
@@ -65,13 +87,7 @@ export async function createSession(data: CreateSessionRequest): Promise<Session
  * @throws Error if session not found
  */
 export async function getSessionById(id: number): Promise<Session> {
-  const query = `
-    SELECT id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at
-    FROM sessions
-    WHERE id = $1
-  `;
-
-  const session = await db.oneOrNone<Session>(query, [id]);
+  const session = await getDb().getSession(id);
 
   if (!session) {
     throw new Error(`Session with ID ${id} not found`);
@@ -89,58 +105,7 @@ export async function listSessions(params: ListSessionsParams = {}): Promise<{
   sessions: SessionMetadata[];
   total: number;
 }> {
-  const { limit = 50, offset = 0, jira_id, platform, device_id } = params;
-
-  // Build WHERE clauses dynamically
-  const conditions: string[] = [];
-  const values: any[] = [];
-  let paramIndex = 1;
-
-  if (jira_id) {
-    conditions.push(`jira_id = $${paramIndex++}`);
-    values.push(jira_id);
-  }
-
-  if (platform) {
-    conditions.push(`platform = $${paramIndex++}`);
-    values.push(platform);
-  }
-
-  if (device_id) {
-    conditions.push(`device_id = $${paramIndex++}`);
-    values.push(device_id);
-  }
-
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-
-  // Get total count
-  const countQuery = `SELECT COUNT(*) as count FROM sessions ${whereClause}`;
-  const countResult = await db.one<{ count: string }>(countQuery, values);
-  const total = parseInt(countResult.count, 10);
-
-  // Get sessions with metadata (file_size is already stored in DB)
-  const query = `
-    SELECT 
-      id, 
-      jira_id, 
-      platform, 
-      device_id, 
-      created_at, 
-      updated_at,
-      file_size
-    FROM sessions
-    ${whereClause}
-    ORDER BY created_at DESC
-    LIMIT $${paramIndex++}
-    OFFSET $${paramIndex}
-  `;
-
-  const sessions = await db.manyOrNone<SessionMetadata>(query, [...values, limit, offset]);
-
-  return {
-    sessions: sessions || [],
-    total,
-  };
+  return getDb().listSessions(params);
 }
 
 /**
@@ -148,13 +113,11 @@ export async function listSessions(params: ListSessionsParams = {}): Promise<{
  * @param id Session ID
  * @param updates Fields to update
  * @returns Updated session
- * @throws Error if session not found or file size exceeds limit
+ * @throws Error if session not found, file size exceeds limit or the archive is invalid
  */
 export async function updateSession(id: number, updates: UpdateSessionRequest): Promise<Session> {
-  // Build SET clauses dynamically
-  const setClauses: string[] = [];
-  const values: any[] = [];
-  let paramIndex = 1;
+  const changes: SessionChanges = {};
+  let upload: Awaited<ReturnType<typeof validateSessionUpload>> | undefined;
 
   // If file is being updated, handle blob replacement
   if (updates.file !== undefined) {
@@ -165,66 +128,73 @@ export async function updateSession(id: number, updates: UpdateSessionRequest):
       );
     }
 
+    upload = await validateSessionUpload(updates.file, { requireFullSnapshot: true });
+
     // Get old blob URL for deletion
     const oldSession = await getSessionById(id);
 
-    // Upload new file to Vercel Blob
+    // Upload new file to the configured storage backend
     const timestamp = Date.now();
-    const blob = await put(`sessions/session-${timestamp}.zip`, updates.file, {
-      access: 'public',
-      addRandomSuffix: true,
-    });
-
-    // Delete old blob using the old blob URL
-    try {
-      await del(oldSession.blob_url);
-    } catch (error) {
-      console.warn('[Session Service] Failed to delete old blob:', error);
-      // Continue anyway - new blob is uploaded
+    const fileUrl = await getStorage().put(`sessions/session-${timestamp}.zip`, updates.file);
+
+    // Delete old blob using the old blob URL (segmented sessions have none)
+    if (oldSession.blob_url) {
+      try {
+        await getStorage().del([oldSession.blob_url]);
+      } catch (error) {
+        console.warn('[Session Service] Failed to delete old blob:', error);
+        // Continue anyway - new blob is uploaded
+      }
     }
 
     // Update blob-related fields
-    setClauses.push(`blob_url = $${paramIndex++}`);
-    values.push(blob.url);
-    setClauses.push(`file_size = $${paramIndex++}`);
-    values.push(updates.file.length);
+    changes.blob_url = fileUrl;
+    changes.file_size = updates.file.length;
+
+    // Replace the metadata derived from the old recording
+    Object.assign(changes, upload.stats);
   }
 
   if (updates.jira_id !== undefined) {
-    setClauses.push(`jira_id = $${paramIndex++}`);
-    values.push(updates.jira_id || null);
+    changes.jira_id = updates.jira_id || null;
   }
 
   if (updates.platform !== undefined) {
-    setClauses.push(`platform = $${paramIndex++}`);
-    values.push(updates.platform || null);
+    changes.platform = updates.platform || null;
   }
 
   if (updates.device_id !== undefined) {
-    setClauses.push(`device_id = $${paramIndex++}`);
-    values.push(updates.device_id || null);
+    changes.device_id = updates.device_id || null;
   }
 
-  if (setClauses.length === 0) {
-    throw new Error('No fields to update');
+  if (updates.tags !== undefined) {
+    changes.tags = normalizeTags(updates.tags);
   }
 
-  // updated_at will be automatically updated by the trigger
-  const query = `
-    UPDATE sessions
-    SET ${setClauses.join(', ')}
-    WHERE id = $${paramIndex}
-    RETURNING id, blob_url, file_size, jira_id, platform, device_id, created_at, updated_at
-  `;
+  if (updates.triage_status !== undefined) {
+    changes.triage_status = updates.triage_status;
+  }
+
+  if (updates.assignee !== undefined) {
+    changes.assignee = updates.assignee?.trim() || null;
+  }
 
-  values.push(id);
+  if (Object.keys(changes).length === 0) {
+    throw new Error('No fields to update');
+  }
 
-  const session = await db.oneOrNone<Session>(query, values);
+  // updated_at is set by the database backend
+  const session = await getDb().updateSession(id, changes);
 
   if (!session) {
     throw new Error(`Session with ID ${id} not found`);
   }
 
+  // Re-index the replaced recording
+  if (upload) {
+    await indexSessionArchive(id, upload.archive);
+  }
+
   return session;
 }
 
@@ -235,28 +205,29 @@ export async function updateSession(id: number, updates: UpdateSessionRequest):
  * @throws Error if session not found
  */
 export async function deleteSession(id: number): Promise<boolean> {
-  // Get session to retrieve blob URL
+  // Get session and segments to retrieve blob URLs
   const session = await getSessionById(id);
+  const segments = await listSessionSegments(id);
+  const blobUrls = [session.blob_url, ...segments.map((segment) => segment.blob_url)].filter(
+    (url): url is string => !!url,
+  );
 
   // Delete from database first
-  const query = `
-    DELETE FROM sessions
-    WHERE id = $1
-    RETURNING id
-  `;
+  const deleted = await getDb().deleteSession(id);
 
-  const result = await db.oneOrNone<{ id: number }>(query, [id]);
-
-  if (!result) {
+  if (!deleted) {
     throw new Error(`Session with ID ${id} not found`);
   }
 
-  // Delete blob from Vercel Blob storage using the blob URL
-  try {
-    await del(session.blob_url);
-  } catch (error) {
-    console.warn('[Session Service] Failed to delete blob from Vercel:', error);
-    // Don't throw - database record is already deleted
+  // Delete files from the storage backend using the blob URLs
+  // Segment rows are removed with the session
+  if (blobUrls.length > 0) {
+    try {
+      await getStorage().del(blobUrls);
+    } catch (error) {
+      console.warn('[Session Service] Failed to delete blob from storage:', error);
+      // Don't throw - database record is already deleted
+    }
   }
 
   return true;
@@ -268,7 +239,234 @@ export async function deleteSession(id: number): Promise<boolean> {
  * @returns True if session exists
  */
 export async function sessionExists(id: number): Promise<boolean> {
-  const query = `SELECT EXISTS(SELECT 1 FROM sessions WHERE id = $1) as exists`;
-  const result = await db.one<{ exists: boolean }>(query, [id]);
-  return result.exists;
+  return (await getDb().getSession(id)) !== null;
+}
+
+/**
+ * Start a segmented (multi-part) session upload
+ * The session stays 'open' until completeSession is called
+ * @param data Session metadata
+ * @returns Created session without blob URL
+ */
+export async function createSegmentedSession(data: CreateSegmentedSessionRequest): Promise<Session> {
+  return getDb().createSession({
+    blob_url: null,
+    file_size: 0,
+    jira_id: data.jira_id || null,
+    platform: data.platform || null,
+    device_id: data.device_id || null,
+    upload_status: 'open',
+    trigger_type: null,
+    trigger_message: null,
+    event_count: 0,
+    request_count: 0,
+    error_count: 0,
+    first_url: null,
+    user_agent: data.user_agent?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+  });
+}
+
+/**
+ * Add one segment to a segmented session
+ * Uploading the same seq twice replaces the segment, so retries are safe
+ * @param id Session ID
+ * @param data Segment sequence number and zip file
+ * @returns Stored segment
+ * @throws Error if session not found, already complete, segment exceeds size limit or the archive is invalid
+ */
+export async function addSessionSegment(id: number, data: UploadSegmentRequest): Promise<SessionSegment> {
+  // Each segment is limited, the session as a whole is not
+  if (data.file.length > MAX_FILE_SIZE) {
+    throw new Error(
+      `Segment size exceeds maximum allowed size of 20MB (got ${(data.file.length / 1024 / 1024).toFixed(2)}MB)`,
+    );
+  }
+
+  const session = await getSessionById(id);
+
+  if (session.upload_status === 'complete') {
+    throw new Error(`Session with ID ${id} is already complete`);
+  }
+
+  // Only the whole session needs a full snapshot, later segments continue from the previous one
+  const { archive, stats } = await validateSessionUpload(data.file, { requireFullSnapshot: false });
+
+  const existing = await getDb().getSegment(id, data.seq);
+
+  // Upload segment to the configured storage backend
+  const fileUrl = await getStorage().put(`sessions/session-${id}/segment-${data.seq}.zip`, data.file);
+
+  // Session totals are recomputed from its segments, so a re-sent seq replaces its counts
+  const segment = await getDb().saveSegment({
+    session_id: id,
+    seq: data.seq,
+    blob_url: fileUrl,
+    file_size: data.file.length,
+    ...stats,
+    has_full_snapshot: hasFullSnapshot(archive.eventData),
+  });
+
+  // Merge the segment into the session search index
+  await indexSessionArchive(id, archive, true);
+
+  // Delete the replaced segment blob
+  if (existing) {
+    try {
+      await getStorage().del([existing.blob_url]);
+    } catch (error) {
+      console.warn('[Session Service] Failed to delete replaced segment blob:', error);
+      // Continue anyway - new blob is uploaded
+    }
+  }
+
+  return segment;
+}
+
+/**
+ * List the segments of a session in upload order
+ * @param id Session ID
+ * @returns Segments sorted by seq (empty for single-file sessions)
+ */
+export async function listSessionSegments(id: number): Promise<SessionSegment[]> {
+  return getDb().listSegments(id);
+}
+
+/**
+ * Mark a segmented session as complete
+ * Completing an already complete session is a no-op
+ * @param id Session ID
+ * @returns Updated session
+ * @throws Error if session not found, or 'Invalid recording' if no segment holds a full snapshot
+ */
+export async function completeSession(id: number): Promise<Session> {
+  const existing = await getSessionById(id);
+
+  if (existing.upload_status === 'complete') {
+    return existing;
+  }
+
+  // Segments are validated one by one, so the whole session is checked for a replayable page here
+  const segments = await getDb().listSegments(id);
+
+  if (segments.length === 0) {
+    throw new Error('Invalid recording: the session has no segments');
+  }
+
+  if (!segments.some((segment) => segment.has_full_snapshot)) {
+    throw new Error('Invalid recording: no segment has a full snapshot (type 2) event, so there is no page to replay');
+  }
+
+  const session = await getDb().updateSession(id, { upload_status: 'complete' });
+
+  if (!session) {
+    throw new Error(`Session with ID ${id} not found`);
+  }
+
+  return session;
+}
+
+/**
+ * List the notes of a session, oldest first
+ * Replies reference their parent through parent_id
+ * @param id Session ID
+ * @returns Notes sorted by creation time
+ * @throws Error if session not found
+ */
+export async function listSessionNotes(id: number): Promise<SessionNote[]> {
+  await getSessionById(id);
+
+  return getDb().listNotes(id);
+}
+
+/**
+ * Add a note (or a reply to a note) to a session
+ * @param id Session ID
+ * @param data Note body, author and optional parent note
+ * @returns Created note
+ * @throws Error if session or parent note not found
+ */
+export async function addSessionNote(id: number, data: CreateSessionNoteRequest): Promise<SessionNote> {
+  await getSessionById(id);
+
+  if (data.parent_id !== undefined) {
+    const parent = await getDb().getNote(id, data.parent_id);
+
+    if (!parent) {
+      throw new Error(`Note with ID ${data.parent_id} not found in session ${id}`);
+    }
+  }
+
+  return getDb().createNote({
+    session_id: id,
+    parent_id: data.parent_id ?? null,
+    author: data.author?.trim() || null,
+    body: data.body.trim(),
+  });
+}
+
+/**
+ * Delete a note and its replies
+ * @param id Session ID
+ * @param noteId Note ID
+ * @throws Error if note not found
+ */
+export async function deleteSessionNote(id: number, noteId: number): Promise<void> {
+  const deleted = await getDb().deleteNote(id, noteId);
+
+  if (!deleted) {
+    throw new Error(`Note with ID ${noteId} not found in session ${id}`);
+  }
+}
+
+/**
+ * List the comments of a session in replay order
+ * @param id Session ID
+ * @returns Comments sorted by replay offset
+ * @throws Error if session not found
+ */
+export async function listSessionComments(id: number): Promise<SessionComment[]> {
+  await getSessionById(id);
+
+  return getDb().listComments(id);
+}
+
+/**
+ * Add a comment at a replay position
+ * @param id Session ID
+ * @param data Replay offset, optional node ID, body and author
+ * @returns Created comment
+ * @throws Error if session not found
+ */
+export async function addSessionComment(id: number, data: CreateSessionCommentRequest): Promise<SessionComment> {
+  await getSessionById(id);
+
+  return getDb().createComment({
+    session_id: id,
+    offset_ms: Math.round(data.offset_ms),
+    node_id: data.node_id ?? null,
+    author: data.author?.trim() || null,
+    body: data.body.trim(),
+  });
+}
+
+/**
+ * Delete a comment
+ * @param id Session ID
+ * @param commentId Comment ID
+ * @throws Error if comment not found
+ */
+export async function deleteSessionComment(id: number, commentId: number): Promise<void> {
+  const deleted = await getDb().deleteComment(id, commentId);
+
+  if (!deleted) {
+    throw new Error(`Comment with ID ${commentId} not found in session ${id}`);
+  }
+}
+
+/**
+ * Trim, de-duplicate and cap tags
+ */
+function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH)).filter(Boolean);
+  return [...new Set(normalized)].slice(0, MAX_TAGS);
 }
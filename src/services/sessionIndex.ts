@@ -0,0 +1,130 @@
+/**
+ * Session Search Index
+ * Extracts searchable data from uploaded recordings and stores it in the session_index table
+ * Each database backend merges and searches the index its own way, see src/lib/db
+ */
+
+import { UNCAUGHT_ERROR_EVENT_TAG } from '@/constants';
+import { getDb, MAX_INDEX_ENTRIES } from '@/lib/db';
+import type { RecordCollection } from '@/recorder';
+import type { SessionArchive } from '@/types/archive';
+import type { HarEntry } from '@/types/har';
+import type { SessionIndexData } from '@/types/session';
+import { archiveToCollection } from '@/utils/sessionArchive';
+
+/**
+ * Indexed URLs and messages are truncated to keep rows small
+ */
+const MAX_INDEX_TEXT_LENGTH = 1000;
+
+/**
+ * Extract searchable data from a recording collection
+ * @param collection Recording collection as stored in the session zip
+ * @returns Index data (lists are de-duplicated and capped)
+ */
+export function extractSessionIndex(collection: RecordCollection): SessionIndexData {
+  const urls = new Set<string>();
+  const errorMessages = new Set<string>();
+  const failedUrls = new Set<string>();
+  const statusCodes = new Set<number>();
+  let beginTime = Infinity;
+  let endTime = -Infinity;
+
+  Object.values(collection).forEach((session) => {
+    (session.eventData || []).forEach((event: any) => {
+      if (typeof event.timestamp === 'number') {
+        beginTime = Math.min(beginTime, event.timestamp);
+        endTime = Math.max(endTime, event.timestamp);
+      }
+
+      // Meta events (type 4) carry the page URL at every full snapshot
+      if (event.type === 4 && event.data?.href) {
+        addEntry(urls, event.data.href);
+      }
+
+      // URL change events (type 5, custom events)
+      if (event.type === 5 && event.data?.tag === 'url-change' && event.data.payload?.url) {
+        addEntry(urls, event.data.payload.url);
+      }
+
+      // Uncaught errors and unhandled rejections (type 5, custom events)
+      if (event.type === 5 && event.data?.tag === UNCAUGHT_ERROR_EVENT_TAG && event.data.payload?.message) {
+        addEntry(errorMessages, event.data.payload.message);
+      }
+
+      // Console errors (type 6, console plugin)
+      if (event.type === 6 && event.data?.plugin === 'rrweb/console@1' && event.data.payload?.level === 'error') {
+        const args: any[] = event.data.payload.payload || [];
+        addEntry(errorMessages, args.map(formatConsoleArg).join(' '));
+      }
+    });
+
+    (session.responseData || []).forEach((entry: HarEntry) => {
+      const status = entry.response?.status ?? 0;
+
+      if (status === 0 || status >= 400) {
+        addEntry(failedUrls, entry.request.url);
+        statusCodes.add(status);
+      }
+
+      const startedAt = Date.parse(entry.startedDateTime);
+      if (!isNaN(startedAt)) {
+        beginTime = Math.min(beginTime, startedAt);
+        endTime = Math.max(endTime, startedAt + Math.max(entry.time || 0, 0));
+      }
+    });
+  });
+
+  return {
+    urls: [...urls],
+    error_messages: [...errorMessages],
+    failed_urls: [...failedUrls],
+    status_codes: [...statusCodes],
+    begin_time: isFinite(beginTime) ? new Date(beginTime) : null,
+    end_time: isFinite(endTime) ? new Date(endTime) : null,
+  };
+}
+
+/**
+ * Index an uploaded session archive
+ * Indexing never fails the upload, errors are logged and the session stays unindexed
+ * @param id Session ID
+ * @param archive Session (or segment) archive, already validated
+ * @param merge Merge into the existing index instead of replacing it (segmented uploads)
+ */
+export async function indexSessionArchive(id: number, archive: SessionArchive, merge = false): Promise<void> {
+  try {
+    await getDb().saveSessionIndex(id, extractSessionIndex(archiveToCollection(archive)), merge);
+  } catch (error) {
+    console.warn(`[Session Index] Failed to index session ${id}:`, error);
+  }
+}
+
+/**
+ * Add a truncated entry to a capped set
+ */
+function addEntry(set: Set<string>, value: string): void {
+  const text = String(value).trim().slice(0, MAX_INDEX_TEXT_LENGTH);
+  if (text && set.size < MAX_INDEX_ENTRIES) {
+    set.add(text);
+  }
+}
+
+/**
+ * The console plugin stores arguments as JSON strings, unwrap plain strings
+ */
+function formatConsoleArg(arg: any): string {
+  if (typeof arg !== 'string') {
+    return JSON.stringify(arg);
+  }
+
+  if (arg.startsWith('"') && arg.endsWith('"')) {
+    try {
+      return JSON.parse(arg);
+    } catch {
+      return arg;
+    }
+  }
+
+  return arg;
+}
@@ -0,0 +1,143 @@
+/**
+ * Session Upload Validation
+ * Checks that an uploaded archive holds a replayable recording before it is stored,
+ * and derives the metadata kept with the session
+ */
+
+import { UNCAUGHT_ERROR_EVENT_TAG } from '@/constants';
+import type { SessionArchive } from '@/types/archive';
+import type { SessionRecordingStats } from '@/types/session';
+import { readSessionArchive } from '@/utils/sessionArchive';
+
+/**
+ * Timestamps before this date cannot come from a real recording (2015-01-01)
+ */
+const MIN_EVENT_TIMESTAMP = Date.UTC(2015, 0, 1);
+
+/**
+ * Allowed clock skew between the recording browser and the server
+ */
+const MAX_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest span accepted between the first and last event of one upload
+ */
+const MAX_RECORDING_SPAN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stored first URLs are truncated to keep rows small
+ */
+const MAX_URL_LENGTH = 2000;
+
+export interface ValidateRecordingOptions {
+  requireFullSnapshot: boolean; // Segments after the first one do not start with a snapshot
+}
+
+/**
+ * Check that the events of an archive can be replayed
+ * @throws Error starting with 'Invalid recording' explaining the first problem found
+ */
+export function validateRecording(eventData: unknown[], options: ValidateRecordingOptions): void {
+  const now = Date.now();
+  let beginTime = Infinity;
+  let endTime = -Infinity;
+
+  eventData.forEach((event: any, index) => {
+    if (!event || typeof event !== 'object') {
+      throw new Error(`Invalid recording: event #${index} is not an object`);
+    }
+    if (typeof event.type !== 'number') {
+      throw new Error(`Invalid recording: event #${index} has no numeric "type"`);
+    }
+    if (typeof event.timestamp !== 'number' || !isFinite(event.timestamp)) {
+      throw new Error(`Invalid recording: event #${index} has no numeric "timestamp"`);
+    }
+    if (event.timestamp < MIN_EVENT_TIMESTAMP || event.timestamp > now + MAX_CLOCK_SKEW_MS) {
+      throw new Error(
+        `Invalid recording: event #${index} has an out of range timestamp (${event.timestamp}), check the recording device clock`,
+      );
+    }
+
+    beginTime = Math.min(beginTime, event.timestamp);
+    endTime = Math.max(endTime, event.timestamp);
+  });
+
+  if (options.requireFullSnapshot && eventData.length === 0) {
+    throw new Error('Invalid recording: the archive contains no events');
+  }
+
+  if (options.requireFullSnapshot && !hasFullSnapshot(eventData)) {
+    throw new Error('Invalid recording: no full snapshot (type 2) event, so there is no page to replay');
+  }
+
+  if (endTime - beginTime > MAX_RECORDING_SPAN_MS) {
+    throw new Error(
+      `Invalid recording: events span ${Math.round((endTime - beginTime) / 3600000)} hours, timestamps are inconsistent`,
+    );
+  }
+}
+
+/**
+ * Whether the events contain a full snapshot (type 2), the page a replay starts from
+ */
+export function hasFullSnapshot(eventData: unknown[]): boolean {
+  return eventData.some((event: any) => event?.type === 2);
+}
+
+/**
+ * Derive the counts and first page of a recording
+ */
+export function extractRecordingStats(archive: SessionArchive): SessionRecordingStats {
+  let errorCount = 0;
+  let firstUrl: string | null = null;
+  let firstUrlTime = Infinity;
+
+  archive.eventData.forEach((event: any) => {
+    // Meta events (type 4) carry the page URL at every full snapshot
+    if (event.type === 4 && event.data?.href && event.timestamp < firstUrlTime) {
+      firstUrl = String(event.data.href).slice(0, MAX_URL_LENGTH);
+      firstUrlTime = event.timestamp;
+    }
+
+    // Uncaught errors and unhandled rejections (type 5, custom events)
+    if (event.type === 5 && event.data?.tag === UNCAUGHT_ERROR_EVENT_TAG) {
+      errorCount++;
+    }
+
+    // Console errors (type 6, console plugin)
+    if (event.type === 6 && event.data?.plugin === 'rrweb/console@1' && event.data.payload?.level === 'error') {
+      errorCount++;
+    }
+  });
+
+  return {
+    event_count: archive.eventData.length,
+    request_count: archive.responseData.length,
+    error_count: errorCount,
+    first_url: firstUrl,
+  };
+}
+
+/**
+ * Read, validate and describe an uploaded session or segment archive
+ * @throws Error starting with 'Invalid archive' or 'Invalid recording' for corrupt uploads
+ */
+export async function validateSessionUpload(
+  file: Buffer,
+  options: ValidateRecordingOptions,
+): Promise<{ archive: SessionArchive; stats: SessionRecordingStats }> {
+  const archive = await readSessionArchive(file);
+  validateRecording(archive.eventData, options);
+
+  return { archive, stats: extractRecordingStats(archive) };
+}
+
+/**
+ * Check whether an error was raised for a corrupt upload, API routes answer these with 400
+ */
+export function isInvalidUploadError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message.startsWith('Invalid archive') || error.message.startsWith('Invalid recording'))
+  );
+}
@@ -42,6 +42,7 @@ export interface HarContent {
 }
 
 export interface HarResponse {
+  _transferSize?: number; // Custom field with the bytes received over the network, headers included
   status: number;
   statusText: string;
   httpVersion: string;
@@ -67,6 +68,9 @@ export interface HarTimings {
 
 export interface HarEntry {
   _type?: string; // Custom field to distinguish XHR vs Fetch
+  _redactions?: string[]; // Custom field listing the redaction rules that masked data in this entry
+  _tabId?: string; // Custom field with the tab the request was recorded in, set when several tabs share a session
+  pageref?: string;
   startedDateTime: string;
   time: number;
   request: HarRequest;
@@ -77,3 +81,37 @@ export interface HarEntry {
   connection?: string;
   comment?: string;
 }
+
+export interface HarCreator {
+  name: string;
+  version: string;
+  comment?: string;
+}
+
+export interface HarPageTimings {
+  onContentLoad?: number;
+  onLoad?: number;
+  comment?: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: HarPageTimings;
+  comment?: string;
+}
+
+export interface HarLog {
+  version: string;
+  creator: HarCreator;
+  browser?: HarCreator;
+  pages?: HarPage[];
+  entries: HarEntry[];
+  comment?: string;
+}
+
+// Top-level object of a .har file
+export interface HarFile {
+  log: HarLog;
+}
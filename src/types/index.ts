@@ -34,8 +34,52 @@ export type LogInfo = {
   level: LogLevel;
   info: any[];
   timestamp?: number;
+  uncaught?: UncaughtErrorInfo; // Set for uncaught errors and unhandled rejections
+  frame?: string; // URL of the same-origin iframe that logged it
 };
 
+// Uncaught error recorded by the SDK ('uncaught-error' custom event)
+export interface UncaughtErrorInfo {
+  kind: 'error' | 'unhandledrejection';
+  message: string;
+  source?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+  frame?: string; // URL of the same-origin iframe it happened in
+}
+
+// Tab visibility recorded by the SDK ('tab-activity' custom event)
+export interface TabActivity {
+  sessionId: number; // Shared session of the user's tabs
+  tabId: string;
+  streamId: number; // Local session the tab recorded into
+  state: 'visible' | 'hidden';
+}
+
+// Page load recorded by the SDK ('page-load' custom event), pages of a tab replay back to back
+export interface PageLoadInfo {
+  sessionId: number; // Page session of the tab
+  tabId: string;
+  streamId: number; // Local session the page recorded into
+  index: number; // Position of the page in the session, from 0
+  url: string;
+  navigationType: 'navigate' | 'reload' | 'back_forward' | 'prerender';
+}
+
+// Privacy settings recorded by the SDK ('privacy-config' custom event), once a masking rule applied
+export interface PrivacySummary {
+  maskAllInputs: boolean;
+  maskInputTypes: string[];
+  maskTextSelector: string | null;
+  maskTextClass: string;
+  blockSelector: string | null;
+  blockClass: string;
+  ignoreClass: string;
+  customMaskText: boolean;
+  customMaskInput: boolean;
+}
+
 // Application IDs enum
 export enum EAppId {
   KEFU = 4, // Customer service
@@ -8,15 +8,112 @@
  */
 export interface Session {
   id: number;
-  blob_url: string; // Vercel Blob public URL
-  file_size: number; // File size in bytes
+  blob_url: string | null; // Download URL from the storage backend (null for segmented uploads)
+  file_size: number; // File size in bytes (sum of segments for segmented uploads)
   jira_id: string | null;
   platform: string | null;
   device_id: string | null;
+  upload_status: SessionUploadStatus;
+  segment_count: number; // Number of uploaded segments (0 for single-file uploads)
+  trigger_type: SessionTriggerType | null; // Set for sessions captured automatically on error
+  trigger_message: string | null;
+  tags: string[];
+  triage_status: SessionTriageStatus;
+  assignee: string | null;
+  event_count: number; // Derived from the recording at upload time (summed over segments)
+  request_count: number;
+  error_count: number;
+  first_url: string | null;
+  user_agent: string | null; // User-Agent header of the upload request
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Metadata derived from a recording when it is uploaded
+ * Stored on the session, and per segment for segmented uploads
+ */
+export interface SessionRecordingStats {
+  event_count: number; // rrweb events
+  request_count: number; // HAR entries
+  error_count: number; // Console errors, uncaught errors and unhandled rejections
+  first_url: string | null; // Page URL of the first Meta event
+}
+
+/**
+ * Triage state of a session
+ */
+export type SessionTriageStatus = 'new' | 'investigating' | 'resolved' | 'ignored';
+
+/**
+ * Source of the error that triggered an automatic capture
+ */
+export type SessionTriggerType = 'console' | 'uncaught' | 'network';
+
+/**
+ * Upload state of a session
+ * Segmented uploads stay 'open' until the client completes them
+ */
+export type SessionUploadStatus = 'open' | 'complete';
+
+/**
+ * Database Session segment entity
+ * One part of a multi-part (segmented) session upload
+ */
+export interface SessionSegment {
+  id: number;
+  session_id: number;
+  seq: number; // Segment order, starting at 0
+  blob_url: string;
+  file_size: number;
+  event_count: number;
+  request_count: number;
+  error_count: number;
+  first_url: string | null;
+  has_full_snapshot: boolean; // Segment holds a full snapshot (type 2) event, completion needs at least one
+  created_at: Date;
+}
+
+/**
+ * Database Session note entity
+ * Notes form threads through parent_id
+ */
+export interface SessionNote {
+  id: number;
+  session_id: number;
+  parent_id: number | null; // Note being replied to (null for top-level notes)
+  author: string | null;
+  body: string;
+  created_at: Date;
+}
+
+/**
+ * Database Session comment entity
+ * Anchored to a replay position, optionally to a DOM node
+ */
+export interface SessionComment {
+  id: number;
+  session_id: number;
+  offset_ms: number; // Replay offset from the first event
+  node_id: number | null; // rrweb node ID the comment points at
+  author: string | null;
+  body: string;
+  created_at: Date;
+}
+
+/**
+ * Searchable data extracted from a session recording
+ * Stored in the session_index table and merged across segments
+ */
+export interface SessionIndexData {
+  urls: string[]; // Visited page URLs
+  error_messages: string[]; // Console errors, uncaught errors and unhandled rejections
+  failed_urls: string[]; // URLs of requests that failed (status 0 or >= 400)
+  status_codes: number[]; // Status codes of failed requests
+  begin_time: Date | null; // First recorded event
+  end_time: Date | null; // Last recorded event
+}
+
 /**
  * Session metadata without the file data
  * Used for listing sessions efficiently
@@ -29,6 +126,23 @@ export interface SessionMetadata {
   created_at: Date;
   updated_at: Date;
   file_size: number; // Size of the file in bytes
+  upload_status: SessionUploadStatus;
+  segment_count: number;
+  trigger_type: SessionTriggerType | null;
+  trigger_message: string | null;
+  tags: string[];
+  triage_status: SessionTriageStatus;
+  assignee: string | null;
+  note_count: number;
+  event_count: number;
+  request_count: number;
+  error_count: number; // Error events, including repeats of the same message
+  first_url: string | null;
+  user_agent: string | null;
+  begin_time: Date | null; // From the search index (null until indexed)
+  end_time: Date | null;
+  duration_ms: number | null;
+  failed_request_count: number; // Distinct failed request URLs
 }
 
 /**
@@ -39,6 +153,27 @@ export interface CreateSessionRequest {
   jira_id?: string;
   platform?: string;
   device_id?: string;
+  trigger_type?: SessionTriggerType;
+  trigger_message?: string;
+  user_agent?: string;
+}
+
+/**
+ * Request payload for starting a segmented session upload
+ */
+export interface CreateSegmentedSessionRequest {
+  jira_id?: string;
+  platform?: string;
+  device_id?: string;
+  user_agent?: string;
+}
+
+/**
+ * Request payload for uploading one segment
+ */
+export interface UploadSegmentRequest {
+  seq: number;
+  file: Buffer; // Segment zip file as Buffer
 }
 
 /**
@@ -49,6 +184,28 @@ export interface UpdateSessionRequest {
   jira_id?: string;
   platform?: string;
   device_id?: string;
+  tags?: string[]; // Replaces all tags
+  triage_status?: SessionTriageStatus;
+  assignee?: string | null; // Empty or null unassigns the session
+}
+
+/**
+ * Request payload for adding a comment
+ */
+export interface CreateSessionCommentRequest {
+  offset_ms: number;
+  node_id?: number;
+  body: string;
+  author?: string;
+}
+
+/**
+ * Request payload for adding a note
+ */
+export interface CreateSessionNoteRequest {
+  body: string;
+  author?: string;
+  parent_id?: number; // Reply to this note
 }
 
 /**
@@ -63,6 +220,8 @@ export interface CreateSessionResponse {
     jira_id: string | null;
     platform: string | null;
     device_id: string | null;
+    upload_status: SessionUploadStatus;
+    trigger_type: SessionTriggerType | null;
   };
   error?: string;
 }
@@ -74,17 +233,71 @@ export interface GetSessionResponse {
   success: boolean;
   session?: {
     id: number;
-    blob_url: string; // Vercel Blob public URL to download the zip file
+    blob_url: string | null; // URL to download the zip file, Vercel Blob or /api/files (null for segmented uploads)
     file_size: number;
     jira_id: string | null;
     platform: string | null;
     device_id: string | null;
+    upload_status: SessionUploadStatus;
+    segment_count: number;
+    trigger_type: SessionTriggerType | null;
+    trigger_message: string | null;
+    tags: string[];
+    triage_status: SessionTriageStatus;
+    assignee: string | null;
+    event_count: number;
+    request_count: number;
+    error_count: number;
+    first_url: string | null;
+    user_agent: string | null;
     created_at: string;
     updated_at: string;
   };
   error?: string;
 }
 
+/**
+ * Response for segment upload
+ */
+export interface UploadSegmentResponse {
+  success: boolean;
+  segment?: {
+    seq: number;
+    file_size: number;
+    created_at: string;
+  };
+  error?: string;
+}
+
+/**
+ * Response for segment listing
+ */
+export interface ListSegmentsResponse {
+  success: boolean;
+  upload_status?: SessionUploadStatus;
+  segments?: Array<{
+    seq: number;
+    blob_url: string;
+    file_size: number;
+    created_at: string;
+  }>;
+  error?: string;
+}
+
+/**
+ * Response for completing a segmented upload
+ */
+export interface CompleteSessionResponse {
+  success: boolean;
+  session?: {
+    id: number;
+    file_size: number;
+    segment_count: number;
+    upload_status: SessionUploadStatus;
+  };
+  error?: string;
+}
+
 /**
  * Response for session list
  */
@@ -108,10 +321,49 @@ export interface UpdateSessionResponse {
     jira_id: string | null;
     platform: string | null;
     device_id: string | null;
+    tags: string[];
+    triage_status: SessionTriageStatus;
+    assignee: string | null;
   };
   error?: string;
 }
 
+/**
+ * Response for note listing
+ */
+export interface ListSessionNotesResponse {
+  success: boolean;
+  notes?: Array<Omit<SessionNote, 'created_at'> & { created_at: string }>;
+  error?: string;
+}
+
+/**
+ * Response for note creation
+ */
+export interface CreateSessionNoteResponse {
+  success: boolean;
+  note?: Omit<SessionNote, 'created_at'> & { created_at: string };
+  error?: string;
+}
+
+/**
+ * Response for comment listing
+ */
+export interface ListSessionCommentsResponse {
+  success: boolean;
+  comments?: Array<Omit<SessionComment, 'created_at'> & { created_at: string }>;
+  error?: string;
+}
+
+/**
+ * Response for comment creation
+ */
+export interface CreateSessionCommentResponse {
+  success: boolean;
+  comment?: Omit<SessionComment, 'created_at'> & { created_at: string };
+  error?: string;
+}
+
 /**
  * Response for session deletion
  */
@@ -130,4 +382,25 @@ export interface ListSessionsParams {
   jira_id?: string;
   platform?: string;
   device_id?: string;
+  q?: string; // Full-text search over URLs and error messages
+  url?: string; // Substring of a visited or failed request URL
+  error?: string; // Substring of an error message
+  status?: number; // Status code of a failed request
+  from?: Date; // Session overlaps this time range
+  to?: Date;
+  tag?: string; // Session has this tag
+  triage_status?: SessionTriageStatus;
+  assignee?: string;
+  sort_by?: SessionSortField; // Default: created_at
+  sort_order?: SortOrder; // Default: desc
 }
+
+/**
+ * Columns sessions can be sorted by
+ */
+export type SessionSortField = 'created_at' | 'file_size';
+
+/**
+ * Sort direction for session listing
+ */
+export type SortOrder = 'asc' | 'desc';
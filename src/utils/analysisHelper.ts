@@ -3,7 +3,7 @@
  * Prepares session data for AI analysis
  */
 
-import type { LogInfo } from '@/types';
+import type { LogInfo, UncaughtErrorInfo } from '@/types';
 import type { HarEntry } from '@/types/har';
 
 export interface ErrorInfo {
@@ -65,11 +65,13 @@ export function prepareAnalysisData(
   const recentLogs = logs.slice(-logLimit);
 
   recentLogs.forEach((log) => {
-    const info = {
-      message: formatLogMessage(log.info),
-      timestamp: log.timestamp || 0,
-      stack: includeStackTrace ? extractStackTrace(log.info) : undefined,
-    };
+    const info: ErrorInfo = log.uncaught
+      ? formatUncaughtError(log.uncaught, log.timestamp || 0, includeStackTrace)
+      : {
+          message: formatLogMessage(log.info),
+          timestamp: log.timestamp || 0,
+          stack: includeStackTrace ? extractStackTrace(log.info) : undefined,
+        };
 
     if (log.level === 'error') {
       errors.push(info);
@@ -151,6 +153,20 @@ function formatLogMessage(info: any[]): string {
     .slice(0, 1000); // Limit message length
 }
 
+/**
+ * Format an uncaught error or unhandled rejection recorded by the SDK
+ */
+function formatUncaughtError(error: UncaughtErrorInfo, timestamp: number, includeStackTrace: boolean): ErrorInfo {
+  const location = error.source ? ` (${error.source}:${error.line ?? 0}:${error.column ?? 0})` : '';
+
+  return {
+    message: `${error.message}${location}`.slice(0, 1000),
+    timestamp,
+    stack: includeStackTrace && error.stack ? error.stack.split('\n').slice(0, 15).join('\n') : undefined,
+    context: error.kind === 'unhandledrejection' ? 'Unhandled promise rejection' : 'Uncaught exception',
+  };
+}
+
 /**
  * Extract stack trace from log info
  */
@@ -297,7 +313,7 @@ export function buildAnalysisPrompt(data: AnalysisData): string {
 **🎯 Seekable Link:** [${relativeTime}](#seek:${error.timestamp})
 
 **Message:** ${error.message}
-
+${error.context ? `\n**Type:** ${error.context}\n` : ''}
 **Occurred At:** ${timeStr}
 
 **Raw Timestamp:** ${error.timestamp} (use this exact value for seek links)${
@@ -2,7 +2,7 @@
  * Chunk Downloader Utility
  *
  * Implements parallel chunked download with progress tracking and retry mechanism.
- * Supports HTTP Range requests for efficient large file downloads from Vercel Blob.
+ * Supports HTTP Range requests for efficient large file downloads from Vercel Blob or the /api/files route.
  */
 
 export interface DownloadOptions {
@@ -0,0 +1,84 @@
+/**
+ * HAR Export Utilities
+ * Builds standards-compliant HAR 1.2 files from a recorded session
+ */
+
+import { HAR_CREATOR } from '@/constants';
+import type { HarEntry, HarFile, HarPage } from '@/types/har';
+
+/**
+ * Build HAR pages from the url-change events on the rrweb timeline
+ * Falls back to the first Meta event when no URL change was recorded
+ */
+function buildHarPages(events: any[]): HarPage[] {
+  const visits: { url: string; timestamp: number }[] = [];
+
+  events.forEach((event) => {
+    if (event?.type === 5 && event.data?.tag === 'url-change' && event.data.payload?.url) {
+      visits.push({ url: event.data.payload.url, timestamp: event.timestamp });
+    }
+  });
+
+  if (visits.length === 0) {
+    const meta = events.find((event) => event?.type === 4 && event.data?.href);
+    if (meta) {
+      visits.push({ url: meta.data.href, timestamp: meta.timestamp });
+    }
+  }
+
+  return visits
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((visit, index) => ({
+      startedDateTime: new Date(visit.timestamp).toISOString(),
+      id: `page_${index + 1}`,
+      title: visit.url,
+      pageTimings: { onContentLoad: -1, onLoad: -1 },
+    }));
+}
+
+/**
+ * Build a HAR 1.2 log from a session's events and network entries
+ * Each entry references the page that was open when the request started
+ */
+export function buildHarLog(events: any[], entries: HarEntry[]): HarFile {
+  const pages = buildHarPages(events);
+  const pageStarts = pages.map((page) => Date.parse(page.startedDateTime));
+
+  const harEntries = [...entries]
+    .sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime))
+    .map((entry) => {
+      const startedAt = Date.parse(entry.startedDateTime);
+      let pageIndex = 0;
+      pageStarts.forEach((pageStart, index) => {
+        if (pageStart <= startedAt) pageIndex = index;
+      });
+
+      return pages.length > 0 ? { ...entry, pageref: pages[pageIndex]!.id } : entry;
+    });
+
+  return {
+    log: {
+      version: '1.2',
+      creator: HAR_CREATOR,
+      pages,
+      entries: harEntries,
+    },
+  };
+}
+
+/**
+ * Download a session's network traffic as a .har file
+ */
+export function downloadHar(events: any[], entries: HarEntry[], filename: string): void {
+  const har = buildHarLog(events, entries);
+  const blob = new Blob([JSON.stringify(har, null, 2)], { type: 'application/json;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
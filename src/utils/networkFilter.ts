@@ -0,0 +1,103 @@
+/**
+ * Network Filter Utilities
+ * Filters HAR entries for the network panel and lays them out on a waterfall timeline
+ */
+
+import type { HarEntry } from '@/types/har';
+
+export type StatusClass = '2xx' | '3xx' | '4xx' | '5xx' | 'failed';
+
+export const STATUS_CLASS_OPTIONS: { value: StatusClass; label: string }[] = [
+  { value: '2xx', label: '2xx Success' },
+  { value: '3xx', label: '3xx Redirect' },
+  { value: '4xx', label: '4xx Client Error' },
+  { value: '5xx', label: '5xx Server Error' },
+  { value: 'failed', label: 'Failed (no response)' },
+];
+
+export interface NetworkFilters {
+  text: string; // Case-insensitive URL substring
+  methods: string[];
+  statusClasses: StatusClass[];
+  types: string[]; // Values of the `_type` field, e.g. fetch / xhr
+  minDuration: number | null; // Only requests taking at least this many ms
+}
+
+export const EMPTY_NETWORK_FILTERS: NetworkFilters = {
+  text: '',
+  methods: [],
+  statusClasses: [],
+  types: [],
+  minDuration: null,
+};
+
+/**
+ * Type shown for entries recorded without a `_type`
+ */
+export const UNKNOWN_REQUEST_TYPE = 'other';
+
+export function getStatusClass(status: number): StatusClass {
+  if (status >= 500) return '5xx';
+  if (status >= 400) return '4xx';
+  if (status >= 300) return '3xx';
+  if (status >= 200) return '2xx';
+  return 'failed';
+}
+
+export function getRequestType(entry: HarEntry): string {
+  return entry._type || UNKNOWN_REQUEST_TYPE;
+}
+
+export function hasActiveFilters(filters: NetworkFilters): boolean {
+  return (
+    filters.text.trim() !== '' ||
+    filters.methods.length > 0 ||
+    filters.statusClasses.length > 0 ||
+    filters.types.length > 0 ||
+    filters.minDuration !== null
+  );
+}
+
+/**
+ * Check whether an entry passes every active filter
+ */
+export function matchesNetworkFilters(entry: HarEntry, filters: NetworkFilters): boolean {
+  const text = filters.text.trim().toLowerCase();
+
+  if (text && !entry.request.url.toLowerCase().includes(text)) return false;
+  if (filters.methods.length > 0 && !filters.methods.includes(entry.request.method.toUpperCase())) return false;
+  if (filters.statusClasses.length > 0 && !filters.statusClasses.includes(getStatusClass(entry.response.status))) {
+    return false;
+  }
+  if (filters.types.length > 0 && !filters.types.includes(getRequestType(entry))) return false;
+  if (filters.minDuration !== null && entry.time < filters.minDuration) return false;
+
+  return true;
+}
+
+/**
+ * Check whether a request was in flight at a given timestamp
+ */
+export function isRequestInFlight(entry: HarEntry, timestamp: number): boolean {
+  const start = Date.parse(entry.startedDateTime);
+  return timestamp >= start && timestamp <= start + Math.max(entry.time, 0);
+}
+
+/**
+ * Time range covered by a set of requests
+ * @returns Start and end timestamps in ms, or null for an empty list
+ */
+export function getWaterfallRange(entries: HarEntry[]): { start: number; end: number } | null {
+  if (entries.length === 0) return null;
+
+  let start = Infinity;
+  let end = -Infinity;
+
+  entries.forEach((entry) => {
+    const requestStart = Date.parse(entry.startedDateTime);
+    start = Math.min(start, requestStart);
+    end = Math.max(end, requestStart + Math.max(entry.time, 0));
+  });
+
+  return { start, end: Math.max(end, start + 1) };
+}
@@ -0,0 +1,100 @@
+/**
+ * Privacy Helper Utilities
+ * Finds regions the recorder blocked or masked so the replayer can explain missing data
+ */
+
+import type { eventWithTime } from 'rrweb/typings/types';
+
+import { BLOCKED_REGION_CLASS, PRIVACY_EVENT_TAG } from '@/constants';
+import type { PrivacySummary } from '@/types';
+
+export interface PrivacyInfo {
+  summary: PrivacySummary | null; // null when no text or input was masked, or for recordings made before privacy settings were recorded
+  blockedCount: number; // Number of distinct DOM nodes replaced by a placeholder
+}
+
+// rrweb serialized node type for elements
+const ELEMENT_NODE_TYPE = 2;
+
+/**
+ * Walk a serialized node tree and tag blocked elements
+ * rrweb keeps only `class`, `rr_width` and `rr_height` on blocked elements
+ */
+function markBlockedNodes(node: any, blockedIds: Set<number>): void {
+  if (!node || typeof node !== 'object') return;
+
+  if (node.type === ELEMENT_NODE_TYPE && node.attributes && node.attributes.rr_width !== undefined) {
+    const className = typeof node.attributes.class === 'string' ? node.attributes.class : '';
+    if (!className.split(/\s+/).includes(BLOCKED_REGION_CLASS)) {
+      node.attributes.class = `${className} ${BLOCKED_REGION_CLASS}`.trim();
+    }
+    blockedIds.add(node.id);
+  }
+
+  if (Array.isArray(node.childNodes)) {
+    node.childNodes.forEach((child: any) => markBlockedNodes(child, blockedIds));
+  }
+}
+
+/**
+ * Extract privacy information from recorded events
+ * Blocked elements are tagged in place with BLOCKED_REGION_CLASS so they can be styled during replay
+ */
+export function extractPrivacyInfo(events: eventWithTime[]): PrivacyInfo {
+  let summary: PrivacySummary | null = null;
+  const blockedIds = new Set<number>();
+
+  events.forEach((event: any) => {
+    // Full snapshot
+    if (event.type === 2) {
+      markBlockedNodes(event.data?.node, blockedIds);
+    }
+
+    // Incremental snapshot, mutation source
+    if (event.type === 3 && event.data?.source === 0 && Array.isArray(event.data.adds)) {
+      event.data.adds.forEach((add: any) => markBlockedNodes(add.node, blockedIds));
+    }
+
+    // Privacy settings recorded by the SDK
+    if (event.type === 5 && event.data?.tag === PRIVACY_EVENT_TAG && !summary) {
+      summary = event.data.payload as PrivacySummary;
+    }
+  });
+
+  return { summary, blockedCount: blockedIds.size };
+}
+
+/**
+ * CSS injected into the replay iframe to make blocked regions visible
+ */
+export function getBlockedRegionStyleRules(): string[] {
+  return [
+    `.${BLOCKED_REGION_CLASS} { background: repeating-linear-gradient(45deg, #e8e8e8, #e8e8e8 8px, #f5f5f5 8px, #f5f5f5 16px) !important; outline: 1px dashed #8c8c8c !important; }`,
+  ];
+}
+
+/**
+ * Describe the active privacy settings in a short human-readable list
+ */
+export function describePrivacySummary(summary: PrivacySummary): string[] {
+  const items: string[] = [];
+
+  if (summary.maskAllInputs) {
+    items.push('All input values are masked');
+  } else if (summary.maskInputTypes.length > 0) {
+    items.push(`Masked input types: ${summary.maskInputTypes.join(', ')}`);
+  }
+  if (summary.maskTextSelector) {
+    items.push(`Text masked in: ${summary.maskTextSelector}`);
+  }
+  items.push(`Text masked in: .${summary.maskTextClass}`);
+  if (summary.blockSelector) {
+    items.push(`Blocked elements: ${summary.blockSelector}`);
+  }
+  items.push(`Blocked elements: .${summary.blockClass}`);
+  if (summary.customMaskText || summary.customMaskInput) {
+    items.push('Custom masking function applied');
+  }
+
+  return items;
+}
@@ -0,0 +1,155 @@
+/**
+ * Replay Annotation Utilities
+ * Draws markers on the rrweb-player timeline and points at nodes inside the replay
+ */
+
+import type { Replayer } from 'rrweb';
+
+export interface TimelineMarker {
+  offset: number; // Replay offset in ms
+  title: string; // Shown on hover
+  color?: string;
+  onClick?: () => void;
+}
+
+const MARKER_CLASS = 'web-reel-timeline-marker';
+
+/**
+ * How long a node stays outlined after seeking to it
+ */
+const NODE_HIGHLIGHT_DURATION = 2000;
+
+/**
+ * Format a replay offset as mm:ss
+ */
+export function formatReplayOffset(offset: number): string {
+  const totalSeconds = Math.max(0, Math.floor(offset / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Draw markers on the player's progress bar, replacing previously drawn ones
+ * @param container Element the rrweb-player was mounted into
+ * @param markers Markers to draw
+ * @param totalTime Total replay duration in ms
+ * @returns Cleanup function removing the markers
+ */
+export function renderTimelineMarkers(
+  container: HTMLElement,
+  markers: TimelineMarker[],
+  totalTime: number,
+): () => void {
+  const progress = container.querySelector<HTMLElement>('.rr-progress');
+
+  const clear = () => {
+    container.querySelectorAll(`.${MARKER_CLASS}`).forEach((element) => element.remove());
+  };
+
+  clear();
+
+  if (!progress || totalTime <= 0) {
+    return clear;
+  }
+
+  markers.forEach((marker) => {
+    const element = document.createElement('div');
+    const percentage = Math.min(Math.max(marker.offset / totalTime, 0), 1) * 100;
+
+    element.className = MARKER_CLASS;
+    element.title = marker.title;
+    Object.assign(element.style, {
+      position: 'absolute',
+      top: '-4px',
+      bottom: '-4px',
+      left: `calc(${percentage}% - 2px)`,
+      width: '4px',
+      borderRadius: '2px',
+      background: marker.color || '#722ed1',
+      cursor: 'pointer',
+      zIndex: '2',
+    });
+
+    element.addEventListener('click', (event) => {
+      // Don't let the progress bar seek to the click position
+      event.stopPropagation();
+      marker.onClick?.();
+    });
+
+    progress.appendChild(element);
+  });
+
+  return clear;
+}
+
+/**
+ * Briefly outline a recorded node in the replay
+ * @returns False if the node does not exist at the current replay position
+ */
+export function highlightReplayNode(replayer: Replayer, nodeId: number): boolean {
+  const node = replayer.getMirror().getNode(nodeId) as unknown as Node | null;
+
+  if (!node || node.nodeType !== Node.ELEMENT_NODE) {
+    return false;
+  }
+
+  const element = node as HTMLElement;
+  const previousOutline = element.style.outline;
+  const previousOffset = element.style.outlineOffset;
+
+  element.style.outline = '3px solid #722ed1';
+  element.style.outlineOffset = '2px';
+  element.scrollIntoView?.({ block: 'center', inline: 'center' });
+
+  setTimeout(() => {
+    element.style.outline = previousOutline;
+    element.style.outlineOffset = previousOffset;
+  }, NODE_HIGHLIGHT_DURATION);
+
+  return true;
+}
+
+/**
+ * Let the user click an element in the replay and return its rrweb node ID
+ * Interaction is re-disabled once an element is picked or picking is cancelled
+ * @returns Promise resolving to the node ID, or null if cancelled (Escape)
+ */
+export function pickReplayNode(replayer: Replayer): Promise<number | null> {
+  const doc = replayer.iframe.contentDocument;
+
+  if (!doc) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const finish = (nodeId: number | null) => {
+      doc.removeEventListener('click', handleClick, true);
+      doc.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keydown', handleKeyDown, true);
+      doc.body?.style.removeProperty('cursor');
+      replayer.disableInteract();
+      resolve(nodeId);
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const nodeId = event.target ? replayer.getMirror().getId(event.target as any) : -1;
+      finish(nodeId > 0 ? nodeId : null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        finish(null);
+      }
+    };
+
+    replayer.enableInteract();
+    doc.body?.style.setProperty('cursor', 'crosshair');
+    doc.addEventListener('click', handleClick, true);
+    doc.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keydown', handleKeyDown, true);
+  });
+}
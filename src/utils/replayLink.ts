@@ -0,0 +1,76 @@
+/**
+ * Replay Deep Link Utilities
+ * Builds and parses links like /replayer/42?t=00:42&tab=network&entry=17
+ */
+
+import { formatReplayOffset } from './replayAnnotations';
+
+/**
+ * Tabs of the replayer side panel that a link can open
+ */
+export const REPLAY_LINK_TABS = ['logs', 'network', 'ai-analysis', 'comments', 'triage'] as const;
+
+export type ReplayLinkTab = (typeof REPLAY_LINK_TABS)[number];
+
+export interface ReplayLinkTarget {
+  offset?: number; // Replay offset in ms
+  tab?: ReplayLinkTab;
+  entry?: number; // Index of the console log or network request to highlight in the tab
+}
+
+/**
+ * Parse a replay offset given as mm:ss, hh:mm:ss or plain seconds
+ * @returns Offset in ms, or null if the value is not a valid offset
+ */
+export function parseReplayOffset(value: string): number | null {
+  const parts = value.trim().split(':');
+
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+
+  const seconds = parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return Math.round(seconds * 1000);
+}
+
+/**
+ * Read a deep link target from the replayer page search params
+ * Invalid values are ignored so a bad link still opens the replay
+ */
+export function parseReplayLink(searchParams: Record<string, string | string[] | undefined>): ReplayLinkTarget {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+  const target: ReplayLinkTarget = {};
+
+  const t = first(searchParams.t);
+  if (t) {
+    const offset = parseReplayOffset(t);
+    if (offset !== null) target.offset = offset;
+  }
+
+  const tab = first(searchParams.tab);
+  if (tab && (REPLAY_LINK_TABS as readonly string[]).includes(tab)) {
+    target.tab = tab as ReplayLinkTab;
+  }
+
+  const entry = first(searchParams.entry);
+  if (entry && /^\d+$/.test(entry)) {
+    target.entry = parseInt(entry, 10);
+  }
+
+  return target;
+}
+
+/**
+ * Build an absolute link to a moment in a stored session
+ */
+export function buildReplayLink(sessionId: string | number, target: ReplayLinkTarget): string {
+  // Values are digits, colons and known tab keys, so they are kept readable instead of URL-encoded
+  const params: string[] = [];
+
+  if (target.offset !== undefined) params.push(`t=${formatReplayOffset(target.offset)}`);
+  if (target.tab) params.push(`tab=${target.tab}`);
+  if (target.entry !== undefined) params.push(`entry=${target.entry}`);
+
+  const query = params.join('&');
+  return `${window.location.origin}/replayer/${sessionId}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Replay Page Utilities
+ * A tab's recording continues across page reloads and navigations, each page load starts with its own
+ * snapshot and a 'page-load' event. The pages replay back to back, with their boundaries on the timeline
+ */
+
+import type { eventWithTime } from 'rrweb/typings/types';
+
+import { PAGE_LOAD_EVENT_TAG } from '@/constants';
+import type { PageLoadInfo } from '@/types';
+
+export interface PageBoundary {
+  timestamp: number;
+  index: number; // Position of the page in the session, from 0
+  url: string;
+  navigationType: PageLoadInfo['navigationType'];
+}
+
+const NAVIGATION_LABELS: Record<PageLoadInfo['navigationType'], string> = {
+  navigate: 'navigation',
+  reload: 'reload',
+  back_forward: 'back/forward',
+  prerender: 'prerender',
+};
+
+/**
+ * Page loads recorded in the events of a tab, in time order
+ */
+export function getPageBoundaries(events: eventWithTime[]): PageBoundary[] {
+  const boundaries: PageBoundary[] = [];
+
+  events.forEach((event: any) => {
+    if (event.type === 5 && event.data?.tag === PAGE_LOAD_EVENT_TAG) {
+      const payload = event.data.payload as PageLoadInfo | undefined;
+      if (payload) {
+        boundaries.push({
+          timestamp: event.timestamp,
+          index: payload.index,
+          url: payload.url,
+          navigationType: payload.navigationType,
+        });
+      }
+    }
+  });
+
+  return boundaries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Describe a page boundary, e.g. 'Page 2 (reload): https://example.com/cart'
+ */
+export function describePageBoundary(boundary: PageBoundary): string {
+  const navigation = NAVIGATION_LABELS[boundary.navigationType] ?? boundary.navigationType;
+  return `Page ${boundary.index + 1} (${navigation}): ${boundary.url}`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Replay Tab Utilities
+ * Sessions recorded in several tabs hold the events of every tab, tagged with a tabId.
+ * Each tab has its own snapshots, so the replayer plays one tab at a time
+ */
+
+import type { eventWithTime } from 'rrweb/typings/types';
+
+import { TAB_ACTIVITY_EVENT_TAG } from '@/constants';
+import type { TabActivity } from '@/types';
+
+export interface ReplayTab {
+  tabId: string; // Empty for recordings made in a single tab
+  label: string;
+  events: eventWithTime[];
+  startTime: number; // Timestamp of its first event
+  endTime: number;
+}
+
+export interface TabActivityChange {
+  tabId: string;
+  state: TabActivity['state'];
+  timestamp: number;
+}
+
+export interface ActiveTabSpan {
+  tabId: string | null; // null while no tab was visible
+  start: number;
+  end: number;
+}
+
+/**
+ * Split the events of a session by tab, tabs are ordered by their first event
+ */
+export function splitTabStreams(events: eventWithTime[]): ReplayTab[] {
+  const streams = new Map<string, eventWithTime[]>();
+
+  events.forEach((event) => {
+    const tabId = (event as { tabId?: string }).tabId ?? '';
+    const stream = streams.get(tabId);
+    if (stream) {
+      stream.push(event);
+    } else {
+      streams.set(tabId, [event]);
+    }
+  });
+
+  return Array.from(streams.entries()).map(([tabId, tabEvents], index) => ({
+    tabId,
+    label: `Tab ${index + 1}`,
+    events: tabEvents,
+    startTime: tabEvents[0]!.timestamp,
+    endTime: tabEvents[tabEvents.length - 1]!.timestamp,
+  }));
+}
+
+/**
+ * Tab shown / hidden changes recorded in a session, in time order
+ */
+export function getTabActivityChanges(events: eventWithTime[]): TabActivityChange[] {
+  const changes: TabActivityChange[] = [];
+
+  events.forEach((event: any) => {
+    if (event.type === 5 && event.data?.tag === TAB_ACTIVITY_EVENT_TAG) {
+      const payload = event.data.payload as TabActivity | undefined;
+      if (payload?.tabId) {
+        changes.push({ tabId: payload.tabId, state: payload.state, timestamp: event.timestamp });
+      }
+    }
+  });
+
+  return changes.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Tab the user was looking at, at a given time
+ * Several windows can be visible at once, the one shown last wins
+ * @returns The tab ID, or null when no tab was visible
+ */
+export function getActiveTabAt(changes: TabActivityChange[], timestamp: number): string | null {
+  const visible: string[] = []; // Ordered by when they were shown
+
+  for (const change of changes) {
+    if (change.timestamp > timestamp) break;
+
+    const index = visible.indexOf(change.tabId);
+    if (index !== -1) visible.splice(index, 1);
+    if (change.state === 'visible') visible.push(change.tabId);
+  }
+
+  return visible[visible.length - 1] ?? null;
+}
+
+/**
+ * Periods during which one tab stayed active, covering start to end
+ */
+export function getActiveTabSpans(changes: TabActivityChange[], start: number, end: number): ActiveTabSpan[] {
+  const spans: ActiveTabSpan[] = [];
+  let current: ActiveTabSpan = { tabId: getActiveTabAt(changes, start), start, end };
+
+  changes.forEach((change) => {
+    if (change.timestamp <= start || change.timestamp >= end) return;
+
+    const tabId = getActiveTabAt(changes, change.timestamp);
+    if (tabId !== current.tabId) {
+      spans.push({ ...current, end: change.timestamp });
+      current = { tabId, start: change.timestamp, end };
+    }
+  });
+
+  spans.push(current);
+  return spans;
+}
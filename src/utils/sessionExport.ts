@@ -0,0 +1,91 @@
+/**
+ * Session Export Utilities
+ * Bundles stored sessions into one ZIP file for download
+ */
+
+import JSZip from 'jszip';
+
+import type { GetSessionResponse } from '@/types/session';
+import { archiveToCollection, createArchiveZip, readSessionArchive } from '@/utils/sessionArchive';
+import { downloadSessionSegments, mergeSegmentCollections } from '@/utils/sessionSegments';
+
+/**
+ * Download one session as a single ZIP file
+ * Segmented sessions are merged back into one archive, keeping the metadata of the first segment
+ */
+export async function downloadSessionZip(sessionId: number): Promise<ArrayBuffer | Blob> {
+  const response = await fetch(`/api/sessions/${sessionId}`);
+  const data: GetSessionResponse = await response.json();
+
+  if (!data.success || !data.session) {
+    throw new Error(data.error || `Failed to fetch session #${sessionId}`);
+  }
+
+  if (data.session.segment_count > 0) {
+    const buffers = await downloadSessionSegments(sessionId);
+    const archives = await Promise.all(buffers.map(readSessionArchive));
+    const { manifest } = archives[0]!;
+    const merged = mergeSegmentCollections(archives.map(archiveToCollection))[manifest.session.id]!;
+
+    const { id, projectName, appId, deviceId, platform } = manifest.session;
+    const zip = await createArchiveZip(
+      id,
+      merged.eventData,
+      merged.responseData,
+      { projectName, appId, deviceId, platform },
+      manifest.recorderVersion,
+    );
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+  }
+
+  if (!data.session.blob_url) {
+    throw new Error(`Session #${sessionId} has no uploaded file`);
+  }
+
+  const fileResponse = await fetch(data.session.blob_url);
+  if (!fileResponse.ok) {
+    throw new Error(`Failed to download session #${sessionId} (status ${fileResponse.status})`);
+  }
+
+  return fileResponse.arrayBuffer();
+}
+
+/**
+ * Export several sessions as one ZIP containing session-<id>.zip files
+ * @returns IDs of sessions that could not be exported
+ */
+export async function exportSessions(
+  sessionIds: number[],
+  onProgress?: (_completed: number, _total: number) => void,
+): Promise<number[]> {
+  const bundle = new JSZip();
+  const failed: number[] = [];
+
+  for (const [index, sessionId] of sessionIds.entries()) {
+    try {
+      bundle.file(`session-${sessionId}.zip`, await downloadSessionZip(sessionId));
+    } catch (error) {
+      console.error(`[Export] Failed to export session #${sessionId}:`, error);
+      failed.push(sessionId);
+    }
+    onProgress?.(index + 1, sessionIds.length);
+  }
+
+  if (failed.length === sessionIds.length) {
+    throw new Error('None of the selected sessions could be exported');
+  }
+
+  // Session files are already compressed
+  const content = await bundle.generateAsync({ type: 'blob', compression: 'STORE' });
+
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sessions-${Date.now()}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return failed;
+}
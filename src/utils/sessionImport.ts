@@ -0,0 +1,263 @@
+/**
+ * Session Import Utilities
+ * Reads Web Reel sessions, plain rrweb event arrays and HAR files dropped into the replayer
+ */
+
+import type { eventWithTime } from 'rrweb/typings/types';
+
+import type { RecordCollection } from '@/recorder';
+import type { HarEntry } from '@/types/har';
+import { readCollectionFromZip } from '@/utils/sessionSegments';
+
+export interface ImportedSession {
+  eventData: eventWithTime[];
+  responseData: HarEntry[];
+  warnings: string[]; // Problems that did not prevent the replay, shown to the user
+}
+
+type ParsedImportFile =
+  | { kind: 'recording'; name: string; eventData: eventWithTime[]; responseData: HarEntry[] }
+  | { kind: 'har'; name: string; entries: HarEntry[] };
+
+/**
+ * Read a dropped file as JSON, unzipping Web Reel archives
+ */
+async function readImportFile(file: File): Promise<unknown> {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    return readCollectionFromZip(await file.arrayBuffer());
+  }
+
+  const text = await file.text();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file.name} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+}
+
+/**
+ * Check that a list of rrweb events can be replayed
+ * @returns The events sorted by timestamp
+ * @throws Error explaining the first problem found
+ */
+export function validateRrwebEvents(events: unknown[], source: string): eventWithTime[] {
+  if (events.length === 0) {
+    throw new Error(`${source} contains no rrweb events`);
+  }
+
+  events.forEach((event: any, index) => {
+    if (!event || typeof event !== 'object') {
+      throw new Error(`Event #${index} in ${source} is not an object`);
+    }
+    if (typeof event.type !== 'number') {
+      throw new Error(`Event #${index} in ${source} has no numeric "type", is this an rrweb recording?`);
+    }
+    if (typeof event.timestamp !== 'number') {
+      throw new Error(`Event #${index} in ${source} has no numeric "timestamp"`);
+    }
+  });
+
+  const typed = events as eventWithTime[];
+
+  if (!typed.some((event) => event.type === 2)) {
+    throw new Error(
+      `${source} has no full snapshot (type 2) event, so there is no page to replay. Export the recording from its start`,
+    );
+  }
+
+  if (!typed.some((event) => event.type === 4)) {
+    throw new Error(`${source} has no meta (type 4) event with the page size, so the replay cannot be laid out`);
+  }
+
+  return [...typed].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Check and normalize the entries of a HAR file
+ * Optional fields missing from the file are filled so the network panel can display them
+ * @throws Error explaining the first invalid entry
+ */
+export function parseHarEntries(har: any, source: string): HarEntry[] {
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error(`${source} is not a HAR file: "log.entries" is missing`);
+  }
+
+  return har.log.entries.map((entry: any, index: number): HarEntry => {
+    if (!entry?.request?.url || !entry.request.method) {
+      throw new Error(`HAR entry #${index} in ${source} has no request URL or method`);
+    }
+    if (isNaN(Date.parse(entry.startedDateTime))) {
+      throw new Error(`HAR entry #${index} in ${source} has an invalid startedDateTime "${entry.startedDateTime}"`);
+    }
+    if (typeof entry.response?.status !== 'number') {
+      throw new Error(`HAR entry #${index} in ${source} has no numeric response status`);
+    }
+
+    return {
+      ...entry,
+      time: typeof entry.time === 'number' ? entry.time : 0,
+      request: {
+        httpVersion: '',
+        cookies: [],
+        headers: [],
+        queryString: [],
+        headersSize: -1,
+        bodySize: -1,
+        ...entry.request,
+      },
+      response: {
+        statusText: '',
+        httpVersion: '',
+        cookies: [],
+        headers: [],
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+        ...entry.response,
+        content: { size: 0, mimeType: '', ...entry.response.content },
+      },
+      cache: entry.cache || {},
+      timings: { send: 0, wait: 0, receive: 0, ...entry.timings },
+    };
+  });
+}
+
+/**
+ * Sort HAR entries onto the rrweb timeline by their start time
+ * @returns The sorted entries and a warning when some cannot be reached from the timeline
+ */
+export function alignHarEntries(
+  entries: HarEntry[],
+  events: eventWithTime[],
+  source: string,
+): { entries: HarEntry[]; warning?: string } {
+  const sorted = [...entries].sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+  if (sorted.length === 0 || events.length === 0) {
+    return { entries: sorted };
+  }
+
+  const recordingStart = events[0]!.timestamp;
+  const recordingEnd = events[events.length - 1]!.timestamp;
+  const outside = sorted.filter((entry) => {
+    const startedAt = Date.parse(entry.startedDateTime);
+    return startedAt < recordingStart || startedAt > recordingEnd;
+  }).length;
+
+  if (outside === sorted.length) {
+    const harStart = new Date(sorted[0]!.startedDateTime).toLocaleString();
+    return {
+      entries: sorted,
+      warning: `None of the ${sorted.length} requests in ${source} happened during the recording (HAR starts ${harStart}, recording starts ${new Date(recordingStart).toLocaleString()}). Were they captured in the same session?`,
+    };
+  }
+
+  if (outside > 0) {
+    return {
+      entries: sorted,
+      warning: `${outside} of ${sorted.length} requests in ${source} happened outside the recording and cannot be seeked to`,
+    };
+  }
+
+  return { entries: sorted };
+}
+
+/**
+ * Recognize the format of a parsed file
+ * Accepts Web Reel collections, the legacy { eventData, responseData } format,
+ * rrweb event arrays (also wrapped as { events }) and HAR files
+ */
+function classifyImportFile(content: any, name: string): ParsedImportFile {
+  if (Array.isArray(content)) {
+    return { kind: 'recording', name, eventData: validateRrwebEvents(content, name), responseData: [] };
+  }
+
+  if (!content || typeof content !== 'object') {
+    throw new Error(`${name} does not contain a recording`);
+  }
+
+  if (content.log && typeof content.log === 'object') {
+    return { kind: 'har', name, entries: parseHarEntries(content, name) };
+  }
+
+  if (Array.isArray(content.events)) {
+    return { kind: 'recording', name, eventData: validateRrwebEvents(content.events, name), responseData: [] };
+  }
+
+  // Old/test format: { eventData: [...], responseData: [...] }
+  if (Array.isArray(content.eventData)) {
+    return {
+      kind: 'recording',
+      name,
+      eventData: validateRrwebEvents(content.eventData, name),
+      responseData: Array.isArray(content.responseData) ? content.responseData : [],
+    };
+  }
+
+  // Web Reel format: { "sessionId": { eventData: [...], responseData: [...] } }, load the most recent session
+  const collection = content as RecordCollection;
+  const sessionIds = Object.keys(collection)
+    .filter((key) => Array.isArray(collection[key]?.eventData))
+    .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+
+  if (sessionIds.length === 0) {
+    throw new Error(
+      `${name} is not a recognized format. Expected a Web Reel session, an array of rrweb events or a HAR file`,
+    );
+  }
+
+  const session = collection[sessionIds[0]!]!;
+  return {
+    kind: 'recording',
+    name,
+    eventData: validateRrwebEvents(session.eventData, name),
+    responseData: session.responseData || [],
+  };
+}
+
+/**
+ * Import one recording, optionally with separate HAR files for its network traffic
+ * @throws Error explaining why the files cannot be replayed
+ */
+export async function importSessionFiles(files: File[]): Promise<ImportedSession> {
+  const parsed: ParsedImportFile[] = [];
+  for (const file of files) {
+    parsed.push(classifyImportFile(await readImportFile(file), file.name));
+  }
+
+  const recordings = parsed.filter((file) => file.kind === 'recording');
+  const hars = parsed.filter((file) => file.kind === 'har');
+
+  if (recordings.length === 0) {
+    throw new Error(
+      'A HAR file only contains network requests. Select it together with the rrweb events or Web Reel session file',
+    );
+  }
+
+  if (recordings.length > 1) {
+    throw new Error(`Import one recording at a time (got ${recordings.map((file) => file.name).join(', ')})`);
+  }
+
+  const recording = recordings[0]!;
+  const warnings: string[] = [];
+  let responseData = recording.responseData;
+
+  hars.forEach((har) => {
+    const aligned = alignHarEntries(har.entries, recording.eventData, har.name);
+    if (aligned.warning) warnings.push(aligned.warning);
+    responseData = [...responseData, ...aligned.entries];
+  });
+
+  return { eventData: recording.eventData, responseData, warnings };
+}
+
+/**
+ * Read a HAR file to attach to a recording that is already loaded
+ */
+export async function importHarFile(
+  file: File,
+  events: eventWithTime[],
+): Promise<{ entries: HarEntry[]; warning?: string }> {
+  const content = await readImportFile(file);
+  return alignHarEntries(parseHarEntries(content, file.name), events, file.name);
+}
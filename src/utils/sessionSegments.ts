@@ -0,0 +1,94 @@
+/**
+ * Session Segment Utilities
+ * Downloads the segments of a segmented upload and stitches them back into one collection
+ */
+
+import type { RecordCollection } from '@/recorder';
+import type { ListSegmentsResponse } from '@/types/session';
+import { downloadWithChunks, type DownloadProgress } from '@/utils/chunkDownloader';
+import { archiveToCollection, readSessionArchive } from '@/utils/sessionArchive';
+
+/**
+ * Download every segment of a session in seq order
+ * Progress is reported across all segments combined
+ */
+export async function downloadSessionSegments(
+  sessionId: string | number,
+  onProgress?: (_progress: DownloadProgress) => void,
+): Promise<ArrayBuffer[]> {
+  const response = await fetch(`/api/sessions/${sessionId}/segments`);
+  const data: ListSegmentsResponse = await response.json();
+
+  if (!data.success || !data.segments) {
+    throw new Error(data.error || 'Failed to fetch session segments');
+  }
+
+  const segments = [...data.segments].sort((a, b) => a.seq - b.seq);
+  const total = segments.reduce((sum, segment) => sum + segment.file_size, 0);
+  const startTime = Date.now();
+  const buffers: ArrayBuffer[] = [];
+  let completedBytes = 0;
+
+  for (const segment of segments) {
+    const buffer = await downloadWithChunks({
+      url: segment.blob_url,
+      fileSize: segment.file_size,
+      onProgress: (progress) => {
+        if (!onProgress) return;
+
+        const loaded = completedBytes + progress.loaded;
+        const elapsed = (Date.now() - startTime) / 1000;
+        const speed = elapsed > 0 ? loaded / elapsed : 0;
+
+        onProgress({
+          ...progress,
+          loaded,
+          total,
+          percentage: total > 0 ? (loaded / total) * 100 : 100,
+          speed,
+          remainingTime: speed > 0 ? (total - loaded) / speed : 0,
+        });
+      },
+    });
+
+    completedBytes += segment.file_size;
+    buffers.push(buffer);
+  }
+
+  return buffers;
+}
+
+/**
+ * Read the recording collection from a session archive
+ * Archives are validated against their manifest, older data.json archives are migrated
+ */
+export async function readCollectionFromZip(buffer: ArrayBuffer | Uint8Array): Promise<RecordCollection> {
+  return archiveToCollection(await readSessionArchive(buffer));
+}
+
+/**
+ * Concatenate segment collections in upload order
+ * Events are re-sorted by timestamp so late-flushed rows still replay in order
+ */
+export function mergeSegmentCollections(collections: RecordCollection[]): RecordCollection {
+  if (collections.length === 1) {
+    return collections[0]!;
+  }
+
+  const merged: RecordCollection = {};
+
+  collections.forEach((collection) => {
+    Object.entries(collection).forEach(([key, session]) => {
+      const target = merged[key] || { eventData: [], responseData: [] };
+      target.eventData.push(...(session.eventData || []));
+      target.responseData.push(...(session.responseData || []));
+      merged[key] = target;
+    });
+  });
+
+  Object.values(merged).forEach((session) => {
+    session.eventData.sort((a, b) => a.timestamp - b.timestamp);
+  });
+
+  return merged;
+}